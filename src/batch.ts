@@ -0,0 +1,104 @@
+import { BatchMetric, BatchOutlier, BatchSummary, CallTreeNode, DistributionStats, MarkerSummary, PageLoadSummary } from "./types.js";
+
+// Linear interpolation between the closest ranks, on sorted values.
+export function percentile(sorted: number[], p: number): number {
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function computeDistributionStats(values: number[]): DistributionStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  // The sample standard deviation, as the runs are a sample of all possible runs.
+  const variance = sorted.length > 1
+    ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (sorted.length - 1)
+    : 0;
+  return {
+    runs: sorted.length,
+    median: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    stddev: Math.sqrt(variance),
+  };
+}
+
+function toMetric(name: string, unit: "ms" | "%", values: Array<number | null>): BatchMetric | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? { name, unit, stats: computeDistributionStats(present), values } : null;
+}
+
+// Tukey's fences; with fewer than 4 runs the quartiles say too little.
+function findOutliers(profiles: string[], metrics: BatchMetric[]): BatchOutlier[] {
+  const outliers: BatchOutlier[] = [];
+  for (const metric of metrics) {
+    const sorted = metric.values.filter((value): value is number => value !== null).sort((a, b) => a - b);
+    if (sorted.length < 4) {
+      continue;
+    }
+    const q1 = percentile(sorted, 0.25);
+    const q3 = percentile(sorted, 0.75);
+    const iqr = q3 - q1;
+    metric.values.forEach((value, i) => {
+      if (value !== null && (value < q1 - 1.5 * iqr || value > q3 + 1.5 * iqr)) {
+        outliers.push({ profile: profiles[i], metric: metric.name, value, median: metric.stats.median });
+      }
+    });
+  }
+  return outliers;
+}
+
+// The metrics of each run, by metric name. Runs without a page load metric
+// have null for it.
+export function getPageLoadValues(summaries: PageLoadSummary[]): Map<string, Array<number | null>> {
+  return new Map([
+    ["FCP", summaries.map((summary) => summary.firstContentfulPaint)],
+    ["LCP", summaries.map((summary) => summary.largestContentfulPaint)],
+    ["Load", summaries.map((summary) => summary.load)],
+  ]);
+}
+
+// The total duration of each marker in each run; 0 ms in runs without it.
+export function getMarkerTotalValues(runs: MarkerSummary[][]): Map<string, number[]> {
+  const byName = runs.map((markers) => new Map(markers.map((marker) => [marker.name, marker.totalDuration])));
+  const names = new Set(byName.flatMap((markers) => [...markers.keys()]));
+  return new Map([...names].map((name) => [name, byName.map((markers) => markers.get(name) ?? 0)]));
+}
+
+// The self time of each function as a percentage of each run's samples. Every
+// function of each run is needed for the totals.
+export function getFunctionShareValues(runs: CallTreeNode[][]): Map<string, number[]> {
+  const totals = runs.map((nodes) => nodes.reduce((sum, node) => sum + node.selfTime, 0));
+  const byName = runs.map((nodes) => new Map(nodes.map((node) => [node.name, node.selfTime])));
+  const names = new Set(byName.flatMap((nodes) => [...nodes.keys()]));
+  return new Map([...names].map((name) => [
+    name,
+    byName.map((nodes, i) => (totals[i] > 0 ? ((nodes.get(name) ?? 0) / totals[i]) * 100 : 0)),
+  ]));
+}
+
+export function aggregatePageLoads(profiles: string[], summaries: PageLoadSummary[]): BatchSummary {
+  const metrics = [...getPageLoadValues(summaries)]
+    .map(([name, values]) => toMetric(name, "ms", values))
+    .filter((metric): metric is BatchMetric => metric !== null);
+  return { profiles, metrics, outliers: findOutliers(profiles, metrics) };
+}
+
+// The `limit` metrics with the highest median.
+function aggregateTop(profiles: string[], values: Map<string, number[]>, unit: "ms" | "%", limit: number): BatchSummary {
+  const metrics = [...values].map(([name, runValues]) => toMetric(name, unit, runValues)!);
+  metrics.sort((a, b) => b.stats.median - a.stats.median);
+  const top = metrics.slice(0, limit);
+  return { profiles, metrics: top, outliers: findOutliers(profiles, top) };
+}
+
+export function aggregateMarkers(profiles: string[], runs: MarkerSummary[][], limit: number): BatchSummary {
+  return aggregateTop(profiles, getMarkerTotalValues(runs), "ms", limit);
+}
+
+export function aggregateFunctions(profiles: string[], runs: CallTreeNode[][], limit: number): BatchSummary {
+  return aggregateTop(profiles, getFunctionShareValues(runs), "%", limit);
+}
@@ -0,0 +1,244 @@
+import { readFileSync } from "fs";
+import { CallTreeNode, MarkerSummary, NetworkResourceSummary, PageLoadSummary } from "./types.js";
+import { ReplBackend, ReplView } from "./repl.js";
+
+type Comparator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+type BudgetMetric =
+  | { kind: "page-load"; field: "load" | "firstContentfulPaint" | "largestContentfulPaint" }
+  | { kind: "marker"; name: string; stat: "count" | "total" | "avg" | "min" | "max" }
+  | { kind: "function"; name: string; stat: "self" | "total" }
+  | { kind: "network"; minDuration: number | null }
+  | { kind: "jank"; stat: "count" | "total" | "max" };
+
+// The unit that the actual value is measured and printed in.
+type BudgetUnit = "ms" | "%" | "samples" | "count";
+
+export interface BudgetRule {
+  text: string;
+  metric: BudgetMetric;
+  comparator: Comparator;
+  limit: number;
+  unit: BudgetUnit;
+}
+
+export interface BudgetResult {
+  rule: string;
+  // null when the profile does not have the metric, e.g. no LCP.
+  actual: number | null;
+  unit: BudgetUnit;
+  passed: boolean;
+}
+
+const PAGE_LOAD_FIELDS = {
+  lcp: "largestContentfulPaint",
+  fcp: "firstContentfulPaint",
+  load: "load",
+} as const;
+
+// Parses a duration like "500ms" or "2.5s" into ms.
+function parseDuration(value: string, unit: string | undefined): number {
+  return unit !== undefined && unit.toLowerCase() === "s" ? Number(value) * 1000 : Number(value);
+}
+
+function parseMetric(text: string): BudgetMetric {
+  let match: RegExpMatchArray | null;
+  if ((match = text.match(/^(lcp|fcp|load)$/i))) {
+    return { kind: "page-load", field: PAGE_LOAD_FIELDS[match[1].toLowerCase() as keyof typeof PAGE_LOAD_FIELDS] };
+  }
+  if ((match = text.match(/^marker\s+"(.+)"\s+(count|total|avg|min|max)$/i))) {
+    return { kind: "marker", name: match[1], stat: match[2].toLowerCase() as "count" | "total" | "avg" | "min" | "max" };
+  }
+  if ((match = text.match(/^function\s+"(.+)"\s+(self|total)$/i))) {
+    return { kind: "function", name: match[1], stat: match[2].toLowerCase() as "self" | "total" };
+  }
+  if ((match = text.match(/^network\s+resources(?:\s*>\s*(\d+(?:\.\d+)?)\s*(ms|s)?)?\s+count$/i))) {
+    return { kind: "network", minDuration: match[1] !== undefined ? parseDuration(match[1], match[2]) : null };
+  }
+  if ((match = text.match(/^jank\s+periods(?:\s+(count|total|max))?$/i))) {
+    return { kind: "jank", stat: (match[1]?.toLowerCase() ?? "count") as "count" | "total" | "max" };
+  }
+  throw new Error(
+    'unknown metric, expected LCP, FCP, load, marker "<name>" count|total|avg|min|max, function "<name>" self|total, ' +
+    "network resources [> <duration>] count, or jank periods [count|total|max]"
+  );
+}
+
+function getUnit(metric: BudgetMetric, limitUnit: string | undefined): BudgetUnit {
+  const isDuration = metric.kind === "page-load" ||
+    (metric.kind === "marker" && metric.stat !== "count") ||
+    (metric.kind === "jank" && metric.stat !== "count");
+
+  if (isDuration) {
+    if (limitUnit === "%") {
+      throw new Error("durations are limited in ms or s, not %");
+    }
+    return "ms";
+  }
+  if (metric.kind === "function") {
+    // Without a unit, the limit is a number of samples.
+    if (limitUnit !== undefined && limitUnit !== "%") {
+      throw new Error("function time is limited in % of all samples or in samples, not in ms");
+    }
+    return limitUnit === "%" ? "%" : "samples";
+  }
+  if (limitUnit !== undefined) {
+    throw new Error("counts take no unit");
+  }
+  return "count";
+}
+
+/**
+ * Parses a rule like `LCP < 2500ms`, `marker "Reflow" total < 200ms`,
+ * `function "malloc" self < 5%`, `network resources > 500ms count == 0` or
+ * `jank periods == 0`.
+ */
+export function parseBudgetRule(text: string): BudgetRule {
+  // The last comparator is the rule's; `network resources > 500ms` has one too.
+  const match = text.trim().match(/^(.*\S)\s*(<=|>=|==|!=|<|>)\s*(\d+(?:\.\d+)?)\s*(ms|s|%)?$/i);
+  if (!match) {
+    throw new Error("expected <metric> <comparator> <limit>, e.g. LCP < 2500ms");
+  }
+  const [, metricText, comparator, value, limitUnit] = match;
+  const metric = parseMetric(metricText.trim());
+  const unit = getUnit(metric, limitUnit?.toLowerCase());
+  const limit = unit === "ms" ? parseDuration(value, limitUnit) : Number(value);
+  return { text: text.trim(), metric, comparator: comparator as Comparator, limit, unit };
+}
+
+// Reads a budget file: {"rules": ["LCP < 2500ms", ...]}.
+export function loadBudget(path: string): BudgetRule[] {
+  let budget: any;
+  try {
+    budget = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read budget ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!budget || !Array.isArray(budget.rules) || budget.rules.some((rule: unknown) => typeof rule !== "string")) {
+    throw new Error(`${path} must contain {"rules": ["LCP < 2500ms", ...]}`);
+  }
+  return budget.rules.map((rule: string, i: number) => {
+    try {
+      return parseBudgetRule(rule);
+    } catch (error) {
+      throw new Error(`${path}: rule ${i + 1} "${rule}": ${(error as Error).message}`);
+    }
+  });
+}
+
+function compare(actual: number, comparator: Comparator, limit: number): boolean {
+  switch (comparator) {
+    case "<": return actual < limit;
+    case "<=": return actual <= limit;
+    case ">": return actual > limit;
+    case ">=": return actual >= limit;
+    case "==": return actual === limit;
+    case "!=": return actual !== limit;
+  }
+}
+
+// The data the rules are evaluated against; each part is only queried when a
+// rule needs it.
+interface BudgetData {
+  pageLoad: PageLoadSummary | null;
+  markers: MarkerSummary[] | null;
+  functions: CallTreeNode[] | null;
+  network: NetworkResourceSummary | null;
+}
+
+function getActual(rule: BudgetRule, data: BudgetData): number | null {
+  const metric = rule.metric;
+  switch (metric.kind) {
+    case "page-load":
+      return data.pageLoad![metric.field];
+    case "marker": {
+      // A marker that does not occur counts as zero.
+      const marker = data.markers!.find((summary) => summary.name === metric.name);
+      if (!marker) {
+        return 0;
+      }
+      const stats = { count: marker.count, total: marker.totalDuration, avg: marker.avgDuration, min: marker.minDuration, max: marker.maxDuration };
+      return stats[metric.stat];
+    }
+    case "function": {
+      const node = data.functions!.find((fn) => fn.name === metric.name);
+      const samples = node ? (metric.stat === "self" ? node.selfTime : node.totalTime) : 0;
+      if (rule.unit === "samples") {
+        return samples;
+      }
+      const totalSamples = data.functions!.reduce((sum, fn) => sum + fn.selfTime, 0);
+      return totalSamples > 0 ? (samples / totalSamples) * 100 : 0;
+    }
+    case "network":
+      return data.network!.resources.filter((res) => metric.minDuration === null || res.duration > metric.minDuration).length;
+    case "jank": {
+      const jankPeriods = data.pageLoad!.jankPeriods ?? [];
+      if (metric.stat === "count") {
+        return jankPeriods.length;
+      }
+      const durations = jankPeriods.map((jank) => jank.duration);
+      return metric.stat === "total" ? durations.reduce((sum, d) => sum + d, 0) : Math.max(0, ...durations);
+    }
+  }
+}
+
+export async function evaluateBudget(rules: BudgetRule[], backend: ReplBackend, view: ReplView): Promise<BudgetResult[]> {
+  const needs = (kind: BudgetMetric["kind"]) => rules.some((rule) => rule.metric.kind === kind);
+  const data: BudgetData = {
+    pageLoad: needs("page-load") || needs("jank") ? await backend.pageLoad(view) : null,
+    markers: needs("marker") ? await backend.markers(view) : null,
+    // Every function is needed for the share of all samples.
+    functions: needs("function") ? await backend.callTree(view, Number.MAX_SAFE_INTEGER, false) : null,
+    network: needs("network") ? await backend.network(view) : null,
+  };
+
+  return rules.map((rule) => {
+    const actual = getActual(rule, data);
+    return {
+      rule: rule.text,
+      actual,
+      unit: rule.unit,
+      passed: actual !== null && compare(actual, rule.comparator, rule.limit),
+    };
+  });
+}
+
+export function formatBudgetValue(value: number | null, unit: BudgetUnit): string {
+  if (value === null) {
+    return "not found";
+  }
+  switch (unit) {
+    case "ms": return `${value.toFixed(2)} ms`;
+    case "%": return `${value.toFixed(2)}%`;
+    case "samples": return `${value} samples`;
+    case "count": return String(value);
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// A JUnit XML report with one test case per rule, as read by CI systems.
+export function toJUnitXml(results: BudgetResult[], suiteName: string, profile: string): string {
+  const failures = results.filter((result) => !result.passed).length;
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="profiler-cli" tests="${results.length}" failures="${failures}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${results.length}" failures="${failures}">`,
+    `    <properties>`,
+    `      <property name="profile" value="${escapeXml(profile)}"/>`,
+    `    </properties>`,
+  ];
+  for (const result of results) {
+    const testcase = `    <testcase classname="budget" name="${escapeXml(result.rule)}"`;
+    if (result.passed) {
+      lines.push(`${testcase}/>`);
+    } else {
+      const message = `Actual: ${formatBudgetValue(result.actual, result.unit)}`;
+      lines.push(`${testcase}>`, `      <failure type="budget" message="${escapeXml(message)}"/>`, `    </testcase>`);
+    }
+  }
+  lines.push(`  </testsuite>`, `</testsuites>`);
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,257 @@
+import { CallTreeNode, MarkerSummary, MetricComparison, PageLoadSummary, ProfileSetComparison } from "./types.js";
+import { computeDistributionStats, percentile, getPageLoadValues, getMarkerTotalValues, getFunctionShareValues } from "./batch.js";
+
+// Abramowitz and Stegun 7.1.26, accurate to 1.5e-7.
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+    Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Acklam's rational approximation of the inverse of the normal CDF.
+function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// The number of orderings of m and n values that give each U, from the
+// recurrence c(m, n, u) = c(m - 1, n, u - n) + c(m, n - 1, u). Every metric of
+// a comparison has the same sample sizes, so they are computed once.
+const exactUCountsCache = new Map<string, number[]>();
+
+function exactUCounts(m: number, n: number): number[] {
+  const key = `${m},${n}`;
+  const cached = exactUCountsCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let previous: number[][] = [];
+  for (let i = 0; i <= m; i++) {
+    const row: number[][] = [];
+    for (let j = 0; j <= n; j++) {
+      if (i === 0 || j === 0) {
+        row.push([1]);
+        continue;
+      }
+      const counts = new Array(i * j + 1).fill(0);
+      previous[j].forEach((count, u) => { counts[u + j] += count; });
+      row[j - 1].forEach((count, u) => { counts[u] += count; });
+      row.push(counts);
+    }
+    previous = row;
+  }
+  exactUCountsCache.set(key, previous[n]);
+  return previous[n];
+}
+
+/**
+ * The two-sided p-value of the Mann-Whitney U test. It is exact for small
+ * samples without ties, and otherwise uses the normal approximation with tie
+ * and continuity corrections.
+ */
+export function mannWhitneyU(base: number[], candidate: number[]): { u: number; pValue: number } {
+  const m = base.length;
+  const n = candidate.length;
+  const all = [...base.map((value) => ({ value, isBase: true })), ...candidate.map((value) => ({ value, isBase: false }))]
+    .sort((a, b) => a.value - b.value);
+
+  // Tied values get the average of their ranks.
+  let baseRankSum = 0;
+  let tieTerm = 0;
+  for (let i = 0; i < all.length;) {
+    let j = i;
+    while (j < all.length && all[j].value === all[i].value) {
+      j++;
+    }
+    const rank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) {
+      if (all[k].isBase) {
+        baseRankSum += rank;
+      }
+    }
+    tieTerm += (j - i) ** 3 - (j - i);
+    i = j;
+  }
+
+  const u = baseRankSum - (m * (m + 1)) / 2;
+  const mean = (m * n) / 2;
+
+  if (tieTerm === 0 && m + n <= 40) {
+    const counts = exactUCounts(m, n);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const lowerTail = counts.slice(0, Math.floor(u) + 1).reduce((sum, count) => sum + count, 0) / total;
+    const upperTail = counts.slice(Math.ceil(u)).reduce((sum, count) => sum + count, 0) / total;
+    return { u, pValue: Math.min(1, 2 * Math.min(lowerTail, upperTail)) };
+  }
+
+  const total = m + n;
+  const variance = ((m * n) / 12) * (total + 1 - tieTerm / (total * (total - 1)));
+  if (variance <= 0) {
+    return { u, pValue: 1 };
+  }
+  const z = Math.max(0, Math.abs(u - mean) - 0.5) / Math.sqrt(variance);
+  return { u, pValue: Math.min(1, 2 * (1 - normalCdf(z))) };
+}
+
+/**
+ * The Hodges-Lehmann estimate of the shift from base to candidate (the median
+ * of all pairwise differences), with its confidence interval from the normal
+ * approximation of the U distribution.
+ */
+export function hodgesLehmannShift(base: number[], candidate: number[], confidence: number): { shift: number; low: number; high: number } {
+  const differences: number[] = [];
+  for (const b of base) {
+    for (const c of candidate) {
+      differences.push(c - b);
+    }
+  }
+  differences.sort((a, b) => a - b);
+
+  const m = base.length;
+  const n = candidate.length;
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  // The bounds are the k-th smallest and k-th largest differences; with too few
+  // runs for the confidence level, the interval is all of them.
+  const k = Math.max(1, Math.floor((m * n) / 2 - z * Math.sqrt((m * n * (m + n + 1)) / 12)));
+  return {
+    shift: percentile(differences, 0.5),
+    low: differences[k - 1],
+    high: differences[differences.length - k],
+  };
+}
+
+/**
+ * Compares the runs of a metric. A change is a regression or an improvement
+ * when it is significant at the confidence level and the medians differ by at
+ * least `thresholdPercent`. Larger values are worse for every metric.
+ */
+export function compareMetric(
+  name: string,
+  group: MetricComparison["group"],
+  unit: MetricComparison["unit"],
+  base: number[],
+  candidate: number[],
+  confidence: number,
+  thresholdPercent: number
+): MetricComparison {
+  const baseStats = computeDistributionStats(base);
+  const candidateStats = computeDistributionStats(candidate);
+  const { pValue } = mannWhitneyU(base, candidate);
+  const { shift, low, high } = hodgesLehmannShift(base, candidate, confidence);
+
+  const changePercent = baseStats.median !== 0
+    ? ((candidateStats.median - baseStats.median) / baseStats.median) * 100
+    : null;
+  // A metric that was 0 in the base changed by more than any threshold.
+  const aboveThreshold = changePercent === null ? candidateStats.median !== 0 : Math.abs(changePercent) >= thresholdPercent;
+  const significant = pValue < 1 - confidence;
+
+  return {
+    name,
+    group,
+    unit,
+    base: baseStats,
+    candidate: candidateStats,
+    changePercent,
+    shift,
+    shiftLow: low,
+    shiftHigh: high,
+    pValue,
+    verdict: significant && aboveThreshold && shift !== 0 ? (shift > 0 ? "regression" : "improvement") : "unchanged",
+  };
+}
+
+// The queried runs of one set of profiles; null for the queries not requested.
+export interface ProfileSetRuns {
+  pageLoads: PageLoadSummary[] | null;
+  markers: MarkerSummary[][] | null;
+  functions: CallTreeNode[][] | null;
+}
+
+// Compares every metric of one group, and keeps the `limit` with the largest
+// shift. A metric missing from one set is 0 in all of its runs.
+function compareGroup(
+  group: MetricComparison["group"],
+  unit: MetricComparison["unit"],
+  base: Map<string, number[]>,
+  baseRuns: number,
+  candidate: Map<string, number[]>,
+  candidateRuns: number,
+  confidence: number,
+  thresholdPercent: number,
+  limit: number
+): MetricComparison[] {
+  const names = new Set([...base.keys(), ...candidate.keys()]);
+  const comparisons = [...names].map((name) => compareMetric(
+    name,
+    group,
+    unit,
+    base.get(name) ?? new Array(baseRuns).fill(0),
+    candidate.get(name) ?? new Array(candidateRuns).fill(0),
+    confidence,
+    thresholdPercent
+  ));
+  return comparisons.sort((a, b) => Math.abs(b.shift) - Math.abs(a.shift)).slice(0, limit);
+}
+
+export function compareProfileSets(
+  baseProfiles: string[],
+  candidateProfiles: string[],
+  base: ProfileSetRuns,
+  candidate: ProfileSetRuns,
+  markerLimit: number,
+  functionLimit: number,
+  confidence: number,
+  thresholdPercent: number
+): ProfileSetComparison {
+  const metrics: MetricComparison[] = [];
+
+  if (base.pageLoads && candidate.pageLoads) {
+    const candidateValues = getPageLoadValues(candidate.pageLoads);
+    for (const [name, values] of getPageLoadValues(base.pageLoads)) {
+      // Runs without the metric are left out; both sets need at least one.
+      const basePresent = values.filter((value): value is number => value !== null);
+      const candidatePresent = candidateValues.get(name)!.filter((value): value is number => value !== null);
+      if (basePresent.length > 0 && candidatePresent.length > 0) {
+        metrics.push(compareMetric(name, "page-load", "ms", basePresent, candidatePresent, confidence, thresholdPercent));
+      }
+    }
+  }
+
+  if (base.markers && candidate.markers) {
+    metrics.push(...compareGroup(
+      "marker", "ms",
+      getMarkerTotalValues(base.markers), base.markers.length,
+      getMarkerTotalValues(candidate.markers), candidate.markers.length,
+      confidence, thresholdPercent, markerLimit
+    ));
+  }
+
+  if (base.functions && candidate.functions) {
+    metrics.push(...compareGroup(
+      "function", "%",
+      getFunctionShareValues(base.functions), base.functions.length,
+      getFunctionShareValues(candidate.functions), candidate.functions.length,
+      confidence, thresholdPercent, functionLimit
+    ));
+  }
+
+  return { baseProfiles, candidateProfiles, confidence, thresholdPercent, metrics };
+}
@@ -0,0 +1,80 @@
+import { MarkerInstance, MarkerSummary, NetworkResourceSummary } from "./types.js";
+
+// CSV output for --format csv, for spreadsheets. Fields are quoted as in
+// RFC 4180 and missing values are empty.
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Columns for the payload fields, in the order they first appear.
+function getFieldNames(records: Array<{ [field: string]: unknown }>): string[] {
+  const names = new Set<string>();
+  for (const record of records) {
+    for (const name of Object.keys(record)) {
+      names.add(name);
+    }
+  }
+  return [...names];
+}
+
+export function markerInstancesToCsv(instances: MarkerInstance[]): string {
+  const fields = getFieldNames(instances.map((instance) => instance.data));
+  const header = ["name", "type", "start", "end", "duration", "thread", "tid", "category", ...fields.map((field) => `data.${field}`)];
+  const rows = instances.map((instance) => [
+    instance.name,
+    instance.type,
+    instance.start,
+    instance.end,
+    instance.duration,
+    instance.thread,
+    instance.tid,
+    instance.category,
+    ...fields.map((field) => instance.data[field]),
+  ]);
+  return toCsv(header, rows);
+}
+
+export function markerSummariesToCsv(summaries: MarkerSummary[]): string {
+  const header = ["name", "count", "totalDuration", "avgDuration", "minDuration", "maxDuration"];
+  const rows = summaries.map((marker) => [
+    marker.name,
+    marker.count,
+    marker.totalDuration,
+    marker.avgDuration,
+    marker.minDuration,
+    marker.maxDuration,
+  ]);
+  return toCsv(header, rows);
+}
+
+// One row per resource, with a column per timing phase in ms.
+export function networkResourcesToCsv(networkSummary: NetworkResourceSummary): string {
+  const phases = getFieldNames(networkSummary.resources.map((res) => Object.fromEntries(res.phases.map((phase) => [phase.label, phase.duration]))));
+  const header = ["url", "startTime", "duration", "status", "cache", "contentType", "size", "httpVersion", ...phases];
+  const rows = networkSummary.resources.map((res) => {
+    const durations = new Map(res.phases.map((phase) => [phase.label, phase.duration]));
+    return [
+      res.url,
+      res.startTime,
+      res.duration,
+      res.status,
+      res.cache,
+      res.contentType,
+      res.size,
+      res.httpVersion,
+      ...phases.map((phase) => durations.get(phase)),
+    ];
+  });
+  return toCsv(header, rows);
+}
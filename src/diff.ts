@@ -0,0 +1,141 @@
+import { CallTreeNode, FlameNode, MarkerSummary, FunctionDiff, FunctionDiffReport, MarkerDiff } from "./types.js";
+
+function percentChange(base: number, candidate: number): number | null {
+  return base === 0 ? null : ((candidate - base) / base) * 100;
+}
+
+/**
+ * The self and total time of every function of a (not inverted) flamegraph,
+ * including functions without self time such as `main`. A recursive function's
+ * total time counts each sample once.
+ */
+export function getFunctionTimes(flamegraph: FlameNode[]): CallTreeNode[] {
+  const times = new Map<string, CallTreeNode>();
+  const onStack = new Map<string, number>();
+
+  function visit(node: FlameNode): void {
+    let functionTimes = times.get(node.name);
+    if (!functionTimes) {
+      functionTimes = { name: node.name, selfTime: 0, totalTime: 0, stack: [node.name] };
+      times.set(node.name, functionTimes);
+    }
+    functionTimes.selfTime += node.selfTime;
+    const depth = onStack.get(node.name) ?? 0;
+    if (depth === 0) {
+      functionTimes.totalTime += node.totalTime;
+    }
+    onStack.set(node.name, depth + 1);
+    node.children.forEach(visit);
+    onStack.set(node.name, depth);
+  }
+
+  flamegraph.forEach(visit);
+  return [...times.values()];
+}
+
+/**
+ * Compares the call tree functions of two profiles. Both lists must contain
+ * every function on a sampled stack (not just the top N, see getFunctionTimes):
+ * the totals used for normalization are the sums of self time, and a function
+ * is only new or vanished when it has no samples at all in the other profile.
+ * `limit` applies to each list.
+ */
+export function diffCallTrees(
+  base: CallTreeNode[],
+  candidate: CallTreeNode[],
+  limit: number
+): FunctionDiffReport {
+  const baseTotalSamples = base.reduce((sum, node) => sum + node.selfTime, 0);
+  const candidateTotalSamples = candidate.reduce((sum, node) => sum + node.selfTime, 0);
+
+  const baseByName = new Map(base.map((node) => [node.name, node]));
+  const candidateByName = new Map(candidate.map((node) => [node.name, node]));
+  const names = new Set([...baseByName.keys(), ...candidateByName.keys()]);
+
+  const changed: FunctionDiff[] = [];
+  const added: FunctionDiff[] = [];
+  const removed: FunctionDiff[] = [];
+
+  for (const name of names) {
+    const baseNode = baseByName.get(name);
+    const candidateNode = candidateByName.get(name);
+    const baseSelfTime = baseNode ? baseNode.selfTime : 0;
+    const candidateSelfTime = candidateNode ? candidateNode.selfTime : 0;
+    const baseTotalTime = baseNode ? baseNode.totalTime : 0;
+    const candidateTotalTime = candidateNode ? candidateNode.totalTime : 0;
+    const baseSelfShare = baseTotalSamples > 0 ? baseSelfTime / baseTotalSamples : 0;
+    const candidateSelfShare = candidateTotalSamples > 0 ? candidateSelfTime / candidateTotalSamples : 0;
+
+    const diff: FunctionDiff = {
+      name,
+      baseSelfTime,
+      candidateSelfTime,
+      selfDelta: candidateSelfTime - baseSelfTime,
+      selfDeltaPercent: percentChange(baseSelfTime, candidateSelfTime),
+      baseTotalTime,
+      candidateTotalTime,
+      totalDelta: candidateTotalTime - baseTotalTime,
+      totalDeltaPercent: percentChange(baseTotalTime, candidateTotalTime),
+      baseSelfShare,
+      candidateSelfShare,
+      selfShareDelta: candidateSelfShare - baseSelfShare,
+    };
+
+    if (baseTotalTime === 0) {
+      added.push(diff);
+    } else if (candidateTotalTime === 0) {
+      removed.push(diff);
+    } else {
+      changed.push(diff);
+    }
+  }
+
+  changed.sort((a, b) => Math.abs(b.selfShareDelta) - Math.abs(a.selfShareDelta) || Math.abs(b.selfDelta) - Math.abs(a.selfDelta));
+  added.sort((a, b) => b.candidateTotalTime - a.candidateTotalTime || b.candidateSelfTime - a.candidateSelfTime);
+  removed.sort((a, b) => b.baseTotalTime - a.baseTotalTime || b.baseSelfTime - a.baseSelfTime);
+
+  return {
+    baseTotalSamples,
+    candidateTotalSamples,
+    changed: changed.slice(0, limit),
+    added: added.slice(0, limit),
+    removed: removed.slice(0, limit),
+  };
+}
+
+export function diffMarkerSummaries(
+  base: MarkerSummary[],
+  candidate: MarkerSummary[],
+  limit: number
+): MarkerDiff[] {
+  const baseByName = new Map(base.map((summary) => [summary.name, summary]));
+  const candidateByName = new Map(candidate.map((summary) => [summary.name, summary]));
+  const names = new Set([...baseByName.keys(), ...candidateByName.keys()]);
+
+  const diffs: MarkerDiff[] = [];
+  for (const name of names) {
+    const baseSummary = baseByName.get(name);
+    const candidateSummary = candidateByName.get(name);
+    const baseTotalDuration = baseSummary ? baseSummary.totalDuration : 0;
+    const candidateTotalDuration = candidateSummary ? candidateSummary.totalDuration : 0;
+    const baseAvgDuration = baseSummary ? baseSummary.avgDuration : 0;
+    const candidateAvgDuration = candidateSummary ? candidateSummary.avgDuration : 0;
+
+    diffs.push({
+      name,
+      status: !baseSummary ? "added" : !candidateSummary ? "removed" : "changed",
+      baseCount: baseSummary ? baseSummary.count : 0,
+      candidateCount: candidateSummary ? candidateSummary.count : 0,
+      baseTotalDuration,
+      candidateTotalDuration,
+      totalDurationDelta: candidateTotalDuration - baseTotalDuration,
+      totalDurationDeltaPercent: percentChange(baseTotalDuration, candidateTotalDuration),
+      baseAvgDuration,
+      candidateAvgDuration,
+      avgDurationDelta: candidateAvgDuration - baseAvgDuration,
+    });
+  }
+
+  diffs.sort((a, b) => Math.abs(b.totalDurationDelta) - Math.abs(a.totalDurationDelta));
+  return diffs.slice(0, limit);
+}
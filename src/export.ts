@@ -0,0 +1,137 @@
+import { FlameNode, ThreadFlamegraph, ThreadInfo } from "./types.js";
+
+export const EXPORT_FORMATS = ["folded", "speedscope", "pprof"];
+
+// ";" separates frames and a newline ends the stack, so neither may appear in
+// a frame name.
+function toFoldedFrame(name: string): string {
+  return name.replace(/;/g, ":").replace(/[\r\n]+/g, " ");
+}
+
+/**
+ * Brendan Gregg's folded stack format, as read by flamegraph.pl and inferno:
+ * one "root;caller;callee count" line per distinct stack, with the samples that
+ * stack has as self time. `prefix` frames are put before every stack.
+ */
+export function toFoldedStacks(roots: FlameNode[], prefix: string[] = []): string[] {
+  const lines: string[] = [];
+
+  function visit(node: FlameNode, path: string[]): void {
+    const stack = [...path, toFoldedFrame(node.name)];
+    if (node.selfTime > 0) {
+      lines.push(`${stack.join(";")} ${node.selfTime}`);
+    }
+    for (const child of node.children) {
+      visit(child, stack);
+    }
+  }
+
+  for (const root of roots) {
+    visit(root, prefix.map(toFoldedFrame));
+  }
+  return lines;
+}
+
+// Frames for the process and the thread, e.g. "Web Content (pid 1234)" and
+// "GeckoMain (tid 1234)".
+export function getThreadPrefixFrames(thread: ThreadInfo): string[] {
+  return [`${thread.processName ?? thread.processType} (pid ${thread.pid})`, `${thread.name} (tid ${thread.tid})`];
+}
+
+// The parts of speedscope's file format that are written here, see
+// https://www.speedscope.app/file-format-schema.json
+interface SpeedscopeFrame {
+  name: string;
+  file?: string;
+  line?: number;
+}
+
+interface SpeedscopeSampledProfile {
+  type: "sampled";
+  name: string;
+  unit: "none";
+  startValue: number;
+  endValue: number;
+  samples: number[][];
+  weights: number[];
+}
+
+export interface SpeedscopeFile {
+  $schema: "https://www.speedscope.app/file-format-schema.json";
+  name: string;
+  exporter: string;
+  activeProfileIndex: number;
+  shared: { frames: SpeedscopeFrame[] };
+  profiles: SpeedscopeSampledProfile[];
+}
+
+/**
+ * Converts each thread's flamegraph to a sampled speedscope profile, with the
+ * frames shared between threads. Every distinct stack becomes one sample
+ * weighted by its self samples, so speedscope's time order view shows stacks
+ * in tree order rather than in the order they were sampled.
+ */
+export function toSpeedscope(threadFlamegraphs: ThreadFlamegraph[], name: string): SpeedscopeFile {
+  const frames: SpeedscopeFrame[] = [];
+  const frameIndexByKey = new Map<string, number>();
+
+  const getFrameIndex = (frameName: string, threadFlamegraph: ThreadFlamegraph): number => {
+    const location = threadFlamegraph.functions[frameName];
+    const frame: SpeedscopeFrame = { name: frameName };
+    if (location && location.fileName !== null) {
+      frame.file = location.fileName;
+      if (location.lineNumber !== null) {
+        frame.line = location.lineNumber;
+      }
+    }
+
+    const key = JSON.stringify(frame);
+    let index = frameIndexByKey.get(key);
+    if (index === undefined) {
+      index = frames.length;
+      frames.push(frame);
+      frameIndexByKey.set(key, index);
+    }
+    return index;
+  };
+
+  const profiles = threadFlamegraphs.map((threadFlamegraph): SpeedscopeSampledProfile => {
+    const samples: number[][] = [];
+    const weights: number[] = [];
+
+    function visit(node: FlameNode, stack: number[]): void {
+      const nodeStack = [...stack, getFrameIndex(node.name, threadFlamegraph)];
+      if (node.selfTime > 0) {
+        samples.push(nodeStack);
+        weights.push(node.selfTime);
+      }
+      for (const child of node.children) {
+        visit(child, nodeStack);
+      }
+    }
+
+    for (const root of threadFlamegraph.roots) {
+      visit(root, []);
+    }
+
+    const { thread } = threadFlamegraph;
+    return {
+      type: "sampled",
+      name: `${thread.name} (${thread.processName ?? thread.processType}, pid ${thread.pid}, tid ${thread.tid})`,
+      unit: "none",
+      startValue: 0,
+      endValue: weights.reduce((sum, weight) => sum + weight, 0),
+      samples,
+      weights,
+    };
+  });
+
+  return {
+    $schema: "https://www.speedscope.app/file-format-schema.json",
+    name,
+    exporter: "profiler-cli",
+    activeProfileIndex: 0,
+    shared: { frames },
+    profiles,
+  };
+}
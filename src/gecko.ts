@@ -0,0 +1,350 @@
+import { Category, FrameTable, FuncTable, Lib, Profile, RawMarkerTable, RawSamplesTable, RawStackTable, RawThread, ResourceTable } from "./profile-format.js";
+
+// Converts the Gecko profile format, as saved from about:profiling or written by
+// MOZ_PROFILER_SHUTDOWN, into the subset of the processed format that the
+// offline engine reads. This follows the profiler's own processing
+// (process-profile.js) without its symbolication: native frames keep their
+// addresses as names.
+
+// The profiler's resourceTypes.
+const RESOURCE_TYPE_LIBRARY = 1;
+const RESOURCE_TYPE_WEBHOST = 3;
+const RESOURCE_TYPE_URL = 5;
+
+// The Gecko format has no processed format version; the offline engine only
+// checks that the field is there.
+const NOT_A_PROCESSED_VERSION = 0;
+
+const DEFAULT_CATEGORIES: Category[] = [{ name: "Other", color: "grey", subcategories: ["Other"] }];
+
+// A table in the Gecko format: a schema of column indexes and one array per row.
+// Trailing null columns may be left out of a row.
+interface GeckoTable {
+  schema: { [column: string]: number };
+  data: any[][];
+}
+
+interface GeckoLib extends Lib {
+  start: number;
+  end: number;
+}
+
+interface GeckoThread {
+  name: string;
+  processType: string;
+  processName?: string;
+  registerTime: number;
+  unregisterTime: number | null;
+  pid: string | number;
+  tid: string | number;
+  samples: GeckoTable & { weightType?: RawSamplesTable["weightType"] };
+  markers: GeckoTable;
+  stackTable: GeckoTable;
+  frameTable: GeckoTable;
+  stringTable?: string[];
+  stringArray?: string[];
+}
+
+export interface GeckoProfile {
+  meta: {
+    version: number;
+    startTime: number;
+    shutdownTime?: number | null;
+    interval: number;
+    product?: string;
+    categories?: Category[];
+    markerSchema?: any[];
+    sampleUnits?: Profile["meta"]["sampleUnits"];
+    profilingStartTime?: number;
+    profilingEndTime?: number;
+  };
+  libs: GeckoLib[];
+  // Older Firefox versions serialized each thread as a JSON string.
+  threads: Array<GeckoThread | string>;
+  processes?: Array<GeckoProfile | string>;
+}
+
+function getColumn<T>(table: GeckoTable, column: string, fallback: T): T[] {
+  const index = table.schema[column];
+  if (index === undefined) {
+    return table.data.map(() => fallback);
+  }
+  return table.data.map((row) => (row[index] === undefined ? fallback : row[index]));
+}
+
+// The strings of a processed thread: the Gecko string table, followed by the
+// function, file and resource names found while processing.
+class StringTable {
+  private indexes = new Map<string, number>();
+
+  constructor(readonly strings: string[]) {
+    strings.forEach((string, i) => {
+      if (!this.indexes.has(string)) {
+        this.indexes.set(string, i);
+      }
+    });
+  }
+
+  indexFor(string: string): number {
+    let index = this.indexes.get(string);
+    if (index === undefined) {
+      index = this.strings.length;
+      this.strings.push(string);
+      this.indexes.set(string, index);
+    }
+    return index;
+  }
+}
+
+// Frame locations look like "0x7ff6a3b2c1d0" for native code,
+// "functionName (https://example.com/script.js:12:34)" for JavaScript, and are
+// plain names for label frames.
+const NATIVE_LOCATION = /^0x[0-9a-f]+$/i;
+const JS_LOCATION = /^(.*) \((.+?):(\d+)(?::(\d+))?\)$/;
+
+interface ProcessedFrames {
+  frameTable: FrameTable;
+  funcTable: FuncTable;
+  resourceTable: ResourceTable;
+}
+
+function processFrames(geckoFrames: GeckoTable, strings: StringTable, libs: GeckoLib[], profileLibs: Lib[]): ProcessedFrames {
+  const frameTable: FrameTable = { address: [], inlineDepth: [], category: [], subcategory: [], func: [], line: [], column: [], length: 0 };
+  const funcTable: FuncTable = { name: [], isJS: [], relevantForJS: [], resource: [], fileName: [], lineNumber: [], columnNumber: [], length: 0 };
+  const resourceTable: ResourceTable = { lib: [], name: [], host: [], type: [], length: 0 };
+
+  const funcByKey = new Map<string, number>();
+  const resourceByKey = new Map<string, number>();
+
+  function getResource(key: string, name: string, host: string | null, type: number, lib: number | null): number {
+    let resource = resourceByKey.get(key);
+    if (resource === undefined) {
+      resource = resourceTable.length++;
+      resourceTable.lib.push(lib);
+      resourceTable.name.push(strings.indexFor(name));
+      resourceTable.host.push(host !== null ? strings.indexFor(host) : null);
+      resourceTable.type.push(type);
+      resourceByKey.set(key, resource);
+    }
+    return resource;
+  }
+
+  function getFunc(key: string, name: string, isJS: boolean, relevantForJS: boolean, resource: number, fileName: string | null, line: number | null, column: number | null): number {
+    let func = funcByKey.get(key);
+    if (func === undefined) {
+      func = funcTable.length++;
+      funcTable.name.push(strings.indexFor(name));
+      funcTable.isJS.push(isJS);
+      funcTable.relevantForJS.push(relevantForJS);
+      funcTable.resource.push(resource);
+      funcTable.fileName!.push(fileName !== null ? strings.indexFor(fileName) : null);
+      funcTable.lineNumber.push(line);
+      funcTable.columnNumber.push(column);
+      funcByKey.set(key, func);
+    }
+    return func;
+  }
+
+  const locations: number[] = getColumn(geckoFrames, "location", 0);
+  const relevantForJS: boolean[] = getColumn(geckoFrames, "relevantForJS", false);
+  const lines: Array<number | null> = getColumn(geckoFrames, "line", null);
+  const columns: Array<number | null> = getColumn(geckoFrames, "column", null);
+  const categories: Array<number | null> = getColumn(geckoFrames, "category", null);
+  const subcategories: Array<number | null> = getColumn(geckoFrames, "subcategory", null);
+
+  for (let i = 0; i < locations.length; i++) {
+    const location = strings.strings[locations[i]];
+    let address = -1;
+    let func: number;
+    let jsMatch: RegExpMatchArray | null;
+
+    if (NATIVE_LOCATION.test(location)) {
+      // Addresses are made relative to their library, as symbolication expects.
+      const absolute = parseInt(location, 16);
+      const lib = libs.find((candidate) => candidate.start <= absolute && absolute < candidate.end);
+      let resource = -1;
+      if (lib) {
+        address = absolute - lib.start;
+        const libIndex = getLibIndex(profileLibs, lib);
+        resource = getResource(`lib:${libIndex}`, lib.name, null, RESOURCE_TYPE_LIBRARY, libIndex);
+      } else {
+        address = absolute;
+      }
+      func = getFunc(`native:${location}`, location, false, false, resource, null, null, null);
+    } else if ((jsMatch = location.match(JS_LOCATION))) {
+      const [, name, fileName, line, column] = jsMatch;
+      let resource = -1;
+      try {
+        const url = new URL(fileName);
+        resource = url.protocol === "http:" || url.protocol === "https:"
+          ? getResource(`host:${url.origin}`, url.host, url.origin, RESOURCE_TYPE_WEBHOST, null)
+          : getResource(`url:${fileName}`, fileName, null, RESOURCE_TYPE_URL, null);
+      } catch {
+        // Not a URL, e.g. self-hosted code.
+      }
+      func = getFunc(
+        `js:${name}:${fileName}:${line}:${column}`,
+        name || "<anonymous>",
+        true,
+        relevantForJS[i],
+        resource,
+        fileName,
+        Number(line),
+        column !== undefined ? Number(column) : null
+      );
+    } else {
+      func = getFunc(`label:${location}`, location, false, relevantForJS[i], -1, null, null, null);
+    }
+
+    frameTable.address.push(address);
+    frameTable.inlineDepth!.push(0);
+    frameTable.category.push(categories[i]);
+    frameTable.subcategory.push(subcategories[i]);
+    frameTable.func.push(func);
+    frameTable.line.push(lines[i]);
+    frameTable.column.push(columns[i]);
+    frameTable.length++;
+  }
+
+  return { frameTable, funcTable, resourceTable };
+}
+
+// Libraries are per process in the Gecko format and shared by every process in
+// the processed format.
+function getLibIndex(profileLibs: Lib[], lib: GeckoLib): number {
+  const index = profileLibs.findIndex((candidate) => candidate.debugName === lib.debugName && candidate.breakpadId === lib.breakpadId);
+  if (index !== -1) {
+    return index;
+  }
+  const { start, end, ...processedLib } = lib;
+  profileLibs.push(processedLib);
+  return profileLibs.length - 1;
+}
+
+// The timestamps of a payload that are in the same time base as the marker.
+function adjustMarkerData(data: any, delta: number): any {
+  if (!data || delta === 0) {
+    return data;
+  }
+  const adjusted = { ...data };
+  for (const [field, value] of Object.entries(data)) {
+    const isTime = field === "startTime" || field === "endTime" || (data.type === "Network" && /(Start|End)$/.test(field));
+    if (isTime && typeof value === "number") {
+      adjusted[field] = value + delta;
+    }
+  }
+  return adjusted;
+}
+
+function processMarkers(geckoMarkers: GeckoTable, delta: number): RawMarkerTable {
+  const names: number[] = getColumn(geckoMarkers, "name", 0);
+  const data: any[] = getColumn(geckoMarkers, "data", null);
+  const categories: number[] = getColumn(geckoMarkers, "category", 0);
+  // Before markers had phases, they had a single time and intervals were
+  // described by the payload's startTime and endTime.
+  const hasPhases = geckoMarkers.schema.phase !== undefined;
+  const startTimes: Array<number | null> = getColumn(geckoMarkers, hasPhases ? "startTime" : "time", null);
+  const endTimes: Array<number | null> = hasPhases
+    ? getColumn(geckoMarkers, "endTime", null)
+    : data.map((payload) => (payload && typeof payload.endTime === "number" ? payload.endTime : null));
+  const phases: number[] = hasPhases ? getColumn(geckoMarkers, "phase", 0) : endTimes.map((end) => (end !== null ? 1 : 0));
+
+  return {
+    name: names,
+    data: data.map((payload) => adjustMarkerData(payload, delta)),
+    startTime: startTimes.map((time, i) => {
+      const start = !hasPhases && data[i] && typeof data[i].startTime === "number" ? data[i].startTime : time;
+      return start !== null ? start + delta : null;
+    }),
+    endTime: endTimes.map((time) => (time !== null ? time + delta : null)),
+    phase: phases,
+    category: categories,
+    length: names.length,
+  };
+}
+
+function processSamples(geckoSamples: GeckoThread["samples"], delta: number): RawSamplesTable {
+  const samples: RawSamplesTable = {
+    stack: getColumn(geckoSamples, "stack", null),
+    time: getColumn<number>(geckoSamples, "time", 0).map((time) => time + delta),
+    weightType: geckoSamples.weightType ?? "samples",
+    length: geckoSamples.data.length,
+  };
+  if (geckoSamples.schema.weight !== undefined) {
+    samples.weight = getColumn(geckoSamples, "weight", 1);
+  }
+  if (geckoSamples.schema.threadCPUDelta !== undefined) {
+    samples.threadCPUDelta = getColumn(geckoSamples, "threadCPUDelta", null);
+  }
+  return samples;
+}
+
+function processThread(geckoThread: GeckoThread, meta: GeckoProfile["meta"], libs: GeckoLib[], profileLibs: Lib[], delta: number): RawThread {
+  const strings = new StringTable([...(geckoThread.stringTable ?? geckoThread.stringArray ?? [])]);
+  const { frameTable, funcTable, resourceTable } = processFrames(geckoThread.frameTable, strings, libs, profileLibs);
+  const stackTable: RawStackTable = {
+    frame: getColumn(geckoThread.stackTable, "frame", 0),
+    prefix: getColumn(geckoThread.stackTable, "prefix", null),
+    length: geckoThread.stackTable.data.length,
+  };
+
+  return {
+    processType: geckoThread.processType,
+    processStartupTime: delta,
+    processShutdownTime: meta.shutdownTime != null ? meta.shutdownTime + delta : null,
+    registerTime: geckoThread.registerTime + delta,
+    unregisterTime: geckoThread.unregisterTime !== null ? geckoThread.unregisterTime + delta : null,
+    name: geckoThread.name,
+    isMainThread: geckoThread.name === "GeckoMain",
+    processName: geckoThread.processName,
+    pid: String(geckoThread.pid),
+    tid: geckoThread.tid,
+    samples: processSamples(geckoThread.samples, delta),
+    markers: processMarkers(geckoThread.markers, delta),
+    stackTable,
+    frameTable,
+    funcTable,
+    resourceTable,
+    stringArray: strings.strings,
+  };
+}
+
+// Every timestamp is relative to its process's start, and is moved to the
+// parent process's start.
+function processThreads(geckoProfile: GeckoProfile, rootStartTime: number, profileLibs: Lib[]): RawThread[] {
+  const delta = geckoProfile.meta.startTime - rootStartTime;
+  const threads = geckoProfile.threads.map((thread) => processThread(
+    typeof thread === "string" ? JSON.parse(thread) : thread,
+    geckoProfile.meta,
+    geckoProfile.libs,
+    profileLibs,
+    delta
+  ));
+  for (const subprocess of geckoProfile.processes ?? []) {
+    threads.push(...processThreads(typeof subprocess === "string" ? JSON.parse(subprocess) : subprocess, rootStartTime, profileLibs));
+  }
+  return threads;
+}
+
+export function processGeckoProfile(geckoProfile: GeckoProfile): Profile {
+  const { meta } = geckoProfile;
+  const libs: Lib[] = [];
+  const threads = processThreads(geckoProfile, meta.startTime, libs);
+
+  return {
+    meta: {
+      interval: meta.interval,
+      startTime: meta.startTime,
+      profilingStartTime: meta.profilingStartTime,
+      profilingEndTime: meta.profilingEndTime,
+      categories: meta.categories ?? DEFAULT_CATEGORIES,
+      product: meta.product ?? "Firefox",
+      version: meta.version,
+      preprocessedProfileVersion: NOT_A_PROCESSED_VERSION,
+      markerSchema: meta.markerSchema ?? [],
+      sampleUnits: meta.sampleUnits,
+    },
+    libs,
+    threads,
+  };
+}
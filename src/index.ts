@@ -1,11 +1,35 @@
 #!/usr/bin/env node
-import { hideBin } from "yargs/helpers";
+import { Parser, hideBin } from "yargs/helpers";
 import yargs from "yargs/yargs";
-import { chromium, firefox } from "playwright";
-import { getCallTreeData, getMarkerSummary, getFlamegraphData, getPageLoadSummary, getNetworkResources, annotateFunction } from "./profiler.js";
-import { FlameNode } from "./types.js";
-import { existsSync } from 'fs';
-import { spawn } from 'child_process';
+import { Browser, chromium, firefox } from "playwright";
+import { LoadedProfile, loadProfile, DEFAULT_PROFILER_TIMEOUT, setProfilerTimeout } from "./profiler.js";
+import { loadProfileFile, computeCallTreeData, computeMarkerSummary, computeMarkerInstances, computeMarkerList, computeFlamegraphData, computeThreadFlamegraphs, computePageLoadSummary, computeNetworkResources, computeUrlState, getUrlNameTables } from "./offline.js";
+import { JsonOutputDocument, CallTreeNode, MarkerSummary, ProfileDiff } from "./types.js";
+import { Profile } from "./profile-format.js";
+import { diffCallTrees, diffMarkerSummaries, getFunctionTimes } from "./diff.js";
+import { ThreadSelection, getThreadInfoList } from "./threads.js";
+import { RangeSelection, formatRangeSelection, parseTimeRange } from "./range.js";
+import { Transform, formatTransform, parseTransformArgs } from "./transforms.js";
+import { ProfileLoader, ReplBackend, ReplView, createOfflineBackend, createBrowserBackend, runRepl } from "./repl.js";
+import { runMcpServer } from "./mcp.js";
+import { runHttpServer } from "./serve.js";
+import { EXPORT_FORMATS, toFoldedStacks, toSpeedscope, getThreadPrefixFrames } from "./export.js";
+import { toPprof } from "./pprof.js";
+import { renderHtmlReport } from "./report.js";
+import { aggregatePageLoads, aggregateMarkers, aggregateFunctions } from "./batch.js";
+import { ProfileSetRuns, compareProfileSets } from "./compare.js";
+import { BudgetRule, loadBudget, evaluateBudget, toJUnitXml } from "./budget.js";
+import { printCallTree, printFlamegraph, printMarkerSummaries, printMarkerListing, printThreadList, printPageLoadSummary, printNetworkResources, printCallTreeDiff, printMarkerDiffs, printBudgetResults, printBatchSummary, printProfileSetComparison } from "./text-output.js";
+import { renderCallTreeMarkdown, renderFlamegraphMarkdown, renderMarkerSummariesMarkdown, renderMarkerListingMarkdown, renderThreadListMarkdown, renderPageLoadMarkdown, renderNetworkMarkdown, renderCallTreeDiffMarkdown, renderMarkerDiffsMarkdown } from "./markdown-output.js";
+import { markerInstancesToCsv, markerSummariesToCsv, networkResourcesToCsv } from "./csv-output.js";
+import { UrlState, UrlNameTables, parseProfilerUrl, buildProfilerUrl, mergeUrlState, describeUrlState, resolveUrlTransform } from "./url-state.js";
+import { existsSync, writeFileSync } from 'fs';
+import { LocalProfileServer, checkFrontendDir, serveProfile } from "./profile-server.js";
+import { MarkerCondition, parseMarkerCondition } from "./marker-schema.js";
+
+// Bump when the shape of JsonOutputDocument changes incompatibly, and regenerate
+// schema/output.schema.json with `npm run schema`.
+const JSON_OUTPUT_VERSION = 2;
 
 const yargsInstance = yargs(hideBin(process.argv));
 const argv = (await yargsInstance
@@ -13,7 +37,7 @@ const argv = (await yargsInstance
     "greedy-arrays": false,
     "short-option-groups": false,
   })
-  .usage("Extract information from Firefox Profiler profiles.\n\nUsage: $0 <profile-url>\n       $0 --ai (for AI documentation)")
+  .usage("Extract information from Firefox Profiler profiles.\n\nUsage: $0 <profile-url>\n       $0 diff <base-url> <candidate-url>\n       $0 repl <profile-url>\n       $0 check <profile-url> --budget budget.json\n       $0 batch <profile-url>... --page-load|--top-markers [N]|--calltree <N>\n       $0 compare --base <profile-url>... --new <profile-url>...\n       $0 mcp [profile-url]\n       $0 serve [--port 8080]\n       $0 --ai (for AI documentation)")
   .option("calltree", {
     describe: "Get top N functions by self time",
     type: "number",
@@ -30,6 +54,28 @@ const argv = (await yargsInstance
     describe: "Show top 5 markers by total duration and by max duration (default), or top N markers by frequency if N is specified",
     type: "number",
   })
+  .option("markers", {
+    describe: "List each marker with this name, with its times, thread, category and payload fields",
+    type: "string",
+  })
+  .option("sort", {
+    describe: "With --markers, list the markers by start time or longest first",
+    choices: ["start", "duration"],
+    default: "start",
+  })
+  .option("limit", {
+    describe: "With --markers, list at most this many markers",
+    type: "number",
+  })
+  .option("group-by", {
+    describe: "With --top-markers, summarize markers by name and the value of this payload field, named by its key or its label in the marker schema (e.g. eventType)",
+    type: "string",
+  })
+  .option("where", {
+    describe: "With --top-markers or --markers, only keep markers whose payload field has this value, e.g. --where eventType=click (repeat for several conditions)",
+    type: "string",
+    array: true,
+  })
   .option("detailed", {
     describe: "Show detailed call paths for each function",
     type: "boolean",
@@ -58,6 +104,176 @@ const argv = (await yargsInstance
     describe: "Show AI-focused documentation",
     type: "boolean",
   })
+  .option("range", {
+    describe: "Only analyze this time range relative to the profile start, e.g. 1200ms-3400ms",
+    type: "string",
+  })
+  .option("range-from-marker", {
+    describe: "Start the analyzed range at a marker (the whole marker if --range-to-marker is not given)",
+    type: "string",
+  })
+  .option("range-to-marker", {
+    describe: "End the analyzed range at the first instance of this marker after the range start",
+    type: "string",
+  })
+  .option("range-marker-index", {
+    describe: "Use the Nth instance (1 = first) of --range-from-marker",
+    type: "number",
+  })
+  .option("merge", {
+    describe: "Merge this function into its callers (repeatable; transforms apply in command line order)",
+    type: "string",
+    array: true,
+  })
+  .option("merge-call-node", {
+    describe: "Merge only the call node at this path from the root, e.g. \"A>B>C\" (repeatable)",
+    type: "string",
+    array: true,
+  })
+  .option("drop", {
+    describe: "Drop samples that have this function on the stack (repeatable)",
+    type: "string",
+    array: true,
+  })
+  .option("focus-subtree", {
+    describe: "Focus on the call node at this path from the root, e.g. \"A>B>C\" (repeatable)",
+    type: "string",
+    array: true,
+  })
+  .option("focus-category", {
+    describe: "Only keep frames of this category, e.g. JavaScript (repeatable)",
+    type: "string",
+    array: true,
+  })
+  .option("collapse-lib", {
+    describe: "Collapse the functions of this library or resource into one node (repeatable)",
+    type: "string",
+    array: true,
+  })
+  .option("collapse-recursion", {
+    describe: "Collapse recursive calls of this function, including through other functions (repeatable)",
+    type: "string",
+    array: true,
+  })
+  .option("collapse-direct-recursion", {
+    describe: "Collapse only direct recursive calls of this function (repeatable)",
+    type: "string",
+    array: true,
+  })
+  .option("collapse-subtree", {
+    describe: "Collapse everything this function calls into the function itself (repeatable)",
+    type: "string",
+    array: true,
+  })
+  .option("from-url", {
+    describe: "Apply the threads, committed range, transforms and invert flag of this profiler.firefox.com URL",
+    type: "string",
+  })
+  .option("print-url", {
+    describe: "Print a profiler.firefox.com URL that reproduces the analyzed view",
+    type: "boolean",
+    default: false,
+  })
+  .option("thread", {
+    describe: "Analyze these threads: comma-separated thread names, indexes or TIDs (several threads are merged)",
+    type: "string",
+  })
+  .option("process", {
+    describe: "Analyze threads of the process with this PID, name or type (its main thread unless --thread is given)",
+    type: "string",
+  })
+  .option("list-threads", {
+    describe: "List every thread with its process, PID, TID, sample count and CPU time",
+    type: "boolean",
+    default: false,
+  })
+  .option("format", {
+    describe: "Output format: human-readable text, a single JSON document (see schema/output.schema.json), Markdown for pull requests and issues, or CSV (--top-markers and --network only)",
+    type: "string",
+    choices: ["text", "json", "markdown", "csv"],
+    default: "text",
+  })
+  .option("aggregate", {
+    describe: "With --top-markers --format csv, write one row per marker name with its count and durations instead of one row per marker",
+    type: "boolean",
+    default: false,
+  })
+  .option("offline", {
+    describe: "Analyze a local profile file (processed or Gecko format) directly, without launching a browser",
+    type: "boolean",
+    default: false,
+  })
+  .option("frontend-dir", {
+    describe: "Load profiles into a built Firefox Profiler front-end served from this directory instead of profiler.firefox.com",
+    type: "string",
+  })
+  .option("timeout", {
+    describe: "How long to wait for the profiler in ms before giving up, from opening the profile and from the start of each query",
+    type: "number",
+    default: DEFAULT_PROFILER_TIMEOUT,
+  })
+  .option("export", {
+    describe: "Export the call tree to a file: --export folded out.txt (flamegraph.pl, inferno), speedscope out.json, or pprof out.pb.gz (with --offline); use - for stdout",
+    type: "string",
+    nargs: 2,
+  })
+  .option("report", {
+    describe: "Write a self-contained HTML report with page load, markers, network, top functions and a flamegraph",
+    type: "string",
+  })
+  .option("budget", {
+    describe: "With check, a JSON file of rules: {\"rules\": [\"LCP < 2500ms\", ...]}",
+    type: "string",
+  })
+  .option("junit", {
+    describe: "With check, also write the results as JUnit XML to this file",
+    type: "string",
+  })
+  .option("base", {
+    describe: "With compare, the profiles of the base runs",
+    type: "string",
+    array: true,
+  })
+  .option("new", {
+    describe: "With compare, the profiles of the new runs",
+    type: "string",
+    array: true,
+  })
+  .option("threshold", {
+    describe: "With compare, the smallest change of the median in percent that is reported as a regression or an improvement",
+    type: "number",
+    default: 5,
+  })
+  .option("confidence", {
+    describe: "With compare, the confidence level of the significance test and the intervals",
+    type: "number",
+    default: 0.95,
+  })
+  .option("thread-prefix", {
+    describe: "With --export folded, start every stack with frames for its process and thread",
+    type: "boolean",
+    default: false,
+  })
+  .option("port", {
+    describe: "Port for serve to listen on",
+    type: "number",
+    default: 8080,
+  })
+  .option("host", {
+    describe: "Address for serve to listen on",
+    type: "string",
+    default: "127.0.0.1",
+  })
+  .option("max-profiles", {
+    describe: "Loaded profiles that serve keeps; the least recently used one is closed beyond this",
+    type: "number",
+    default: 5,
+  })
+  .option("max-pages", {
+    describe: "Browser pages that serve uses at the same time for loading and querying profiles",
+    type: "number",
+    default: 2,
+  })
   .option("annotate", {
     describe: "Annotate function with assembly (asm), source (src), or both (all). Requires function name as positional argument.",
     type: "string",
@@ -202,6 +418,173 @@ Shows the call stacks that lead to each function.
 profiler-cli <profile-url> --calltree 5 --detailed --max-paths 3
 \`\`\`
 
+### 8. Choose Threads and Processes
+\`\`\`bash
+profiler-cli <profile-url> --list-threads
+profiler-cli <profile-url> --calltree 10 --thread Renderer
+profiler-cli <profile-url> --flamegraph 5 --process <pid>
+\`\`\`
+By default the thread selected in the profile URL is analyzed. \`--thread\` takes comma-separated thread names, indexes or TIDs (several threads are merged), and \`--process\` restricts to a process by PID, name or type.
+
+**Use when:** The work you care about runs on the compositor, renderer, a DOM Worker, or another content process.
+
+### 9. Restrict to a Time Range
+\`\`\`bash
+profiler-cli <profile-url> --calltree 10 --range 1200ms-3400ms
+profiler-cli <profile-url> --flamegraph 5 --range-from-marker "Navigation::Start" --range-to-marker "Load"
+profiler-cli <profile-url> --calltree 10 --range-from-marker "Jank" --range-marker-index 2
+\`\`\`
+Commits a range before computing --calltree, --flamegraph, --top-markers or --network. \`--range\` is relative to the profile start; marker ranges use the marker's own start and end.
+
+**Use when:** You want to investigate a single slow interaction inside a long profile.
+
+### 10. Transform the Call Tree
+\`\`\`bash
+profiler-cli <profile-url> --calltree 10 --merge "malloc" --collapse-lib libxul.so
+profiler-cli <profile-url> --flamegraph 5 --focus-subtree "main>foo>bar" --drop "SomeFunction"
+profiler-cli <profile-url> --flamegraph --focus-category JavaScript --collapse-recursion "walk"
+\`\`\`
+Repeatable flags that compose in command line order, like the profiler's transform stack: \`--merge\`, \`--merge-call-node\`, \`--drop\`, \`--focus-subtree\`, \`--focus-category\`, \`--collapse-lib\`, \`--collapse-recursion\`, \`--collapse-direct-recursion\` and \`--collapse-subtree\`. Call paths are written from the root as "A>B>C".
+
+**Use when:** Noise like allocator or library frames hides the interesting code, or to reproduce a view a teammate built in the web UI.
+
+### 11. Reproduce a Profiler URL
+\`\`\`bash
+profiler-cli <profile-url> --calltree 10 --from-url "https://profiler.firefox.com/public/<hash>/calltree/?thread=3&transforms=ff-123~mf-45"
+profiler-cli <profile-url> --flamegraph 5 --merge "malloc" --print-url
+\`\`\`
+\`--from-url\` applies the threads, committed range, transforms and inverted call stack of a profiler URL and prints them in human form. \`--print-url\` prints a profiler.firefox.com URL for the CLI's view.
+
+**Use when:** A teammate shared a link to a specific view, or you want to hand your findings back to someone using the web UI.
+
+### 12. Interactive REPL
+\`\`\`bash
+profiler-cli repl <profile-url>
+\`\`\`
+Loads the profile once and accepts commands: \`calltree 20\`, \`flamegraph 5\`, \`markers\`, \`threads\`, \`focus malloc\`, \`merge free\`, \`pop\`, \`stack\`, \`thread Renderer\`, \`range 1200ms-3400ms\`, \`annotate asm Foo\`. Type \`help\` for the full list.
+
+**Use when:** You are a human exploring a large profile step by step. For scripted analysis, prefer one-shot invocations with \`--format json\`.
+
+### 13. Compare Two Profiles
+\`\`\`bash
+profiler-cli diff <base-url> <candidate-url> --calltree 20
+profiler-cli diff <base-url> <candidate-url> --top-markers
+\`\`\`
+Shows the functions whose share of self time changed the most (normalized by each profile's sample count), new and vanished functions, and the markers whose total duration changed the most. Focus, thread and range options apply to both profiles.
+
+**Use when:** Checking whether a patch made things faster or slower, or finding what regressed between two builds.
+
+### 14. MCP Server
+\`\`\`bash
+profiler-cli mcp [profile-url]
+profiler-cli mcp profile.json --offline
+\`\`\`
+Serves the queries as Model Context Protocol tools over stdio: \`list_threads\`, \`get_call_tree\`, \`get_flamegraph\`, \`get_marker_summary\`, \`get_page_load_summary\`, \`get_network_resources\` and \`annotate_function\`. Each tool takes an optional \`profile\` (defaulting to the one given on the command line) and the same thread, range, focus and transform options as the command line, and returns structured JSON. Profiles stay loaded between calls.
+
+**Use when:** Your agent supports MCP tools; you get typed results instead of parsing text.
+
+### 15. HTTP API
+\`\`\`bash
+profiler-cli serve --port 8080
+curl -X POST localhost:8080/profiles -d '{"profile": "<url>"}'
+curl 'localhost:8080/profiles/1/calltree?top=20&focusFunction=malloc'
+\`\`\`
+Endpoints under \`/profiles/:id/\`: \`calltree\`, \`flamegraph\`, \`markers\`, \`page-load\`, \`network\`, \`threads\`, \`annotate\`. They take the option names of the MCP tools as query parameters, and transforms named like their flags (\`merge=foo\`), and return the types of src/types.ts as JSON.
+
+**Use when:** Many queries against the same profiles from a script or service that cannot speak MCP.
+
+### 16. Export Stacks
+\`\`\`bash
+profiler-cli <url> --export folded out.folded
+profiler-cli <url> --export folded - --thread-prefix --thread 0,3
+profiler-cli <url> --export speedscope out.json
+profiler-cli profile.json.gz --offline --export pprof out.pb.gz
+\`\`\`
+\`folded\` writes one \`root;caller;callee samples\` line per stack, for flamegraph.pl, inferno or other tools; \`--thread-prefix\` starts each stack with process and thread frames. \`speedscope\` writes a speedscope file with one profile per selected thread. Transforms, focus, marker, thread and range options apply to both. \`pprof\` writes a gzipped pprof profile for \`go tool pprof\`, with thread, tid and category labels; it needs \`--offline\` and takes only thread and range options.
+
+**Use when:** Feeding the profile into another flamegraph or diff tool.
+
+### 17. HTML Report
+\`\`\`bash
+profiler-cli <url> --report report.html
+profiler-cli <url> --report report.html --process 1234 --focus-marker "Jank"
+\`\`\`
+Writes one offline HTML file with the page load timeline, top markers, network waterfall, top functions and a collapsible flamegraph. Transforms, focus, marker, thread and range options apply to all sections.
+
+**Use when:** Sharing an analysis with people who will not run the CLI, e.g. on a bug.
+
+### 18. Markdown Output
+\`\`\`bash
+profiler-cli <url> --calltree 10 --detailed --format markdown
+profiler-cli diff <base> <candidate> --calltree 10 --format markdown
+\`\`\`
+Prints GitHub-flavored Markdown instead of text: tables for functions, markers, threads, timings and diffs, \`<details>\` blocks for call paths and per-resource network phases, and a code block for flamegraphs. Progress messages go to stderr.
+
+**Use when:** Posting results in a pull request or issue comment.
+
+### 19. CSV Output
+\`\`\`bash
+profiler-cli <url> --top-markers --format csv > markers.csv
+profiler-cli <url> --top-markers --format csv --aggregate
+profiler-cli <url> --network --format csv > network.csv
+\`\`\`
+\`--top-markers\` writes one row per marker with its start, end, duration, thread, category and payload fields (\`data.*\` columns); \`--aggregate\` writes one row per marker name instead. \`--network\` writes one row per request with a column per timing phase.
+
+**Use when:** Loading marker or network data into a spreadsheet or a dataframe.
+
+### 20. Batch Runs
+\`\`\`bash
+profiler-cli batch runs/*.json.gz --page-load
+profiler-cli batch runs/*.json.gz --offline --top-markers 20
+profiler-cli batch runs/*.json.gz --calltree 10 --format json
+\`\`\`
+Processes the profiles one at a time and reports median, p90, min, max and stddev over the runs for FCP/LCP/Load, each marker's total duration, or each function's self time as a % of the run's samples. Runs far outside the interquartile range of a metric are listed as outliers.
+
+**Use when:** A scenario was recorded many times to average out noise, or to find the unusual runs.
+
+### 21. Comparing Sets of Runs
+\`\`\`bash
+profiler-cli compare --base base/*.json.gz --new new/*.json.gz --page-load --top-markers
+profiler-cli compare --base base/*.json.gz --new new/*.json.gz --offline --calltree 20 --threshold 10 --confidence 0.99
+\`\`\`
+Compares the distributions of page load metrics, marker totals and function self-time shares between two sets of runs with the Mann-Whitney U test. Prints the medians, the shift with its confidence interval and the p-value of each metric, and flags significant changes of at least \`--threshold\` percent (default 5) as REGRESSION or IMPROVEMENT. Exits with status 1 on a regression. At 95% confidence, each set needs at least 4 runs.
+
+**Use when:** Deciding whether a patch really changed performance, rather than a single noisy diff.
+
+### 22. Performance Budgets
+\`\`\`bash
+profiler-cli check <url> --budget budget.json
+profiler-cli check profile.json.gz --offline --budget budget.json --junit results.xml
+\`\`\`
+budget.json is \`{"rules": ["LCP < 2500ms", "marker \\"Reflow\\" total < 200ms", "function \\"malloc\\" self < 5%", "network resources > 500ms count == 0", "jank periods == 0"]}\`. Prints a PASS/FAIL table, exits with status 1 if any rule fails, and writes JUnit XML with \`--junit\`.
+
+**Use when:** Gating CI on a profile, or checking whether a fix brought a metric under its limit.
+
+### 23. Several Queries in One Run
+\`\`\`bash
+profiler-cli <url> --page-load --network --top-markers 10 --calltree 20
+\`\`\`
+The profile is loaded and symbolicated once, and each section is printed in turn (threads, top markers, marker listing, flamegraph, call tree, page load, network, annotation). With \`--format json\`, each query fills its own field of the one document. \`--export\`, \`--report\` and \`--format csv\` take a single mode.
+
+**Use when:** Getting an overview of a large profile, where every load takes long.
+
+### 24. List Individual Markers
+\`\`\`bash
+profiler-cli <url> --markers "DOMEvent" --sort duration --limit 10
+\`\`\`
+Lists each marker with this name: start and end relative to the navigation start, duration, thread, category and its payload fields (e.g. the DOMEvent's event type and latency), labelled and formatted with the profile's marker schema. \`--sort start\` (default) lists them in time order.
+
+**Use when:** --top-markers shows a marker is slow in total, and you need to know which instances, when, and with which payload.
+
+### 25. Group and Filter Markers by Payload Fields
+\`\`\`bash
+profiler-cli <url> --top-markers 20 --group-by eventType
+profiler-cli <url> --markers "DOMEvent" --where eventType=click --sort duration
+\`\`\`
+\`--group-by\` splits the marker summary by a payload field, e.g. "DOMEvent (click)" and "DOMEvent (keydown)"; use the field's key or its label from the marker schema (GC reason, network content type, IPC message type...). \`--where field=value\` keeps only the matching markers in --top-markers and --markers, and can be repeated. Both work with \`diff\`'s --top-markers too.
+
+**Use when:** one marker type dominates the summary and you need to know which kind of event, GC or message is responsible.
+
 ## Understanding the Output
 
 ### Self Time vs Total Time
@@ -221,11 +604,8 @@ When using \`--flamegraph\`, you see stacks in top-down order (traditional flame
 
 ### Pattern 1: Find Page Load Bottlenecks
 \`\`\`bash
-# Get comprehensive page load analysis
-profiler-cli <url> --page-load
-
-# Then drill into network issues
-profiler-cli <url> --network
+# Get comprehensive page load analysis, and drill into network issues
+profiler-cli <url> --page-load --network
 \`\`\`
 
 ### Pattern 2: Analyze Jank/Blocking
@@ -258,7 +638,9 @@ profiler-cli <url> --calltree 5 --detailed --max-paths 5
 ## Profile URL Sources
 - Firefox Profiler: profiler.firefox.com
 - Shared profiles: share.firefox.dev/<profile-id>
-- Local profiles: Use the profiler.firefox.com URL from your browser
+- Local profile files: Processed profiles (downloaded from profiler.firefox.com, recorded with samply) and Gecko profiles (saved from about:profiling), gzipped or not
+- Add \`--offline\` to analyze local files without a browser or network access; native functions are not symbolicated then
+- Add \`--frontend-dir <profiler/dist>\` to load profiles into a locally built profiler front-end instead of profiler.firefox.com, e.g. on air-gapped machines
 
 ## Tips for AI Analysis
 1. **Start with --page-load** for page load profiles to get comprehensive overview
@@ -273,22 +655,156 @@ profiler-cli <url> --calltree 5 --detailed --max-paths 5
 ## Error Handling
 - If function not found: The function may not appear in the profile at all
 - If profile fails to load: Ensure the URL is a valid Firefox Profiler share URL
-- Timeouts: Large profiles may take 30+ seconds to process
+- Timeouts: Large profiles may take 30+ seconds to process; the profiler is given 5 minutes by default, use \`--timeout <ms>\` to allow more
 - When using --focus-marker with values starting with '-', use equals syntax: --focus-marker="-async,-sync"
 `);
   process.exit(0);
 }
 
-if (!argv._[0]) {
-  console.error("Please provide a profile URL");
+if (argv.frontendDir !== undefined) {
+  if (argv.offline) {
+    console.error("--frontend-dir is for the browser and does not apply to --offline");
+    process.exit(1);
+  }
+  try {
+    checkFrontendDir(argv.frontendDir);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+const frontendDir = argv.frontendDir ?? null;
+
+if (!(argv.timeout > 0)) {
+  console.error("--timeout must be a positive number of ms");
+  process.exit(1);
+}
+setProfilerTimeout(argv.timeout);
+
+// `profiler-cli mcp [profile]` serves the queries as MCP tools over stdio, and
+// `profiler-cli serve` as a JSON API over HTTP. The profiles to query are named
+// by the requests, so none of the options below apply.
+if (argv._[0] === "mcp" || argv._[0] === "serve") {
+  // For mcp, stdout carries the protocol, so progress messages go to stderr.
+  console.log = console.error;
+
+  const serverBrowser = argv.offline ? null : await firefox.launch({ headless: true });
+  // The local servers of the loaded profiles, which are closed with their
+  // profile, or on exit for the profiles still loaded.
+  const serverProfileServers = new Set<LocalProfileServer>();
+
+  const loadProfile: ProfileLoader = async (profile) => {
+    if (argv.offline) {
+      if (!existsSync(profile)) {
+        throw new Error("--offline requires a local profile file");
+      }
+      return createOfflineBackend(await loadProfileFile(profile));
+    }
+    const server = await serveProfile(profile, frontendDir);
+    if (!server) {
+      return createBrowserBackend(serverBrowser!, profile);
+    }
+    serverProfileServers.add(server);
+    const closeServer = () => {
+      serverProfileServers.delete(server);
+      server.close();
+    };
+    try {
+      const backend = await createBrowserBackend(serverBrowser!, server.url);
+      return {
+        ...backend,
+        close: async () => {
+          try {
+            await backend.close();
+          } finally {
+            closeServer();
+          }
+        },
+      };
+    } catch (error) {
+      closeServer();
+      throw error;
+    }
+  };
+
+  try {
+    if (argv._[0] === "mcp") {
+      await runMcpServer(loadProfile, (argv._[1] as string | undefined) ?? null);
+    } else {
+      await runHttpServer(loadProfile, {
+        host: argv.host,
+        port: argv.port,
+        maxProfiles: argv.maxProfiles,
+        maxPages: argv.maxPages,
+      });
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  } finally {
+    if (serverBrowser) {
+      await serverBrowser.close();
+    }
+    for (const server of serverProfileServers) {
+      server.close();
+    }
+  }
+  process.exit();
+}
+
+// `profiler-cli diff <base> <candidate>` compares two profiles,
+// `profiler-cli repl <profile>` keeps a profile loaded for interactive use,
+// `profiler-cli check <profile>` checks a profile against a budget,
+// `profiler-cli batch <profile>...` aggregates the runs of a scenario, and
+// `profiler-cli compare --base <profile>... --new <profile>...` compares the
+// runs of two versions.
+const isDiff = argv._[0] === "diff";
+const isRepl = argv._[0] === "repl";
+const isCheck = argv._[0] === "check";
+const isBatch = argv._[0] === "batch";
+const isCompare = argv._[0] === "compare";
+const positionals = isDiff || isRepl || isCheck || isBatch || isCompare ? argv._.slice(1) : argv._;
+
+// Arrays are not greedy above, so that `--merge foo <profile>` leaves the
+// profile alone, but --base and --new take every profile up to the next option,
+// as the shell expands `--base base/*.json.gz`. For compare, they are parsed
+// again with greedy arrays.
+const compareArgv = isCompare
+  ? Parser.detailed(hideBin(process.argv), {
+    array: ["base", "new"],
+    string: ["base", "new"],
+    configuration: { "greedy-arrays": true, "short-option-groups": false },
+  }).argv
+  : null;
+const baseProfiles: string[] = compareArgv?.base ?? [];
+const newProfiles: string[] = compareArgv?.new ?? [];
+
+if (isCompare && (baseProfiles.length === 0 || newProfiles.length === 0)) {
+  console.error("Please provide the base and the new profiles: profiler-cli compare --base <profile>... --new <profile>...");
+  process.exit(1);
+}
+
+if (!isCompare && (argv.base !== undefined || argv.new !== undefined)) {
+  console.error("--base and --new only apply to compare");
+  process.exit(1);
+}
+
+if (!isCompare && !positionals[0]) {
+  console.error(isDiff ? "Please provide a base and a candidate profile URL" : "Please provide a profile URL");
   process.exit(1);
 }
 
-const profileUrl = argv._[0] as string;
+const profileUrl = isCompare ? baseProfiles[0] : positionals[0] as string;
+const candidateProfileUrl = isDiff ? (positionals[1] as string | undefined) ?? null : null;
+
+if (isDiff && candidateProfileUrl === null) {
+  console.error("Please provide a candidate profile URL: profiler-cli diff <base> <candidate>");
+  process.exit(1);
+}
 
 // Handle the case where --focus-marker is followed by a value starting with -
 // In this case, yargs may not capture it properly
-if (argv.focusMarker === '' || (argv.focusMarker === undefined && argv._.length > 1 && typeof argv._[1] === 'string' && argv._[1].startsWith('-'))) {
+if (argv.focusMarker === '' || (argv.focusMarker === undefined && typeof positionals[isDiff ? 2 : 1] === 'string' && (positionals[isDiff ? 2 : 1] as string).startsWith('-'))) {
   console.error("Error: When using --focus-marker with a value starting with '-', use the equals sign syntax:");
   console.error("  --focus-marker=\"-async,-sync\"");
   console.error("\nInstead of:");
@@ -299,15 +815,148 @@ if (argv.focusMarker === '' || (argv.focusMarker === undefined && argv._.length
 const hasTopMarkersFlag = process.argv.includes('--top-markers');
 const hasFlamegraphFlag = process.argv.includes('--flamegraph');
 
-if (!argv.calltree && !hasTopMarkersFlag && !hasFlamegraphFlag && !argv.pageLoad && !argv.network && !argv.annotate) {
-  console.error("Please specify one of: --calltree <N>, --flamegraph, --top-markers [N], --page-load, --network, or --annotate <asm|src|all> <function-name>");
+if (argv.markers === "") {
+  console.error("--markers requires a marker name, e.g. --markers \"Reflow\"");
+  process.exit(1);
+}
+
+if ((argv.limit !== undefined || process.argv.some((arg) => arg === "--sort" || arg.startsWith("--sort="))) && !argv.markers) {
+  console.error("--sort and --limit only apply to --markers");
+  process.exit(1);
+}
+
+if (argv.limit !== undefined && !(Number.isInteger(argv.limit) && argv.limit > 0)) {
+  console.error("--limit must be a positive integer");
+  process.exit(1);
+}
+
+let markerConditions: MarkerCondition[] = [];
+try {
+  markerConditions = (argv.where ?? []).map((condition: string) => parseMarkerCondition(condition));
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+const markerGroupBy: string | null = argv.groupBy ?? null;
+
+if (markerGroupBy === "") {
+  console.error("--group-by requires a payload field, e.g. --group-by eventType");
+  process.exit(1);
+}
+
+if ((markerGroupBy !== null && !hasTopMarkersFlag) || (markerConditions.length > 0 && !hasTopMarkersFlag && !argv.markers) ||
+    ((markerGroupBy !== null || markerConditions.length > 0) && (isRepl || isCheck || isBatch || isCompare))) {
+  console.error("--group-by applies to --top-markers, and --where to --top-markers and --markers");
+  process.exit(1);
+}
+
+if (isRepl) {
+  if (argv.calltree || hasTopMarkersFlag || hasFlamegraphFlag || argv.pageLoad || argv.network || argv.markers || argv.annotate || argv.listThreads || argv.export || argv.report) {
+    console.error("repl does not take a mode option, use its commands instead (type \"help\" in the REPL)");
+    process.exit(1);
+  }
+  if (argv.format !== "text") {
+    console.error(`--format ${argv.format} is not supported with repl`);
+    process.exit(1);
+  }
+} else if (isDiff) {
+  if (!argv.calltree && !hasTopMarkersFlag) {
+    console.error("diff requires --calltree <N> and/or --top-markers [N]");
+    process.exit(1);
+  }
+  if (hasFlamegraphFlag || argv.pageLoad || argv.network || argv.markers || argv.annotate || argv.listThreads || argv.export || argv.report) {
+    console.error("diff only supports --calltree and --top-markers");
+    process.exit(1);
+  }
+} else if (isBatch) {
+  if ([argv.pageLoad, hasTopMarkersFlag, argv.calltree].filter((mode) => mode !== undefined && mode !== false).length !== 1) {
+    console.error("batch requires one of --page-load, --top-markers [N] or --calltree <N>");
+    process.exit(1);
+  }
+  if (hasFlamegraphFlag || argv.network || argv.markers || argv.annotate || argv.listThreads || argv.export || argv.report) {
+    console.error("batch only supports --page-load, --top-markers and --calltree");
+    process.exit(1);
+  }
+  if (argv.format !== "text" && argv.format !== "json") {
+    console.error(`--format ${argv.format} is not supported with batch`);
+    process.exit(1);
+  }
+} else if (isCompare) {
+  if (!argv.pageLoad && !hasTopMarkersFlag && !argv.calltree) {
+    console.error("compare requires --page-load, --top-markers [N] and/or --calltree <N>");
+    process.exit(1);
+  }
+  if (hasFlamegraphFlag || argv.network || argv.markers || argv.annotate || argv.listThreads || argv.export || argv.report) {
+    console.error("compare only supports --page-load, --top-markers and --calltree");
+    process.exit(1);
+  }
+  if (argv.format !== "text" && argv.format !== "json") {
+    console.error(`--format ${argv.format} is not supported with compare`);
+    process.exit(1);
+  }
+  if (!(argv.confidence > 0 && argv.confidence < 1) || !(argv.threshold >= 0)) {
+    console.error("--confidence must be between 0 and 1 and --threshold must not be negative");
+    process.exit(1);
+  }
+} else if (isCheck) {
+  if (!argv.budget) {
+    console.error("check requires --budget <file>");
+    process.exit(1);
+  }
+  if (argv.calltree || hasTopMarkersFlag || hasFlamegraphFlag || argv.pageLoad || argv.network || argv.markers || argv.annotate || argv.listThreads || argv.export || argv.report) {
+    console.error("check does not take a mode option, the budget's rules decide what is queried");
+    process.exit(1);
+  }
+  if (argv.format !== "text") {
+    console.error("--format is not supported with check, use --junit <file> for a machine-readable report");
+    process.exit(1);
+  }
+} else if (!argv.calltree && !hasTopMarkersFlag && !hasFlamegraphFlag && !argv.pageLoad && !argv.network && !argv.markers && !argv.annotate && !argv.listThreads && !argv.export && !argv.report) {
+  console.error("Please specify one or more of: --calltree <N>, --flamegraph, --top-markers [N], --markers <name>, --page-load, --network, --list-threads, --export <format> <file>, --report <file>, or --annotate <asm|src|all> <function-name>");
   console.error("Note: --focus-function can be used with --calltree or --flamegraph to filter results");
   process.exit(1);
 }
 
-const optionCount = [argv.calltree, hasTopMarkersFlag, hasFlamegraphFlag, argv.pageLoad, argv.network, argv.annotate].filter(x => x !== undefined && x !== false).length;
-if (optionCount > 1) {
-  console.error("Please specify only one of: --calltree, --flamegraph, --top-markers, --page-load, --network, or --annotate");
+if ((argv.budget || argv.junit) && !isCheck) {
+  console.error("--budget and --junit only apply to check");
+  process.exit(1);
+}
+
+// Budget mistakes are reported before the profile is loaded.
+let budgetRules: BudgetRule[] = [];
+if (isCheck) {
+  try {
+    budgetRules = loadBudget(argv.budget!);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+// The modes of a run share one loaded profile and are printed one after another.
+const modeCount = isDiff || isRepl || isCheck || isBatch || isCompare ? 1 : [argv.calltree, hasTopMarkersFlag, hasFlamegraphFlag, argv.pageLoad, argv.network, argv.markers, argv.annotate, argv.listThreads, argv.export, argv.report].filter(x => x !== undefined && x !== false).length;
+if (modeCount > 1 && (argv.export || argv.report)) {
+  console.error("--export and --report cannot be combined with other modes");
+  process.exit(1);
+}
+
+const exportFormat: string | null = argv.export ? argv.export[0] : null;
+const exportPath: string | null = argv.export ? argv.export[1] : null;
+
+if (exportFormat !== null && (exportPath === undefined || !EXPORT_FORMATS.includes(exportFormat))) {
+  console.error(`--export requires a format (${EXPORT_FORMATS.join(", ")}) and a file, e.g. --export folded out.txt`);
+  process.exit(1);
+}
+
+// pprof locations and mappings come from the frame and lib tables, which only
+// the processed profile file has.
+if (exportFormat === "pprof" && !argv.offline) {
+  console.error("--export pprof reads the processed profile file directly and requires --offline");
+  process.exit(1);
+}
+
+if (argv.threadPrefix && exportFormat !== "folded") {
+  console.error("--thread-prefix only applies to --export folded");
   process.exit(1);
 }
 
@@ -318,434 +967,699 @@ if (argv.annotate && !argv._[1]) {
   process.exit(1);
 }
 
-// Check if this is a local profile file (.json.gz), and if so start samply
-let samplyProcess: any = null;
-let actualProfileUrl = profileUrl;
+let transforms: Transform[];
+try {
+  transforms = parseTransformArgs(hideBin(process.argv));
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
 
-if (existsSync(profileUrl) && profileUrl.endsWith('.json.gz')) {
-  console.log("Local profile detected, starting samply server...\n");
-
-  const PORT = 3000 + Math.floor(Math.random() * 1000);
-  console.log(`Starting samply server on port ${PORT}...`);
-
-  // Start samply from the directory containing the profile
-  // This is important for jitdump files referenced with relative paths (./jit-*.dump)
-  const path = await import('path');
-  const profileDir = path.dirname(path.resolve(profileUrl));
-  const profileBasename = path.basename(profileUrl);
-
-  console.log(`Starting samply from directory: ${profileDir}`);
-  console.log(`Loading profile: ${profileBasename}`);
-
-  samplyProcess = spawn("samply", ["load", profileBasename, "--no-open", "--port", String(PORT)], {
-    cwd: profileDir,
-    stdio: ["ignore", "pipe", "pipe"],
-  });
-
-  // Wait for samply to be ready and capture the profiler URL
-  await new Promise<void>((resolve, reject) => {
-    let samplyOutput = "";
-    const timeout = setTimeout(() => {
-      reject(new Error(`Samply did not start within 30 seconds`));
-    }, 30000);
-
-    samplyProcess.stdout?.on("data", (data: Buffer) => {
-      const output = data.toString();
-      samplyOutput += output;
-
-      // Try to extract the profiler URL from samply's output
-      const urlMatch = output.match(/https:\/\/profiler\.firefox\.com\/[^\s]+/);
-      if (urlMatch) {
-        actualProfileUrl = urlMatch[0];
-      }
-    });
+if (transforms.length > 0 && !argv.calltree && !hasFlamegraphFlag && !argv.export && !argv.report && !isRepl && !isCheck && !isBatch && !isCompare) {
+  console.error("Transforms (--merge, --drop, --focus-subtree, ...) only apply to --calltree, --flamegraph, --export, --report and check");
+  process.exit(1);
+}
+
+if (exportFormat === "pprof" && (argv.focusFunction || argv.focusMarker || transforms.length > 0 || argv.fromUrl !== undefined)) {
+  console.error("--export pprof keeps the stacks as they are; use pprof's -focus and -ignore options instead of transforms, --focus-function and --focus-marker");
+  process.exit(1);
+}
 
-    samplyProcess.stderr?.on("data", (data: Buffer) => {
-      const output = data.toString();
-      samplyOutput += output;
+if ((argv.fromUrl !== undefined || argv.printUrl) && (isDiff || isRepl || isBatch || isCompare || (!argv.calltree && !hasFlamegraphFlag))) {
+  console.error("--from-url and --print-url only apply to --calltree and --flamegraph");
+  process.exit(1);
+}
 
-      // samply prints the URL to stderr
-      const urlMatch = output.match(/https:\/\/profiler\.firefox\.com\/[^\s]+/);
-      if (urlMatch) {
-        actualProfileUrl = urlMatch[0];
-      }
+if (argv.printUrl && argv.calltree && hasFlamegraphFlag) {
+  console.error("--print-url prints the URL of one view, use it with only one of --calltree and --flamegraph");
+  process.exit(1);
+}
 
-      if (output.includes("Local server listening")) {
-        // Wait a bit more to make sure we capture the URL
-        setTimeout(() => {
-          clearTimeout(timeout);
-          resolve();
-        }, 500);
-      }
-    });
+let urlState: UrlState | null = null;
+if (argv.fromUrl !== undefined) {
+  try {
+    urlState = parseProfilerUrl(argv.fromUrl);
+  } catch (error) {
+    console.error(`Invalid --from-url: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
 
-    samplyProcess.on("error", (err: Error) => {
-      clearTimeout(timeout);
-      reject(err);
-    });
-  });
+// In the browser, the URL state is restored by the profiler itself (see
+// mergeUrlState below); offline, its threads and range become selections.
+const urlThreads = argv.offline && urlState !== null ? urlState.threads : null;
+const urlRange = argv.offline && urlState !== null && urlState.committedRanges.length > 0
+  ? urlState.committedRanges[urlState.committedRanges.length - 1]
+  : null;
+
+const threadSelection: ThreadSelection | null = argv.thread !== undefined || argv.process !== undefined
+  ? { thread: argv.thread ?? null, process: argv.process ?? null }
+  : urlThreads !== null
+    ? { thread: urlThreads.join(","), process: null }
+    : null;
+
+if (argv.range !== undefined && (argv.rangeFromMarker !== undefined || argv.rangeToMarker !== undefined)) {
+  console.error("--range cannot be combined with --range-from-marker or --range-to-marker");
+  process.exit(1);
+}
 
-  console.log("Samply server ready");
+if (argv.rangeMarkerIndex !== undefined && (argv.rangeFromMarker === undefined || !Number.isInteger(argv.rangeMarkerIndex) || argv.rangeMarkerIndex < 1)) {
+  console.error("--range-marker-index requires --range-from-marker and a positive integer");
+  process.exit(1);
+}
 
-  // If we didn't capture the URL from samply's output, construct it
-  if (actualProfileUrl === profileUrl) {
-    console.log("Profiler URL not captured from samply output, fetching from server...");
-    try {
-      const response = await fetch(`http://127.0.0.1:${PORT}/`);
-      const html = await response.text();
-      const urlMatch = html.match(/https:\/\/profiler\.firefox\.com\/[^"]+/);
-      if (urlMatch) {
-        actualProfileUrl = urlMatch[0];
-        console.log("Got profiler URL from HTTP response");
-      } else {
-        console.error("Could not find profiler URL in samply server response");
-      }
-    } catch (error) {
-      console.error(`Error fetching profiler URL: ${error}`);
-    }
+if (argv.range !== undefined) {
+  try {
+    parseTimeRange(argv.range);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
   }
-
-  console.log(`Profiler URL: ${actualProfileUrl}\n`);
 }
 
-// Use Firefox for better profiler compatibility
-const browser = await firefox.launch({ headless: true });
+const rangeSelection: RangeSelection | null = argv.range !== undefined || argv.rangeFromMarker !== undefined || argv.rangeToMarker !== undefined
+  ? {
+      range: argv.range ?? null,
+      fromMarker: argv.rangeFromMarker ?? null,
+      toMarker: argv.rangeToMarker ?? null,
+      markerIndex: argv.rangeMarkerIndex ?? null,
+    }
+  : urlRange !== null
+    ? { range: `${urlRange.start}ms-${urlRange.end}ms`, fromMarker: null, toMarker: null, markerIndex: null }
+    : null;
 
-function printFlameTree(node: FlameNode, totalSamples: number, indent: string = "", isLast: boolean = true, isRoot: boolean = true): void {
-  const prefix = isRoot ? "" : (isLast ? "└─ " : "├─ ");
-  const percentage = ((node.totalTime / totalSamples) * 100).toFixed(1);
-  const selfTimeStr = node.selfTime > 0 ? ` [self: ${node.selfTime}]` : "";
-  console.log(`${indent}${prefix}${node.name} (${percentage}%, ${node.totalTime} samples)${selfTimeStr}`);
+const jsonOutput = argv.format === "json";
+const markdownOutput = argv.format === "markdown";
+const csvOutput = argv.format === "csv";
 
-  const childIndent = isRoot ? "" : indent + (isLast ? "   " : "│  ");
+if (csvOutput && !((hasTopMarkersFlag || argv.network) && !isDiff)) {
+  console.error("--format csv is only supported with --top-markers and --network");
+  process.exit(1);
+}
 
-  for (let i = 0; i < node.children.length; i++) {
-    const isLastChild = i === node.children.length - 1;
-    printFlameTree(node.children[i], totalSamples, childIndent, isLastChild, false);
-  }
+if (csvOutput && modeCount > 1) {
+  console.error("--format csv writes a single table, use it with only one of --top-markers and --network");
+  process.exit(1);
 }
 
-try {
-  if (hasTopMarkersFlag) {
-    const allMarkerSummaries = await getMarkerSummary(browser, actualProfileUrl);
+if (csvOutput && hasTopMarkersFlag && !argv.aggregate && (markerGroupBy !== null || markerConditions.length > 0)) {
+  console.error("--group-by and --where summarize markers, use them with --format csv --aggregate");
+  process.exit(1);
+}
 
-    console.log(`\nTotal unique markers: ${allMarkerSummaries.length}\n`);
+if (argv.aggregate && !(csvOutput && hasTopMarkersFlag)) {
+  console.error("--aggregate only applies to --top-markers --format csv");
+  process.exit(1);
+}
 
-    if (argv.topMarkers === undefined) {
-      const limit = 5;
-      const byTotalDuration = [...allMarkerSummaries].sort((a, b) => b.totalDuration - a.totalDuration).slice(0, Math.min(limit, allMarkerSummaries.length));
-      const byMaxDuration = [...allMarkerSummaries].sort((a, b) => b.maxDuration - a.maxDuration).slice(0, Math.min(limit, allMarkerSummaries.length));
+if (argv.format !== "text" && (argv.annotate || argv.export || argv.report)) {
+  console.error(`--format ${argv.format} is not supported with ${argv.annotate ? "--annotate" : argv.export ? "--export" : "--report"}`);
+  process.exit(1);
+}
 
-      console.log(`Top ${byTotalDuration.length} markers by total duration:\n`);
-      for (let i = 0; i < byTotalDuration.length; i++) {
-        const marker = byTotalDuration[i];
-        console.log(`${i + 1}. ${marker.name} - ${marker.totalDuration.toFixed(2)} ms total (count: ${marker.count}, avg: ${marker.avgDuration.toFixed(2)} ms)`);
-      }
+// stdout is reserved for the JSON document, the Markdown, the CSV or the
+// export, so progress messages and warnings from the profile loading code are
+// sent to stderr instead.
+if (jsonOutput || markdownOutput || csvOutput || exportPath === "-") {
+  console.log = console.error;
+}
 
-      console.log(`\nTop ${byMaxDuration.length} markers by max single instance duration:\n`);
-      for (let i = 0; i < byMaxDuration.length; i++) {
-        const marker = byMaxDuration[i];
-        console.log(`${i + 1}. ${marker.name} - ${marker.maxDuration.toFixed(2)} ms max (total: ${marker.totalDuration.toFixed(2)} ms, count: ${marker.count})`);
-      }
-    } else {
-      const limit = argv.topMarkers;
-      const markerSummaries = allMarkerSummaries.slice(0, limit);
+function printMarkdown(markdown: string): void {
+  process.stdout.write(markdown + "\n\n");
+}
 
-      console.log(`Marker Summary (sorted by frequency):\n`);
+const batchProfiles: string[] = isBatch ? positionals.map(String) : [];
 
-      if (limit < allMarkerSummaries.length) {
-        console.log(`Showing top ${limit} markers:\n`);
-      }
+if (argv.offline && (!existsSync(profileUrl) || (candidateProfileUrl !== null && !existsSync(candidateProfileUrl)) || ![...batchProfiles, ...baseProfiles, ...newProfiles].every((profile) => existsSync(profile)))) {
+  console.error("--offline requires a local profile file");
+  process.exit(1);
+}
 
-      for (let i = 0; i < markerSummaries.length; i++) {
-        const marker = markerSummaries[i];
-        console.log(`${i + 1}. ${marker.name}`);
-        console.log(`   Count: ${marker.count}`);
-        console.log(`   Total duration: ${marker.totalDuration.toFixed(2)} ms`);
-        console.log(`   Avg duration: ${marker.avgDuration.toFixed(2)} ms`);
-        console.log(`   Min duration: ${marker.minDuration.toFixed(2)} ms`);
-        console.log(`   Max duration: ${marker.maxDuration.toFixed(2)} ms`);
-        console.log();
-      }
+if (argv.offline && argv.annotate) {
+  console.error("--annotate needs symbolication and is not available with --offline");
+  process.exit(1);
+}
+
+// In offline mode the profile is analyzed in-process and no browser is needed.
+// batch and compare load their profiles one at a time.
+const offlineProfile = argv.offline && !isBatch && !isCompare ? await loadProfileFile(profileUrl) : null;
+const offlineCandidateProfile = argv.offline && candidateProfileUrl !== null ? await loadProfileFile(candidateProfileUrl) : null;
+
+function printUrlState(state: UrlState, names: UrlNameTables | null): void {
+  const lines = describeUrlState(state, names);
+  if (lines.length > 0) {
+    console.log("\nProfiler URL state:");
+    for (const line of lines) {
+      console.log(`  ${line}`);
     }
-  } else if (hasFlamegraphFlag) {
-    const maxDepth = argv.flamegraph || null;
-    const flamegraphData = await getFlamegraphData(
-      browser,
-      actualProfileUrl,
-      maxDepth,
-      argv.focusFunction || null,
-      argv.focusMarker || null
-    );
+  }
+}
 
-    const filters = [];
-    if (argv.focusFunction) filters.push(`focus: "${argv.focusFunction}"`);
-    if (argv.focusMarker) filters.push(`marker: "${argv.focusMarker}"`);
-    if (maxDepth) filters.push(`max depth: ${maxDepth}`);
-    const filterText = filters.length > 0 ? ` (${filters.join(", ")})` : "";
+// A profiler URL given as the profile carries view state too, which the
+// profiler restores by itself when the URL is loaded.
+let profileUrlState: UrlState | null = null;
+if (!argv.offline && /^https?:/.test(profileUrl)) {
+  try {
+    profileUrlState = parseProfilerUrl(profileUrl);
+  } catch {
+    profileUrlState = null;
+  }
+}
 
-    console.log(`\nFlamegraph${filterText}:\n`);
+// Offline, the URL's transforms are resolved to names and applied before the
+// other transforms, like in the profiler where they are already on the stack.
+let urlTransforms: Transform[] = [];
+try {
+  if (urlState !== null && offlineProfile) {
+    const names = getUrlNameTables(offlineProfile, threadSelection);
+    printUrlState(urlState, names);
+    urlTransforms = urlState.transforms.map((transform) => resolveUrlTransform(transform, names));
+  } else if (urlState !== null) {
+    printUrlState(urlState, null);
+  } else if (profileUrlState !== null) {
+    printUrlState(profileUrlState, null);
+  }
+} catch (error) {
+  console.error(`Error: ${(error as Error).message}`);
+  process.exit(1);
+}
 
-    if (flamegraphData.length === 0) {
-      console.log("No data found in profile.\n");
-    } else {
-      const totalSamples = flamegraphData.reduce((sum, root) => sum + root.totalTime, 0);
-      for (const root of flamegraphData) {
-        printFlameTree(root, totalSamples);
-        console.log();
-      }
-    }
-  } else if (argv.calltree) {
-    const callTreeData = await getCallTreeData(
-      browser,
-      actualProfileUrl,
-      argv.calltree || 1,
-      argv.detailed,
-      argv.focusFunction || null,
-      argv.focusMarker || null
-    );
+const invertCallstack = (urlState ?? profileUrlState)?.invertCallstack ?? false;
 
-    const filters = [];
-    if (argv.focusFunction) filters.push(`focus: "${argv.focusFunction}"`);
-    if (argv.focusMarker) filters.push(`marker: "${argv.focusMarker}"`);
-    const filterText = filters.length > 0 ? ` (${filters.join(", ")})` : "";
+// Offline, --focus-function goes through the transform list so that it comes
+// after the URL's transforms.
+const offlineTransforms: Transform[] = [
+  ...urlTransforms,
+  ...(argv.focusFunction ? [{ type: "focus-function" as const, funcName: argv.focusFunction }] : []),
+  ...transforms,
+];
+
+// Local profile files are served to the profiler, one server per file
+const profileServers: LocalProfileServer[] = [];
+
+async function resolveProfileUrl(profilePath: string): Promise<string> {
+  const server = await serveProfile(profilePath, frontendDir);
+  if (!server) {
+    return profilePath;
+  }
 
-    console.log(`\nTop ${argv.calltree} functions by self time${filterText}:\n`);
+  profileServers.push(server);
+  return server.url;
+}
+
+// Set at the start of the main block below, so that the servers started for
+// the first profile are closed when the second fails to load.
+let actualProfileUrl = profileUrl;
+let actualCandidateUrl = candidateProfileUrl;
+let browser: Browser | null = null;
+
+async function getAllCallTreeNodes(offline: Profile | null, loaded: LoadedProfile | null): Promise<CallTreeNode[]> {
+  // Every function on a sampled stack is needed, so that the diff can normalize
+  // by total samples and tell functions without self time from missing ones.
+  const flamegraph = offline
+    ? computeFlamegraphData(offline, null, argv.focusFunction || null, argv.focusMarker || null, threadSelection, rangeSelection, transforms)
+    : await loaded!.flamegraph(null, argv.focusFunction || null, argv.focusMarker || null, threadSelection, rangeSelection, transforms);
+  return getFunctionTimes(flamegraph);
+}
 
-    if (callTreeData.length === 0) {
-      console.log("No data found in profile.\n");
+// Queries each profile of a set of runs, one at a time so that only one is in
+// memory or served.
+async function collectProfileSetRuns(profiles: string[], view: ReplView, pageLoad: boolean, markers: boolean, functions: boolean): Promise<ProfileSetRuns> {
+  const runs: ProfileSetRuns = {
+    pageLoads: pageLoad ? [] : null,
+    markers: markers ? [] : null,
+    functions: functions ? [] : null,
+  };
+  for (let i = 0; i < profiles.length; i++) {
+    const profile = profiles[i];
+    console.log(`Processing ${profile} (${i + 1}/${profiles.length})`);
+    const server = argv.offline ? null : await serveProfile(profile, frontendDir);
+    let backend: ReplBackend | null = null;
+    try {
+      backend = argv.offline
+        ? createOfflineBackend(await loadProfileFile(profile))
+        : await createBrowserBackend(browser!, server ? server.url : profile);
+      runs.pageLoads?.push(await backend.pageLoad(view));
+      runs.markers?.push(await backend.markers(view));
+      // Every function is needed for the share of each run's samples.
+      runs.functions?.push(await backend.callTree(view, Number.MAX_SAFE_INTEGER, false));
+    } finally {
+      await backend?.close();
+      server?.close();
     }
+  }
+  return runs;
+}
 
-    for (let i = 0; i < callTreeData.length; i++) {
-      const node = callTreeData[i];
-      console.log(`${i + 1}. ${node.name} - ${node.selfTime} samples (${node.totalTime} total)`);
+async function getAllMarkerSummaries(offline: Profile | null, loaded: LoadedProfile | null): Promise<MarkerSummary[]> {
+  return offline
+    ? computeMarkerSummary(offline, threadSelection, rangeSelection, markerGroupBy, markerConditions)
+    : await loaded!.markerSummary(threadSelection, rangeSelection, markerGroupBy, markerConditions);
+}
 
+// The profiler URL of the analyzed view, for --print-url.
+let viewUrl: string | null = null;
 
-      if (argv.detailed && node.callPaths) {
-        console.log();
+function getOfflineViewUrl(profile: Profile, inverted: boolean): string {
+  if (argv.focusMarker) {
+    console.log("Warning: --focus-marker is not included in the URL");
+  }
+  return buildProfilerUrl(
+    computeUrlState(profile, threadSelection, rangeSelection, offlineTransforms, inverted),
+    argv.fromUrl ?? null
+  );
+}
 
-        // Sort call paths by samples (descending)
-        const sortedPaths = [...node.callPaths].sort((a, b) => b.samples - a.samples);
+const jsonDocument: JsonOutputDocument = {
+  version: JSON_OUTPUT_VERSION,
+  profile: profileUrl,
+  options: {
+    focusFunction: argv.focusFunction || null,
+    focusMarker: argv.focusMarker || null,
+    calltree: argv.calltree ?? null,
+    topMarkers: argv.topMarkers ?? null,
+    markersLimit: argv.limit ?? null,
+    maxDepth: argv.flamegraph || null,
+    detailed: argv.detailed,
+    offline: argv.offline,
+    thread: argv.thread ?? null,
+    process: argv.process ?? null,
+    range: rangeSelection !== null ? formatRangeSelection(rangeSelection) : null,
+    transforms,
+    fromUrl: argv.fromUrl ?? null,
+    groupBy: markerGroupBy,
+    where: markerConditions.map((condition) => `${condition.field}=${condition.value}`),
+  },
+};
+
+// batch and compare query each of their runs with the same view.
+const runView: ReplView = {
+  threadSelection,
+  rangeSelection,
+  markerFilter: argv.focusMarker || null,
+  transforms: [...(argv.focusFunction ? [{ type: "focus-function" as const, funcName: argv.focusFunction }] : []), ...transforms],
+};
 
-        const pathsToShow = sortedPaths.slice(0, argv.maxPaths);
+try {
+  if (!argv.offline && !isBatch && !isCompare) {
+    actualProfileUrl = argv.fromUrl !== undefined
+      ? mergeUrlState(await resolveProfileUrl(profileUrl), argv.fromUrl)
+      : await resolveProfileUrl(profileUrl);
+  }
+  if (candidateProfileUrl !== null && !offlineCandidateProfile) {
+    actualCandidateUrl = await resolveProfileUrl(candidateProfileUrl);
+  }
 
-        for (let j = 0; j < pathsToShow.length; j++) {
-          const path = pathsToShow[j];
-          const percentage = ((path.samples / node.selfTime) * 100).toFixed(1);
-          console.log(`   Call path #${j + 1} - ${path.samples} samples (${percentage}% of this function):`);
+  // Use Firefox for better profiler compatibility
+  browser = argv.offline ? null : await firefox.launch({ headless: true });
+
+  if (isRepl) {
+    const backend = offlineProfile
+      ? createOfflineBackend(offlineProfile)
+      : await createBrowserBackend(browser!, actualProfileUrl);
+    // The command line options become the REPL's initial view.
+    await runRepl(backend, profileUrl, {
+      threadSelection,
+      rangeSelection,
+      markerFilter: argv.focusMarker || null,
+      transforms: [
+        ...(argv.focusFunction ? [{ type: "focus-function" as const, funcName: argv.focusFunction }] : []),
+        ...transforms,
+      ],
+    }, argv.maxPaths);
+  } else if (isDiff) {
+    const diff: ProfileDiff = { candidateProfile: candidateProfileUrl! };
 
-          // Reverse stack so root is at bottom (traditional view)
-          const reversedStack = [...path.stack].reverse();
-          for (const frame of reversedStack) {
-            console.log(`     ${frame}`);
-          }
-          console.log();
-        }
+    const filters = [];
+    if (argv.focusFunction) filters.push(`focus: "${argv.focusFunction}"`);
+    if (argv.focusMarker) filters.push(`marker: "${argv.focusMarker}"`);
+    if (rangeSelection) filters.push(`range: ${formatRangeSelection(rangeSelection)}`);
+    filters.push(...transforms.map(formatTransform));
+    const filterText = filters.length > 0 ? ` (${filters.join(", ")})` : "";
 
-        // Show summary of remaining paths
-        const remainingPaths = sortedPaths.length - pathsToShow.length;
-        if (remainingPaths > 0) {
-          const samplesRemaining = sortedPaths.slice(pathsToShow.length).reduce((sum, p) => sum + p.samples, 0);
-          console.log(`   [${remainingPaths} more call path${remainingPaths > 1 ? 's' : ''}, accounting for ${samplesRemaining} samples]\n`);
-        }
-      }
+    if (markdownOutput) {
+      printMarkdown(`**Base:** \`${profileUrl}\`<br>\n**Candidate:** \`${candidateProfileUrl}\``);
+    } else if (!jsonOutput) {
+      console.log(`\nBase:      ${profileUrl}`);
+      console.log(`Candidate: ${candidateProfileUrl}`);
     }
-  } else if (argv.pageLoad) {
-    const pageLoadSummary = await getPageLoadSummary(browser, actualProfileUrl);
 
-    console.log("\n═══════════════════════════════════════════════════════════════════════════════");
-    console.log("  Page Load Summary");
-    console.log("═══════════════════════════════════════════════════════════════════════════════\n");
+    // Both profiles are loaded once for the call tree and the markers.
+    const baseLoaded = offlineProfile ? null : await loadProfile(browser!, actualProfileUrl);
+    const candidateLoaded = offlineCandidateProfile ? null : await loadProfile(browser!, actualCandidateUrl!);
 
-    if (pageLoadSummary.url) {
-      console.log(`URL: ${pageLoadSummary.url}\n`);
-    } else {
-      console.log("URL: Not found\n");
-    }
+    if (argv.calltree) {
+      const baseNodes = await getAllCallTreeNodes(offlineProfile, baseLoaded);
+      const candidateNodes = await getAllCallTreeNodes(offlineCandidateProfile, candidateLoaded);
+      const report = diffCallTrees(baseNodes, candidateNodes, argv.calltree);
+      diff.functions = report;
 
-    const metrics = [
-      { name: "Load", value: pageLoadSummary.load, label: "Load" },
-      { name: "FCP", value: pageLoadSummary.firstContentfulPaint, label: "FCP" },
-      { name: "LCP", value: pageLoadSummary.largestContentfulPaint, label: "LCP" },
-    ].filter(m => m.value !== null);
-
-    if (metrics.length > 0) {
-      const maxTime = Math.max(...metrics.map(m => m.value!));
-      const timelineWidth = 80;
-
-      const maxTimeStr = `${maxTime.toFixed(0)}ms`;
-      const padding = timelineWidth - 3 - maxTimeStr.length;
-      console.log(`0ms${" ".repeat(padding)}${maxTimeStr}`);
-
-      const positions = metrics
-        .sort((a, b) => a.value! - b.value!)
-        .map(m => ({
-          label: m.label,
-          pos: Math.floor((m.value! / maxTime) * (timelineWidth - 1))
-        }));
-
-      let mainTimeline = "-".repeat(timelineWidth);
-      for (const pos of positions) {
-        mainTimeline = mainTimeline.substring(0, pos.pos) + "|" + mainTimeline.substring(pos.pos + 1);
+      if (markdownOutput) {
+        printMarkdown(renderCallTreeDiffMarkdown(report, argv.calltree, filterText));
+      } else if (!jsonOutput) {
+        printCallTreeDiff(report, argv.calltree, filterText);
       }
-      console.log(mainTimeline);
+    }
 
-      for (let i = 0; i < positions.length; i++) {
-        const currentPos = positions[i];
-        let line = " ".repeat(timelineWidth);
+    if (hasTopMarkersFlag) {
+      const baseMarkers = await getAllMarkerSummaries(offlineProfile, baseLoaded);
+      const candidateMarkers = await getAllMarkerSummaries(offlineCandidateProfile, candidateLoaded);
+      const limit = argv.topMarkers ?? 10;
+      const markerDiffs = diffMarkerSummaries(baseMarkers, candidateMarkers, limit);
+      diff.markers = markerDiffs;
+
+      const markerFilterText = rangeSelection ? ` (range: ${formatRangeSelection(rangeSelection)})` : "";
+      if (markdownOutput) {
+        printMarkdown(renderMarkerDiffsMarkdown(markerDiffs, markerFilterText));
+      } else if (!jsonOutput) {
+        printMarkerDiffs(markerDiffs, markerFilterText);
+      }
+    }
 
-        for (let j = i; j < positions.length; j++) {
-          line = line.substring(0, positions[j].pos) + "|" + line.substring(positions[j].pos + 1);
-        }
+    await baseLoaded?.close();
+    await candidateLoaded?.close();
+    jsonDocument.diff = diff;
+  } else if (isBatch) {
+    const runs = await collectProfileSetRuns(batchProfiles, runView, !!argv.pageLoad, hasTopMarkersFlag, !!argv.calltree);
+    const summary = runs.pageLoads
+      ? aggregatePageLoads(batchProfiles, runs.pageLoads)
+      : runs.markers
+        ? aggregateMarkers(batchProfiles, runs.markers, argv.topMarkers ?? 10)
+        : aggregateFunctions(batchProfiles, runs.functions!, argv.calltree!);
+
+    if (jsonOutput) {
+      jsonDocument.batch = summary;
+    } else {
+      const title = argv.pageLoad
+        ? "Page load timings"
+        : hasTopMarkersFlag
+          ? `Top ${summary.metrics.length} markers by median total duration`
+          : `Top ${summary.metrics.length} functions by median share of self time`;
+      printBatchSummary(summary, title);
+    }
+  } else if (isCompare) {
+    const baseRuns = await collectProfileSetRuns(baseProfiles, runView, !!argv.pageLoad, hasTopMarkersFlag, !!argv.calltree);
+    const newRuns = await collectProfileSetRuns(newProfiles, runView, !!argv.pageLoad, hasTopMarkersFlag, !!argv.calltree);
+    const comparison = compareProfileSets(
+      baseProfiles,
+      newProfiles,
+      baseRuns,
+      newRuns,
+      argv.topMarkers ?? 10,
+      argv.calltree ?? 0,
+      argv.confidence,
+      argv.threshold
+    );
 
-        let labelStart = currentPos.pos;
-        if (i === positions.length - 1) {
-          labelStart = currentPos.pos + 2;
-          if (labelStart + currentPos.label.length > timelineWidth) {
-            labelStart = Math.max(0, currentPos.pos - currentPos.label.length - 1);
-          }
-        }
+    if (jsonOutput) {
+      jsonDocument.compare = comparison;
+    } else {
+      printProfileSetComparison(comparison);
+    }
+    if (comparison.metrics.some((metric) => metric.verdict === "regression")) {
+      process.exitCode = 1;
+    }
+  } else if (isCheck) {
+    const backend = offlineProfile
+      ? createOfflineBackend(offlineProfile)
+      : await createBrowserBackend(browser!, actualProfileUrl);
+    const results = await evaluateBudget(budgetRules, backend, {
+      threadSelection,
+      rangeSelection,
+      markerFilter: argv.focusMarker || null,
+      transforms: offlineProfile
+        ? offlineTransforms
+        : [...(argv.focusFunction ? [{ type: "focus-function" as const, funcName: argv.focusFunction }] : []), ...transforms],
+    });
+    await backend.close();
 
-        if (labelStart >= 0 && labelStart + currentPos.label.length <= timelineWidth) {
-          line = line.substring(0, labelStart) + currentPos.label + line.substring(labelStart + currentPos.label.length);
-        }
+    printBudgetResults(results);
+    if (argv.junit) {
+      writeFileSync(argv.junit, toJUnitXml(results, argv.budget!, profileUrl));
+      console.log(`Wrote JUnit report to ${argv.junit}`);
+    }
+    if (results.some((result) => !result.passed)) {
+      process.exitCode = 1;
+    }
+  } else if (argv.report) {
+    // One loaded profile answers all of the report's queries.
+    const backend = offlineProfile
+      ? createOfflineBackend(offlineProfile)
+      : await createBrowserBackend(browser!, actualProfileUrl);
+    const view = {
+      threadSelection,
+      rangeSelection,
+      markerFilter: argv.focusMarker || null,
+      transforms: offlineProfile
+        ? offlineTransforms
+        : [...(argv.focusFunction ? [{ type: "focus-function" as const, funcName: argv.focusFunction }] : []), ...transforms],
+    };
 
-        console.log(line);
+    const filters = [];
+    if (threadSelection?.process) filters.push(`process: ${threadSelection.process}`);
+    if (threadSelection?.thread) filters.push(`thread: ${threadSelection.thread}`);
+    if (argv.focusMarker) filters.push(`marker: "${argv.focusMarker}"`);
+    if (rangeSelection) filters.push(`range: ${formatRangeSelection(rangeSelection)}`);
+    filters.push(...view.transforms.map(formatTransform));
+
+    const html = renderHtmlReport({
+      profile: profileUrl,
+      filters,
+      pageLoad: await backend.pageLoad(view),
+      markers: await backend.markers(view),
+      network: await backend.network(view),
+      functions: await backend.callTree(view, 20, false),
+      flamegraph: await backend.flamegraph(view, null),
+    });
+    await backend.close();
+
+    writeFileSync(argv.report, html);
+    console.log(`Wrote report to ${argv.report}`);
+  } else {
+    // Every mode of the run queries the same loaded profile, in this order.
+    const loaded = offlineProfile ? null : await loadProfile(browser!, actualProfileUrl);
+
+    if (exportFormat !== null) {
+      let output: string | Buffer;
+      let summary: string;
+      if (exportFormat === "pprof") {
+        output = toPprof(offlineProfile!, threadSelection, rangeSelection);
+        summary = `${output.length} bytes`;
+      } else if (exportFormat === "speedscope") {
+        const threadFlamegraphs = offlineProfile
+          ? computeThreadFlamegraphs(offlineProfile, argv.focusMarker || null, threadSelection, rangeSelection, offlineTransforms, invertCallstack)
+          : await loaded!.threadFlamegraphs(argv.focusFunction || null, argv.focusMarker || null, threadSelection, rangeSelection, transforms, invertCallstack);
+        const speedscope = toSpeedscope(threadFlamegraphs, profileUrl);
+        output = JSON.stringify(speedscope) + "\n";
+        summary = `${speedscope.profiles.length} thread(s)`;
+      } else if (argv.threadPrefix) {
+        const threadFlamegraphs = offlineProfile
+          ? computeThreadFlamegraphs(offlineProfile, argv.focusMarker || null, threadSelection, rangeSelection, offlineTransforms, invertCallstack)
+          : await loaded!.threadFlamegraphs(argv.focusFunction || null, argv.focusMarker || null, threadSelection, rangeSelection, transforms, invertCallstack);
+        const lines = threadFlamegraphs.flatMap(({ thread, roots }) => toFoldedStacks(roots, getThreadPrefixFrames(thread)));
+        output = lines.map((line) => `${line}\n`).join("");
+        summary = `${lines.length} stacks`;
+      } else {
+        const roots = offlineProfile
+          ? computeFlamegraphData(offlineProfile, null, null, argv.focusMarker || null, threadSelection, rangeSelection, offlineTransforms, invertCallstack)
+          : await loaded!.flamegraph(null, argv.focusFunction || null, argv.focusMarker || null, threadSelection, rangeSelection, transforms, invertCallstack);
+        const lines = toFoldedStacks(roots);
+        output = lines.map((line) => `${line}\n`).join("");
+        summary = `${lines.length} stacks`;
       }
 
-      console.log("\n───── Navigation Timing ─────\n");
-
-      for (const metric of metrics) {
-        console.log(`  ${metric.name.padEnd(4)}: ${metric.value!.toFixed(2)} ms`);
+      if (exportPath === "-") {
+        process.stdout.write(output);
+      } else {
+        writeFileSync(exportPath!, output);
+        console.log(`Wrote ${summary} to ${exportPath}`);
       }
-    } else {
-      console.log("\nNo page load metrics found.");
     }
 
-    if (pageLoadSummary.resources) {
-      const res = pageLoadSummary.resources;
-      console.log("\n───── Resources ─────\n");
-      console.log(`  Total resources: ${res.totalResources}`);
-      console.log(`  Average duration: ${res.avgDuration.toFixed(2)} ms`);
-      console.log(`  Max duration: ${res.maxDuration.toFixed(2)} ms`);
-      console.log("\n  By type:");
-
-      const sortedTypes = Object.entries(res.byType).sort((a, b) => b[1] - a[1]);
-      for (const [type, count] of sortedTypes) {
-        console.log(`    ${type}: ${count}`);
-      }
+    if (argv.listThreads) {
+      const threads = offlineProfile
+        ? getThreadInfoList(offlineProfile)
+        : await loaded!.threads();
 
-      console.log("\n  Top 10 longest loads:");
-      for (let i = 0; i < res.topResources.length; i++) {
-        const resource = res.topResources[i];
-        const filename = resource.url.split('/').pop() || resource.url;
-        const displayName = filename.length > 60 ? filename.substring(0, 57) + "..." : filename;
-        console.log(`    ${i + 1}. ${displayName} - ${resource.duration.toFixed(2)} ms (${resource.type})`);
+      if (jsonOutput) {
+        jsonDocument.threads = threads;
+      } else if (markdownOutput) {
+        printMarkdown(renderThreadListMarkdown(threads));
+      } else {
+        printThreadList(threads);
       }
     }
 
-    if (pageLoadSummary.sampleCategories) {
-      const samples = pageLoadSummary.sampleCategories;
-      console.log("\n───── Categories ─────\n");
-      console.log(`  Total samples: ${samples.totalSamples}\n`);
-      console.log("  By category:");
-
-      const sortedCategories = Object.entries(samples.byCategory).sort((a, b) => b[1] - a[1]);
-      for (const [category, count] of sortedCategories) {
-        const percentage = ((count / samples.totalSamples) * 100).toFixed(1);
-        console.log(`    ${category}: ${count} (${percentage}%)`);
+    if (hasTopMarkersFlag && csvOutput && !argv.aggregate) {
+      const markerInstances = offlineProfile
+        ? computeMarkerInstances(offlineProfile, threadSelection, rangeSelection)
+        : await loaded!.markerInstances(threadSelection, rangeSelection);
+      process.stdout.write(markerInstancesToCsv(markerInstances));
+    } else if (hasTopMarkersFlag) {
+      const allMarkerSummaries = offlineProfile
+        ? computeMarkerSummary(offlineProfile, threadSelection, rangeSelection, markerGroupBy, markerConditions)
+        : await loaded!.markerSummary(threadSelection, rangeSelection, markerGroupBy, markerConditions);
+
+      if (jsonOutput) {
+        jsonDocument.topMarkers = argv.topMarkers === undefined ? allMarkerSummaries : allMarkerSummaries.slice(0, argv.topMarkers);
+      } else if (csvOutput) {
+        process.stdout.write(markerSummariesToCsv(argv.topMarkers === undefined ? allMarkerSummaries : allMarkerSummaries.slice(0, argv.topMarkers)));
+      } else if (markdownOutput) {
+        printMarkdown(renderMarkerSummariesMarkdown(allMarkerSummaries, argv.topMarkers));
+      } else {
+        printMarkerSummaries(allMarkerSummaries, argv.topMarkers);
       }
     }
 
-    if (pageLoadSummary.jankPeriods && pageLoadSummary.jankPeriods.length > 0) {
-      console.log("\n───── Jank ─────\n");
-      console.log(`  Total jank periods: ${pageLoadSummary.jankPeriods.length}\n`);
+    if (argv.markers) {
+      const markerList = offlineProfile
+        ? computeMarkerList(offlineProfile, argv.markers, threadSelection, rangeSelection, argv.sort, argv.limit ?? null, markerConditions)
+        : await loaded!.markerList(argv.markers, threadSelection, rangeSelection, argv.sort, argv.limit ?? null, markerConditions);
 
-      for (let i = 0; i < pageLoadSummary.jankPeriods.length; i++) {
-        const jank = pageLoadSummary.jankPeriods[i];
-        console.log(`  Jank ${i + 1}: ${jank.startTime.toFixed(2)} ms - ${jank.duration.toFixed(2)} ms duration`);
+      if (jsonOutput) {
+        jsonDocument.markers = markerList;
+      } else if (markdownOutput) {
+        printMarkdown(renderMarkerListingMarkdown(markerList));
+      } else {
+        printMarkerListing(markerList);
+      }
+    }
 
-        if (jank.topFunctions.length > 0) {
-          console.log("    Top functions:");
-          for (const func of jank.topFunctions) {
-            console.log(`      ${func.name} - ${func.samples} samples`);
-          }
-        }
+    if (hasFlamegraphFlag) {
+      const maxDepth = argv.flamegraph || null;
+      const flamegraphData = offlineProfile
+        ? computeFlamegraphData(offlineProfile, maxDepth, null, argv.focusMarker || null, threadSelection, rangeSelection, offlineTransforms, invertCallstack)
+        : await loaded!.flamegraph(
+            maxDepth,
+            argv.focusFunction || null,
+            argv.focusMarker || null,
+            threadSelection,
+            rangeSelection,
+            transforms,
+            invertCallstack,
+            (url) => { viewUrl = url; }
+          );
+
+      if (offlineProfile && argv.printUrl) {
+        viewUrl = getOfflineViewUrl(offlineProfile, invertCallstack);
+      }
 
-        const sortedCategories = Object.entries(jank.categories).sort((a: any, b: any) => b[1] - a[1]);
-        if (sortedCategories.length > 0) {
-          console.log("    Categories:");
-          for (const [category, count] of sortedCategories) {
-            console.log(`      ${category}: ${count}`);
-          }
+      if (jsonOutput) {
+        jsonDocument.flamegraph = flamegraphData;
+      } else {
+        const filters = [];
+        if (argv.focusFunction) filters.push(`focus: "${argv.focusFunction}"`);
+        if (argv.focusMarker) filters.push(`marker: "${argv.focusMarker}"`);
+        if (rangeSelection) filters.push(`range: ${formatRangeSelection(rangeSelection)}`);
+        filters.push(...transforms.map(formatTransform));
+        if (maxDepth) filters.push(`max depth: ${maxDepth}`);
+        const filterText = filters.length > 0 ? ` (${filters.join(", ")})` : "";
+
+        if (markdownOutput) {
+          printMarkdown(renderFlamegraphMarkdown(flamegraphData, filterText));
+        } else {
+          printFlamegraph(flamegraphData, filterText);
         }
-        console.log();
       }
     }
-  } else if (argv.network) {
-    const networkSummary = await getNetworkResources(browser, actualProfileUrl);
-
-    console.log("\n═══════════════════════════════════════════════════════════════════════════════");
-    console.log("  Network Resources");
-    console.log("═══════════════════════════════════════════════════════════════════════════════\n");
-
-    console.log(`Total resources: ${networkSummary.totalResources}\n`);
 
-    console.log("───── Cache Statistics ─────\n");
-    const sortedCacheStats = Object.entries(networkSummary.cacheStats).sort((a, b) => b[1] - a[1]);
-    for (const [cacheType, count] of sortedCacheStats) {
-      const percentage = ((count / networkSummary.totalResources) * 100).toFixed(1);
-      console.log(`  ${cacheType}: ${count} (${percentage}%)`);
-    }
+    if (argv.calltree) {
+      const callTreeData = offlineProfile
+        ? computeCallTreeData(offlineProfile, argv.calltree || 1, argv.detailed, null, argv.focusMarker || null, threadSelection, rangeSelection, offlineTransforms)
+        : await loaded!.callTree(
+            argv.calltree || 1,
+            argv.detailed,
+            argv.focusFunction || null,
+            argv.focusMarker || null,
+            threadSelection,
+            rangeSelection,
+            transforms,
+            (url) => { viewUrl = url; }
+          );
+
+      // The function list is the inverted call tree.
+      if (offlineProfile && argv.printUrl) {
+        viewUrl = getOfflineViewUrl(offlineProfile, true);
+      }
 
-    console.log("\n───── Timing Totals ─────\n");
-    const sortedPhaseTotals = Object.entries(networkSummary.phaseTotals).sort((a, b) => b[1] - a[1]);
-    for (const [phase, total] of sortedPhaseTotals) {
-      console.log(`  ${phase}: ${total.toFixed(2)} ms`);
+      if (jsonOutput) {
+        jsonDocument.calltree = callTreeData;
+      } else {
+        const filters = [];
+        if (argv.focusFunction) filters.push(`focus: "${argv.focusFunction}"`);
+        if (argv.focusMarker) filters.push(`marker: "${argv.focusMarker}"`);
+        if (rangeSelection) filters.push(`range: ${formatRangeSelection(rangeSelection)}`);
+        filters.push(...transforms.map(formatTransform));
+        const filterText = filters.length > 0 ? ` (${filters.join(", ")})` : "";
+
+        if (markdownOutput) {
+          printMarkdown(renderCallTreeMarkdown(callTreeData, argv.calltree, filterText, argv.detailed, argv.maxPaths));
+        } else {
+          printCallTree(callTreeData, argv.calltree, filterText, argv.detailed, argv.maxPaths);
+        }
+      }
     }
 
-    console.log("\n───── Resources (sorted by start time relative to Navigation::Start) ─────\n");
-
-    for (let i = 0; i < networkSummary.resources.length; i++) {
-      const res = networkSummary.resources[i];
-      const displayUrl = res.url.length > 100 ? res.url.substring(0, 97) + "..." : res.url;
+    if (argv.pageLoad) {
+      const pageLoadSummary = offlineProfile
+        ? computePageLoadSummary(offlineProfile, threadSelection)
+        : await loaded!.pageLoad(threadSelection);
 
-      console.log(`${i + 1}. ${displayUrl}`);
-      console.log(`   Start: ${res.startTime.toFixed(2)} ms | Duration: ${res.duration.toFixed(2)} ms`);
-
-      if (res.httpVersion) {
-        console.log(`   HTTP: ${res.httpVersion}`);
+      if (jsonOutput) {
+        jsonDocument.pageLoad = pageLoadSummary;
+      } else if (markdownOutput) {
+        printMarkdown(renderPageLoadMarkdown(pageLoadSummary));
+      } else {
+        printPageLoadSummary(pageLoadSummary);
       }
+    }
 
-      if (res.cache) {
-        console.log(`   Cache: ${res.cache}`);
+    if (argv.network) {
+      const networkSummary = offlineProfile
+        ? computeNetworkResources(offlineProfile, threadSelection, rangeSelection)
+        : await loaded!.network(threadSelection, rangeSelection);
+
+      if (jsonOutput) {
+        jsonDocument.network = networkSummary;
+      } else if (csvOutput) {
+        process.stdout.write(networkResourcesToCsv(networkSummary));
+      } else if (markdownOutput) {
+        printMarkdown(renderNetworkMarkdown(networkSummary));
+      } else {
+        printNetworkResources(networkSummary);
       }
+    }
 
-      if (res.contentType) {
-        console.log(`   Content-Type: ${res.contentType}`);
-      }
+    if (argv.annotate) {
+      const functionName = argv._[1] as string;
+      await loaded!.annotate(functionName, argv.annotate as 'asm' | 'src' | 'all', threadSelection);
+    }
 
-      if (res.size !== undefined) {
-        const sizeKB = (res.size / 1024).toFixed(2);
-        console.log(`   Size: ${sizeKB} KB`);
-      }
 
-      if (res.phases && res.phases.length > 0) {
-        console.log("   Phases:");
-        for (const phase of res.phases) {
-          console.log(`     ${phase.label}: ${phase.duration.toFixed(2)} ms`);
-        }
-      }
+    await loaded?.close();
+  }
 
-      console.log();
+  if (argv.printUrl && viewUrl !== null) {
+    if (jsonOutput) {
+      jsonDocument.url = viewUrl;
+    } else if (markdownOutput) {
+      printMarkdown(`[Open in the Firefox Profiler](${viewUrl})`);
+    } else {
+      console.log(`Profiler URL: ${viewUrl}\n`);
     }
-  } else if (argv.annotate) {
-    const functionName = argv._[1] as string;
-    await annotateFunction(browser, actualProfileUrl, functionName, argv.annotate as 'asm' | 'src' | 'all');
   }
+
+  if (jsonOutput) {
+    process.stdout.write(JSON.stringify(jsonDocument, null, 2) + "\n");
+  }
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
 } finally {
-  await browser.close();
-  if (samplyProcess) {
-    samplyProcess.kill();
+  if (browser) {
+    await browser.close();
+  }
+  for (const server of profileServers) {
+    server.close();
   }
 }
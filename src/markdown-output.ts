@@ -0,0 +1,359 @@
+import {
+  CallTreeNode,
+  FlameNode,
+  FunctionDiff,
+  FunctionDiffReport,
+  MarkerDiff,
+  MarkerListing,
+  MarkerSummary,
+  NetworkResourceSummary,
+  PageLoadSummary,
+  ThreadInfo,
+} from "./types.js";
+import { formatFlameTree, formatPercentChange, formatSigned, describeMarkerListing } from "./text-output.js";
+
+// GitHub-flavored Markdown output for --format markdown, to paste into pull
+// requests and issues. Each function returns the Markdown of one mode.
+
+// An inline code span that is safe in a table cell. The fence is longer than
+// any run of backticks in the text, and pipes are escaped for the table.
+function code(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${padding}${text}${padding}${fence}`.replace(/\|/g, "\\|");
+}
+
+function table(header: string[], alignRight: boolean[], rows: string[][]): string {
+  const lines = [
+    `| ${header.join(" | ")} |`,
+    `| ${alignRight.map((right) => (right ? "---:" : "---")).join(" | ")} |`,
+    ...rows.map((row) => `| ${row.join(" | ")} |`),
+  ];
+  return lines.join("\n");
+}
+
+// A fenced code block whose fence is longer than any run of backticks inside.
+function codeBlock(lines: string[]): string {
+  const longestRun = Math.max(2, ...lines.flatMap((line) => (line.match(/`+/g) || []).map((run) => run.length)));
+  const fence = "`".repeat(longestRun + 1);
+  return [fence, ...lines, fence].join("\n");
+}
+
+// The summary of a <details> block is HTML, not Markdown.
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function details(summary: string, body: string): string {
+  return `<details>\n<summary>${summary}</summary>\n\n${body}\n\n</details>`;
+}
+
+function ms(value: number): string {
+  return `${value.toFixed(2)} ms`;
+}
+
+function share(count: number, total: number): string {
+  return total > 0 ? `${((count / total) * 100).toFixed(1)}%` : "0.0%";
+}
+
+export function renderThreadListMarkdown(threads: ThreadInfo[]): string {
+  const rows = threads.map((thread) => [
+    String(thread.index),
+    code(thread.name) + (thread.isMainThread ? " (main)" : ""),
+    thread.processName ? `${thread.processType} (${code(thread.processName)})` : thread.processType,
+    thread.pid,
+    thread.tid,
+    String(thread.sampleCount),
+    thread.cpuTime !== null ? ms(thread.cpuTime) : "-",
+  ]);
+  return [
+    `### Threads (${threads.length})`,
+    "",
+    table(["Index", "Name", "Process", "PID", "TID", "Samples", "CPU time"], [true, false, false, true, true, true, true], rows),
+  ].join("\n");
+}
+
+function markerTable(markers: MarkerSummary[]): string {
+  const rows = markers.map((marker, i) => [
+    String(i + 1),
+    code(marker.name),
+    String(marker.count),
+    ms(marker.totalDuration),
+    ms(marker.avgDuration),
+    ms(marker.minDuration),
+    ms(marker.maxDuration),
+  ]);
+  return table(["#", "Marker", "Count", "Total", "Avg", "Min", "Max"], [true, false, true, true, true, true, true], rows);
+}
+
+export function renderMarkerSummariesMarkdown(allMarkerSummaries: MarkerSummary[], topMarkers: number | undefined): string {
+  const sections = [`### Markers`, "", `Total unique markers: ${allMarkerSummaries.length}`];
+
+  if (topMarkers === undefined) {
+    const limit = 5;
+    const byTotalDuration = [...allMarkerSummaries].sort((a, b) => b.totalDuration - a.totalDuration).slice(0, limit);
+    const byMaxDuration = [...allMarkerSummaries].sort((a, b) => b.maxDuration - a.maxDuration).slice(0, limit);
+    sections.push("", `#### Top ${byTotalDuration.length} by total duration`, "", markerTable(byTotalDuration));
+    sections.push("", `#### Top ${byMaxDuration.length} by max single instance duration`, "", markerTable(byMaxDuration));
+  } else {
+    const markerSummaries = allMarkerSummaries.slice(0, topMarkers);
+    sections.push("", `#### ${topMarkers < allMarkerSummaries.length ? `Top ${topMarkers} markers` : "All markers"} by frequency`, "", markerTable(markerSummaries));
+  }
+  return sections.join("\n");
+}
+
+export function renderMarkerListingMarkdown(listing: MarkerListing): string {
+  const sections = [`### ${describeMarkerListing(listing)}`, ""];
+  if (listing.total === 0) {
+    sections.push("No markers with this name found.");
+    return sections.join("\n");
+  }
+
+  const rows = listing.markers.map((marker, i) => [
+    String(i + 1),
+    ms(marker.start),
+    marker.duration !== null ? ms(marker.duration) : "instant",
+    `${code(marker.thread)} (${marker.tid})`,
+    marker.category ?? "-",
+    marker.fields.map((field) => `${field.label}: ${code(field.formatted)}`).join("<br>") || "-",
+  ]);
+  sections.push(table(["#", "Start", "Duration", "Thread", "Category", "Fields"], [true, true, true, false, false, false], rows));
+  return sections.join("\n");
+}
+
+export function renderCallTreeMarkdown(callTreeData: CallTreeNode[], topN: number, filterText: string, detailed: boolean, maxPaths: number): string {
+  const sections = [`### Top ${topN} functions by self time${filterText}`, ""];
+
+  if (callTreeData.length === 0) {
+    sections.push("No data found in profile.");
+    return sections.join("\n");
+  }
+
+  const rows = callTreeData.map((node, i) => [String(i + 1), code(node.name), String(node.selfTime), String(node.totalTime)]);
+  sections.push(table(["#", "Function", "Self samples", "Total samples"], [true, false, true, true], rows));
+
+  if (detailed) {
+    for (let i = 0; i < callTreeData.length; i++) {
+      const node = callTreeData[i];
+      if (!node.callPaths || node.callPaths.length === 0) {
+        continue;
+      }
+
+      const sortedPaths = [...node.callPaths].sort((a, b) => b.samples - a.samples);
+      const pathsToShow = sortedPaths.slice(0, maxPaths);
+      const body: string[] = [];
+      for (let j = 0; j < pathsToShow.length; j++) {
+        const path = pathsToShow[j];
+        body.push(`Call path #${j + 1} - ${path.samples} samples (${share(path.samples, node.selfTime)} of this function):`, "");
+        // Root at the bottom, like the text output.
+        body.push(codeBlock([...path.stack].reverse()), "");
+      }
+
+      const remainingPaths = sortedPaths.length - pathsToShow.length;
+      if (remainingPaths > 0) {
+        const samplesRemaining = sortedPaths.slice(pathsToShow.length).reduce((sum, p) => sum + p.samples, 0);
+        body.push(`${remainingPaths} more call path${remainingPaths > 1 ? "s" : ""}, accounting for ${samplesRemaining} samples.`);
+      }
+
+      const summary = `${i + 1}. <code>${escapeHtml(node.name)}</code>: ${sortedPaths.length} call path${sortedPaths.length > 1 ? "s" : ""}`;
+      sections.push("", details(summary, body.join("\n").trimEnd()));
+    }
+  }
+  return sections.join("\n");
+}
+
+export function renderFlamegraphMarkdown(flamegraphData: FlameNode[], filterText: string): string {
+  const sections = [`### Flamegraph${filterText}`, ""];
+
+  if (flamegraphData.length === 0) {
+    sections.push("No data found in profile.");
+  } else {
+    const totalSamples = flamegraphData.reduce((sum, root) => sum + root.totalTime, 0);
+    sections.push(codeBlock(flamegraphData.flatMap((root) => formatFlameTree(root, totalSamples))));
+  }
+  return sections.join("\n");
+}
+
+export function renderPageLoadMarkdown(pageLoadSummary: PageLoadSummary): string {
+  const sections = ["### Page load", "", `URL: ${pageLoadSummary.url ? code(pageLoadSummary.url) : "not found"}`];
+
+  const metrics = [
+    { name: "FCP", value: pageLoadSummary.firstContentfulPaint },
+    { name: "LCP", value: pageLoadSummary.largestContentfulPaint },
+    { name: "Load", value: pageLoadSummary.load },
+  ].filter((m) => m.value !== null).sort((a, b) => a.value! - b.value!);
+
+  sections.push("", "#### Navigation timing", "");
+  if (metrics.length > 0) {
+    sections.push(table(["Metric", "Time"], [false, true], metrics.map((m) => [m.name, ms(m.value!)])));
+  } else {
+    sections.push("No page load metrics found.");
+  }
+
+  if (pageLoadSummary.resources) {
+    const res = pageLoadSummary.resources;
+    const byType = Object.entries(res.byType).sort((a, b) => b[1] - a[1]);
+    sections.push(
+      "",
+      "#### Resources",
+      "",
+      `${res.totalResources} resources, ${ms(res.avgDuration)} average, ${ms(res.maxDuration)} max.`,
+      "",
+      table(["Type", "Count"], [false, true], byType.map(([type, count]) => [type, String(count)]))
+    );
+    if (res.topResources.length > 0) {
+      const rows = res.topResources.map((resource, i) => [String(i + 1), code(resource.url), ms(resource.duration), resource.type]);
+      sections.push("", details(`Top ${res.topResources.length} longest loads`, table(["#", "URL", "Duration", "Type"], [true, false, true, false], rows)));
+    }
+  }
+
+  if (pageLoadSummary.sampleCategories) {
+    const samples = pageLoadSummary.sampleCategories;
+    const byCategory = Object.entries(samples.byCategory).sort((a, b) => b[1] - a[1]);
+    sections.push(
+      "",
+      "#### Categories",
+      "",
+      table(
+        ["Category", "Samples", "Share"],
+        [false, true, true],
+        byCategory.map(([category, count]) => [category, String(count), share(count, samples.totalSamples)])
+      )
+    );
+  }
+
+  if (pageLoadSummary.jankPeriods && pageLoadSummary.jankPeriods.length > 0) {
+    const rows = pageLoadSummary.jankPeriods.map((jank, i) => {
+      const topCategory = Object.entries(jank.categories).sort((a, b) => b[1] - a[1])[0];
+      return [
+        String(i + 1),
+        ms(jank.startTime),
+        ms(jank.duration),
+        jank.topFunctions.length > 0 ? code(jank.topFunctions[0].name) : "-",
+        topCategory ? topCategory[0] : "-",
+      ];
+    });
+    sections.push(
+      "",
+      `#### Jank (${pageLoadSummary.jankPeriods.length})`,
+      "",
+      table(["#", "Start", "Duration", "Top function", "Top category"], [true, true, true, false, false], rows)
+    );
+  }
+  return sections.join("\n");
+}
+
+export function renderNetworkMarkdown(networkSummary: NetworkResourceSummary): string {
+  const sections = ["### Network resources", "", `Total resources: ${networkSummary.totalResources}`];
+
+  const cacheStats = Object.entries(networkSummary.cacheStats).sort((a, b) => b[1] - a[1]);
+  if (cacheStats.length > 0) {
+    sections.push(
+      "",
+      "#### Cache",
+      "",
+      table(["Cache", "Resources", "Share"], [false, true, true], cacheStats.map(([cache, count]) => [cache, String(count), share(count, networkSummary.totalResources)]))
+    );
+  }
+
+  const phaseTotals = Object.entries(networkSummary.phaseTotals).sort((a, b) => b[1] - a[1]);
+  if (phaseTotals.length > 0) {
+    sections.push("", "#### Timing totals", "", table(["Phase", "Total"], [false, true], phaseTotals.map(([phase, total]) => [phase, ms(total)])));
+  }
+
+  if (networkSummary.resources.length > 0) {
+    const rows = networkSummary.resources.map((res, i) => [
+      String(i + 1),
+      code(res.url),
+      ms(res.startTime),
+      ms(res.duration),
+      res.status,
+      res.cache ?? "-",
+      res.size !== undefined ? `${(res.size / 1024).toFixed(2)} KB` : "-",
+    ]);
+    sections.push(
+      "",
+      "#### Resources (by start time relative to Navigation::Start)",
+      "",
+      table(["#", "URL", "Start", "Duration", "Status", "Cache", "Size"], [true, false, true, true, false, false, true], rows)
+    );
+
+    for (let i = 0; i < networkSummary.resources.length; i++) {
+      const res = networkSummary.resources[i];
+      if (res.phases.length === 0) {
+        continue;
+      }
+      const info = [res.httpVersion, res.contentType].filter((value) => value !== undefined).join(", ");
+      const body = [
+        ...(info ? [info, ""] : []),
+        table(["Phase", "Duration"], [false, true], res.phases.map((phase) => [phase.label, ms(phase.duration)])),
+      ];
+      sections.push("", details(`${i + 1}. <code>${escapeHtml(res.url)}</code>`, body.join("\n")));
+    }
+  }
+  return sections.join("\n");
+}
+
+function functionDiffList(title: string, diffs: FunctionDiff[], totalSamples: number, side: "base" | "candidate"): string[] {
+  if (diffs.length === 0) {
+    return [];
+  }
+  const rows = diffs.map((diff) => {
+    const selfTime = side === "base" ? diff.baseSelfTime : diff.candidateSelfTime;
+    const totalTime = side === "base" ? diff.baseTotalTime : diff.candidateTotalTime;
+    return [code(diff.name), String(totalTime), share(totalTime, totalSamples), String(selfTime)];
+  });
+  return ["", `#### ${title}`, "", table(["Function", "Total samples", "Share", "Self samples"], [false, true, true, true], rows)];
+}
+
+export function renderCallTreeDiffMarkdown(report: FunctionDiffReport, limit: number, filterText: string): string {
+  const totalChange = report.baseTotalSamples > 0
+    ? ` (${formatSigned(((report.candidateTotalSamples - report.baseTotalSamples) / report.baseTotalSamples) * 100, 1)}%)`
+    : "";
+  const sections = [
+    `### Top ${limit} function changes by share of self time${filterText}`,
+    "",
+    `Total samples: ${report.baseTotalSamples} → ${report.candidateTotalSamples}${totalChange}`,
+    "",
+  ];
+
+  if (report.changed.length === 0) {
+    sections.push("No functions found in both profiles.");
+  } else {
+    const rows = report.changed.map((fn, i) => [
+      String(i + 1),
+      code(fn.name),
+      `${fn.baseSelfTime} → ${fn.candidateSelfTime}`,
+      `${formatSigned(fn.selfDelta)} (${formatPercentChange(fn.selfDeltaPercent)})`,
+      `${(fn.baseSelfShare * 100).toFixed(1)}% → ${(fn.candidateSelfShare * 100).toFixed(1)}%`,
+      `${formatSigned(fn.selfShareDelta * 100, 1)} pts`,
+      `${fn.baseTotalTime} → ${fn.candidateTotalTime} (${formatPercentChange(fn.totalDeltaPercent)})`,
+    ]);
+    sections.push(table(
+      ["#", "Function", "Self", "Self change", "Share", "Share change", "Total"],
+      [true, false, true, true, true, true, true],
+      rows
+    ));
+  }
+
+  sections.push(...functionDiffList("New functions (only in candidate)", report.added, report.candidateTotalSamples, "candidate"));
+  sections.push(...functionDiffList("Vanished functions (only in base)", report.removed, report.baseTotalSamples, "base"));
+  return sections.join("\n");
+}
+
+export function renderMarkerDiffsMarkdown(markerDiffs: MarkerDiff[], filterText: string): string {
+  const rows = markerDiffs.map((marker, i) => [
+    String(i + 1),
+    code(marker.name) + (marker.status === "changed" ? "" : marker.status === "added" ? " (new)" : " (vanished)"),
+    `${marker.baseTotalDuration.toFixed(2)} → ${marker.candidateTotalDuration.toFixed(2)} ms`,
+    `${formatSigned(marker.totalDurationDelta, 2)} ms (${formatPercentChange(marker.totalDurationDeltaPercent)})`,
+    `${marker.baseCount} → ${marker.candidateCount}`,
+    `${marker.baseAvgDuration.toFixed(2)} → ${marker.candidateAvgDuration.toFixed(2)} ms`,
+  ]);
+  return [
+    `### Top ${markerDiffs.length} marker changes by total duration${filterText}`,
+    "",
+    table(["#", "Marker", "Total", "Change", "Count", "Avg"], [true, false, true, true, true, true], rows),
+  ].join("\n");
+}
@@ -0,0 +1,231 @@
+import { MarkerField, MarkerListEntry, MarkerListing } from "./types.js";
+
+// Marker schemas, from the profile's meta, describe the payload of each marker
+// type: the label of each field and how the profiler formats its value. Older
+// processed profiles list the fields in `data`, next to static label/value
+// rows, newer ones in `fields`.
+
+export interface MarkerSchemaField {
+  key: string;
+  label?: string;
+  format: string | { type: string };
+  hidden?: boolean;
+}
+
+export interface MarkerSchema {
+  name: string;
+  fields?: MarkerSchemaField[];
+  data?: Array<MarkerSchemaField | { label: string; value: string }>;
+}
+
+// Fields in these formats hold an index into the thread's string table.
+const STRING_INDEX_FORMATS = ["unique-string", "flow-id", "terminating-flow-id"];
+
+export function getMarkerSchemaFields(schema: MarkerSchema | undefined): MarkerSchemaField[] {
+  if (!schema) {
+    return [];
+  }
+  const fields = schema.fields ?? schema.data ?? [];
+  return fields.filter((field): field is MarkerSchemaField => "key" in field);
+}
+
+export function getMarkerSchemaByName(markerSchema: MarkerSchema[] | undefined): Map<string, MarkerSchema> {
+  return new Map((markerSchema ?? []).map((schema) => [schema.name, schema]));
+}
+
+// The payload with the string table indexes of its string fields replaced by
+// the strings.
+export function resolveMarkerStrings(data: any, schema: MarkerSchema | undefined, stringArray: string[]): any {
+  const stringFields = getMarkerSchemaFields(schema).filter((field) => STRING_INDEX_FORMATS.includes(field.format as string));
+  if (!data || stringFields.length === 0) {
+    return data;
+  }
+  const resolved = { ...data };
+  for (const field of stringFields) {
+    if (typeof resolved[field.key] === "number") {
+      resolved[field.key] = stringArray[resolved[field.key]];
+    }
+  }
+  return resolved;
+}
+
+// A --where condition on a payload field.
+export interface MarkerCondition {
+  field: string;
+  value: string;
+}
+
+export function parseMarkerCondition(text: string): MarkerCondition {
+  const index = text.indexOf("=");
+  if (index <= 0) {
+    throw new Error(`Invalid --where "${text}", expected field=value, e.g. eventType=click`);
+  }
+  return { field: text.slice(0, index).trim(), value: text.slice(index + 1).trim() };
+}
+
+// A payload field named by its key or, ignoring case, by its label in the
+// schema, e.g. "eventType" or "Event Type".
+function findMarkerSchemaField(schema: MarkerSchema | undefined, field: string): MarkerSchemaField | undefined {
+  const fields = getMarkerSchemaFields(schema);
+  return fields.find((schemaField) => schemaField.key === field) ??
+    fields.find((schemaField) => schemaField.label !== undefined && schemaField.label.toLowerCase() === field.toLowerCase());
+}
+
+// A payload field's value as text, or null when the marker does not have it.
+// The payload's strings must be resolved.
+export function getMarkerFieldValue(data: any, schema: MarkerSchema | undefined, field: string): string | null {
+  if (!data || typeof data !== "object") {
+    return null;
+  }
+  const value = data[findMarkerSchemaField(schema, field)?.key ?? field];
+  return value === undefined || value === null || typeof value === "object" ? null : String(value);
+}
+
+export function matchesMarkerConditions(data: any, schema: MarkerSchema | undefined, conditions: MarkerCondition[]): boolean {
+  return conditions.every((condition) => getMarkerFieldValue(data, schema, condition.field) === condition.value);
+}
+
+// The name that a marker is summarized under: its name, followed by the value
+// of the --group-by field when it has one, e.g. "DOMEvent (click)".
+export function getMarkerGroupName(name: string, data: any, schema: MarkerSchema | undefined, groupBy: string | null): string {
+  const value = groupBy !== null ? getMarkerFieldValue(data, schema, groupBy) : null;
+  return value !== null ? `${name} (${value})` : name;
+}
+
+function formatBytes(bytes: number): string {
+  if (Math.abs(bytes) < 1024) {
+    return `${bytes} B`;
+  }
+  if (Math.abs(bytes) < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(2)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+// Formats a field's value like the profiler's marker tooltips. Timestamps
+// (format "time") are shown relative to `timeOrigin`, like the marker times.
+export function formatMarkerValue(value: unknown, format: MarkerSchemaField["format"], timeOrigin: number): string {
+  if (Array.isArray(value)) {
+    return value.map(String).join(", ");
+  }
+  if (typeof value !== "number") {
+    return String(value);
+  }
+  switch (typeof format === "string" ? format : format.type) {
+    case "duration":
+    case "milliseconds":
+      return `${value.toFixed(2)} ms`;
+    case "time":
+      return `${(value - timeOrigin).toFixed(2)} ms`;
+    case "seconds":
+      return `${value.toFixed(3)} s`;
+    case "microseconds":
+      return `${value.toFixed(1)} µs`;
+    case "nanoseconds":
+      return `${value} ns`;
+    case "bytes":
+      return formatBytes(value);
+    case "percentage":
+      return `${(value * 100).toFixed(1)}%`;
+    case "integer":
+      return String(Math.round(value));
+    case "decimal":
+      return String(Number(value.toFixed(3)));
+    default:
+      return String(value);
+  }
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return ["string", "number", "boolean"].includes(typeof value);
+}
+
+/**
+ * The payload fields of a marker whose strings are resolved, in the order of
+ * its schema and labelled by it. Markers without a schema get their scalar
+ * fields as they are.
+ */
+export function decodeMarkerFields(data: any, schema: MarkerSchema | undefined, timeOrigin: number): MarkerField[] {
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+  if (!schema) {
+    return Object.entries(data)
+      .filter(([key, value]) => key !== "type" && key !== "name" && isScalar(value))
+      .map(([key, value]) => ({ key, label: key, value: value as string | number | boolean, formatted: String(value) }));
+  }
+
+  const fields: MarkerField[] = [];
+  for (const field of getMarkerSchemaFields(schema)) {
+    const value = data[field.key];
+    if (field.hidden || value === undefined || value === null || !(isScalar(value) || Array.isArray(value))) {
+      continue;
+    }
+    fields.push({
+      key: field.key,
+      label: field.label ?? field.key,
+      value: Array.isArray(value) ? value.map(String) : value,
+      formatted: formatMarkerValue(value, field.format, timeOrigin),
+    });
+  }
+  return fields;
+}
+
+// A marker as read from the profile: times on the profile's clock, and its
+// payload with the strings resolved.
+export interface RawMarkerEntry {
+  name: string;
+  start: number;
+  end: number | null;
+  thread: string;
+  tid: string;
+  category: string | null;
+  data: any;
+}
+
+/**
+ * Lists the markers named `name`, with times relative to the navigation start
+ * when the selected threads have one and to the profile's zero otherwise.
+ * Markers sorted by duration come longest first, instant markers last.
+ */
+export function buildMarkerListing(
+  name: string,
+  entries: RawMarkerEntry[],
+  markerSchema: MarkerSchema[] | undefined,
+  navigationStart: number | null,
+  zeroAt: number,
+  sortBy: MarkerListing["sortBy"],
+  limit: number | null
+): MarkerListing {
+  const schemaByName = getMarkerSchemaByName(markerSchema);
+  const timeOrigin = navigationStart ?? zeroAt;
+
+  const markers: MarkerListEntry[] = entries.map((entry) => {
+    const type = entry.data && typeof entry.data.type === "string" ? entry.data.type : null;
+    return {
+      name: entry.name,
+      type,
+      start: entry.start - timeOrigin,
+      end: entry.end !== null ? entry.end - timeOrigin : null,
+      duration: entry.end !== null ? entry.end - entry.start : null,
+      thread: entry.thread,
+      tid: entry.tid,
+      category: entry.category,
+      fields: decodeMarkerFields(entry.data, type !== null ? schemaByName.get(type) : undefined, timeOrigin),
+    };
+  });
+
+  if (sortBy === "duration") {
+    markers.sort((a, b) => (b.duration ?? -1) - (a.duration ?? -1) || a.start - b.start);
+  } else {
+    markers.sort((a, b) => a.start - b.start);
+  }
+
+  return {
+    name,
+    timeOrigin: navigationStart !== null ? "navigation-start" : "profile-start",
+    sortBy,
+    total: markers.length,
+    markers: limit !== null ? markers.slice(0, limit) : markers,
+  };
+}
@@ -0,0 +1,265 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { FlameNode } from "./types.js";
+import { ProfileLoader, ReplBackend, toView } from "./repl.js";
+import { captureOutput } from "./text-output.js";
+
+const transformSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("focus-function"), funcName: z.string() }),
+  z.object({ type: z.literal("merge-function"), funcName: z.string() }),
+  z.object({ type: z.literal("merge-call-node"), callPath: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal("drop-function"), funcName: z.string() }),
+  z.object({ type: z.literal("focus-subtree"), callPath: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal("focus-category"), category: z.string() }),
+  z.object({ type: z.literal("collapse-resource"), resourceName: z.string() }),
+  z.object({ type: z.literal("collapse-recursion"), funcName: z.string() }),
+  z.object({ type: z.literal("collapse-direct-recursion"), funcName: z.string() }),
+  z.object({ type: z.literal("collapse-function-subtree"), funcName: z.string() }),
+]);
+
+const profileInput = {
+  profile: z.string().optional()
+    .describe("Profile URL or local file path; defaults to the profile the server was started with"),
+};
+
+const threadInputs = {
+  thread: z.string().optional()
+    .describe("Comma-separated thread names, indexes or TIDs (several threads are merged)"),
+  process: z.string().optional()
+    .describe("PID, name or type of the process whose threads to analyze"),
+};
+
+const rangeInputs = {
+  range: z.string().optional()
+    .describe("Time range relative to the profile start, e.g. 1200ms-3400ms"),
+  rangeFromMarker: z.string().optional()
+    .describe("Start the range at this marker (the whole marker if rangeToMarker is not given)"),
+  rangeToMarker: z.string().optional()
+    .describe("End the range at the first instance of this marker after the range start"),
+  rangeMarkerIndex: z.number().int().min(1).optional()
+    .describe("Use the Nth instance (1 = first) of rangeFromMarker"),
+};
+
+const sampleInputs = {
+  focusFunction: z.string().optional()
+    .describe("Only keep samples with this function on the stack, and start stacks at it"),
+  focusMarker: z.string().optional()
+    .describe("Only keep samples inside markers matching this search, e.g. \"Jank\" or \"-async,-sync\""),
+  transforms: z.array(transformSchema).optional()
+    .describe("Call tree transforms, applied in order after focusFunction"),
+};
+
+const callTreeNodeSchema = z.object({
+  name: z.string(),
+  selfTime: z.number(),
+  totalTime: z.number(),
+  stack: z.array(z.string()),
+  callPaths: z.array(z.object({ stack: z.array(z.string()), samples: z.number() })).optional(),
+});
+
+const flameNodeSchema: z.ZodType<FlameNode> = z.lazy(() => z.object({
+  name: z.string(),
+  selfTime: z.number(),
+  totalTime: z.number(),
+  children: z.array(flameNodeSchema),
+}));
+
+const markerSummarySchema = z.object({
+  name: z.string(),
+  count: z.number(),
+  totalDuration: z.number(),
+  avgDuration: z.number(),
+  minDuration: z.number(),
+  maxDuration: z.number(),
+});
+
+const threadInfoSchema = z.object({
+  index: z.number(),
+  name: z.string(),
+  processType: z.string(),
+  processName: z.string().nullable(),
+  pid: z.string(),
+  tid: z.string(),
+  isMainThread: z.boolean(),
+  sampleCount: z.number(),
+  cpuTime: z.number().nullable(),
+});
+
+const pageLoadSummarySchema = {
+  url: z.string().nullable(),
+  navigationStart: z.number().nullable(),
+  load: z.number().nullable(),
+  firstContentfulPaint: z.number().nullable(),
+  largestContentfulPaint: z.number().nullable(),
+  resources: z.object({
+    totalResources: z.number(),
+    byType: z.record(z.number()),
+    avgDuration: z.number(),
+    maxDuration: z.number(),
+    topResources: z.array(z.object({ url: z.string(), duration: z.number(), type: z.string() })),
+  }).nullable(),
+  sampleCategories: z.object({
+    totalSamples: z.number(),
+    byCategory: z.record(z.number()),
+  }).nullable(),
+  jankPeriods: z.array(z.object({
+    startTime: z.number(),
+    duration: z.number(),
+    topFunctions: z.array(z.object({ name: z.string(), samples: z.number() })),
+    categories: z.record(z.number()),
+  })).nullable(),
+};
+
+const networkResourceSummarySchema = {
+  resources: z.array(z.object({
+    url: z.string(),
+    startTime: z.number(),
+    duration: z.number(),
+    status: z.string(),
+    contentType: z.string().optional(),
+    size: z.number().optional(),
+    httpVersion: z.string().optional(),
+    cache: z.string().optional(),
+    phases: z.array(z.object({ label: z.string(), duration: z.number() })),
+  })),
+  totalResources: z.number(),
+  phaseTotals: z.record(z.number()),
+  cacheStats: z.record(z.number()),
+};
+
+function toolResult<T extends object>(structuredContent: T) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(structuredContent, null, 2) }],
+    structuredContent: structuredContent as Record<string, unknown>,
+  };
+}
+
+/**
+ * Serves the profile queries as MCP tools over stdin and stdout, until the
+ * client disconnects. Every tool takes the profile to query, and profiles stay
+ * loaded between calls. stdout carries the protocol, so nothing else may be
+ * printed to it.
+ */
+export async function runMcpServer(loadProfile: ProfileLoader, defaultProfile: string | null): Promise<void> {
+  const profiles = new Map<string, Promise<ReplBackend>>();
+
+  const getBackend = (profile: string | undefined): Promise<ReplBackend> => {
+    const key = profile ?? defaultProfile;
+    if (key === null) {
+      throw new Error("No profile given, and the server was started without a default profile");
+    }
+    let backend = profiles.get(key);
+    if (!backend) {
+      backend = loadProfile(key);
+      profiles.set(key, backend);
+      // A profile that failed to load is loaded again on the next call.
+      backend.catch(() => profiles.delete(key));
+    }
+    return backend;
+  };
+
+  const server = new McpServer({ name: "profiler-cli", version: "1.0.0" });
+
+  server.registerTool("list_threads", {
+    title: "List threads",
+    description: "List every thread of the profile with its process, PID, TID, sample count and CPU time.",
+    inputSchema: { ...profileInput },
+    outputSchema: { threads: z.array(threadInfoSchema) },
+    annotations: { readOnlyHint: true },
+  }, async (args) => {
+    const backend = await getBackend(args.profile);
+    return toolResult({ threads: await backend.threads() });
+  });
+
+  server.registerTool("get_call_tree", {
+    title: "Call tree",
+    description: "Top functions by self time (inverted call tree). With detailed, each function also lists its most common call paths.",
+    inputSchema: {
+      ...profileInput,
+      limit: z.number().int().min(1).default(10).describe("Number of functions to return"),
+      detailed: z.boolean().default(false).describe("Include call paths for each function"),
+      ...sampleInputs,
+      ...threadInputs,
+      ...rangeInputs,
+    },
+    outputSchema: { functions: z.array(callTreeNodeSchema) },
+    annotations: { readOnlyHint: true },
+  }, async (args) => {
+    const backend = await getBackend(args.profile);
+    return toolResult({ functions: await backend.callTree(toView(args), args.limit, args.detailed) });
+  });
+
+  server.registerTool("get_flamegraph", {
+    title: "Flamegraph",
+    description: "Call tree from the roots down, with self and total sample counts per node.",
+    inputSchema: {
+      ...profileInput,
+      maxDepth: z.number().int().min(1).optional().describe("Maximum depth of the tree"),
+      ...sampleInputs,
+      ...threadInputs,
+      ...rangeInputs,
+    },
+    outputSchema: { roots: z.array(flameNodeSchema) },
+    annotations: { readOnlyHint: true },
+  }, async (args) => {
+    const backend = await getBackend(args.profile);
+    return toolResult({ roots: await backend.flamegraph(toView(args), args.maxDepth ?? null) });
+  });
+
+  server.registerTool("get_marker_summary", {
+    title: "Marker summary",
+    description: "Count and duration statistics for every marker name, sorted by total duration.",
+    inputSchema: { ...profileInput, ...threadInputs, ...rangeInputs },
+    outputSchema: { markers: z.array(markerSummarySchema) },
+    annotations: { readOnlyHint: true },
+  }, async (args) => {
+    const backend = await getBackend(args.profile);
+    const markers = await backend.markers(toView(args));
+    return toolResult({ markers: markers.sort((a, b) => b.totalDuration - a.totalDuration) });
+  });
+
+  server.registerTool("get_page_load_summary", {
+    title: "Page load summary",
+    description: "Navigation timings (load, FCP, LCP), resource statistics, CPU categories and jank periods of a page load.",
+    inputSchema: { ...profileInput, ...threadInputs },
+    outputSchema: pageLoadSummarySchema,
+    annotations: { readOnlyHint: true },
+  }, async (args) => {
+    const backend = await getBackend(args.profile);
+    return toolResult(await backend.pageLoad(toView(args)));
+  });
+
+  server.registerTool("get_network_resources", {
+    title: "Network resources",
+    description: "Every network request with its timing phases, cache status, size and content type.",
+    inputSchema: { ...profileInput, ...threadInputs, ...rangeInputs },
+    outputSchema: networkResourceSummarySchema,
+    annotations: { readOnlyHint: true },
+  }, async (args) => {
+    const backend = await getBackend(args.profile);
+    return toolResult(await backend.network(toView(args)));
+  });
+
+  server.registerTool("annotate_function", {
+    title: "Annotate function",
+    description: "Per-instruction (asm) or per-line (src) sample counts of a function, as text. Needs symbolication, so it is not available with --offline.",
+    inputSchema: {
+      ...profileInput,
+      functionName: z.string().describe("Name of the function to annotate"),
+      mode: z.enum(["asm", "src", "all"]).default("all").describe("Assembly, source, or both"),
+      ...threadInputs,
+    },
+    annotations: { readOnlyHint: true },
+  }, async (args) => {
+    const backend = await getBackend(args.profile);
+    const text = await captureOutput((log) => backend.annotate(toView(args), args.mode, args.functionName, log));
+    return { content: [{ type: "text" as const, text }] };
+  });
+
+  const closed = new Promise<void>((resolve) => {
+    server.server.onclose = () => resolve();
+  });
+  await server.connect(new StdioServerTransport());
+  await closed;
+}
@@ -0,0 +1,1345 @@
+import { createReadStream } from "fs";
+import { open, readFile } from "fs/promises";
+import { createGunzip, gunzipSync } from "zlib";
+import { CallTreeNode, CallPath, MarkerSummary, MarkerInstance, MarkerListing, FlameNode, FunctionLocation, ThreadFlamegraph, PageLoadSummary, NetworkResourceSummary, NetworkResourceTiming, JankPeriod, Resource } from "./types.js";
+import { Category, Profile, RawThread } from "./profile-format.js";
+import { processGeckoProfile } from "./gecko.js";
+import { ThreadSelection, getThreadInfoList, resolveThreadSelection } from "./threads.js";
+import { RangeSelection, TimeRange, hasRangeSelection, resolveRangeSelection } from "./range.js";
+import { Transform } from "./transforms.js";
+import { UrlNameTables, UrlState, toUrlTransforms } from "./url-state.js";
+import { MarkerCondition, RawMarkerEntry, buildMarkerListing, getMarkerGroupName, getMarkerSchemaByName, matchesMarkerConditions, resolveMarkerStrings } from "./marker-schema.js";
+
+// Offline engine: computes the same results as the browser-driven queries in
+// profiler.ts, but directly from a processed profile loaded from disk (Gecko
+// profiles are converted first, see gecko.ts). No symbolication happens here,
+// so function names are whatever the profile stores.
+
+const MARKER_PHASE_INSTANT = 0;
+const MARKER_PHASE_INTERVAL = 1;
+const MARKER_PHASE_INTERVAL_START = 2;
+const MARKER_PHASE_INTERVAL_END = 3;
+
+interface ProfileSample {
+  time: number;
+  weight: number;
+  // Indexes into SampleView.funcNames, ordered from the root to the leaf frame.
+  stack: number[];
+  // The category of each frame in stack.
+  categories: number[];
+  category: number | null;
+}
+
+interface SampleView {
+  funcNames: string[];
+  // The resource (library or origin) name of each function, if it has one.
+  funcResources: Array<string | null>;
+  samples: ProfileSample[];
+}
+
+interface StackPath {
+  stack: number[];
+  categories: number[];
+}
+
+interface ProfileMarker {
+  name: string;
+  start: number;
+  end: number | null;
+  category: number;
+  data: any;
+}
+
+interface TreeNode {
+  func: number;
+  self: number;
+  total: number;
+  children: Map<number, TreeNode>;
+}
+
+export type ProfileFormat = "processed" | "gecko";
+
+// The format is told from the content, as both are saved as .json or .json.gz.
+export function detectProfileFormat(json: any): ProfileFormat | null {
+  if (!json || !Array.isArray(json.threads)) {
+    return null;
+  }
+  return detectProfileMetaFormat(json.meta);
+}
+
+// The format from the profile's meta alone, see readProfileMeta.
+export function detectProfileMetaFormat(meta: any): ProfileFormat | null {
+  if (!meta || typeof meta !== "object") {
+    return null;
+  }
+  if (meta.preprocessedProfileVersion !== undefined) {
+    return "processed";
+  }
+  return typeof meta.version === "number" && typeof meta.startTime === "number" ? "gecko" : null;
+}
+
+function isGzipped(buffer: Buffer): boolean {
+  return buffer[0] === 0x1f && buffer[1] === 0x8b;
+}
+
+// Reads a profile file, gzipped or not.
+export async function readProfileJson(path: string): Promise<any> {
+  let buffer = await readFile(path);
+  if (isGzipped(buffer)) {
+    buffer = gunzipSync(buffer);
+  }
+  return JSON.parse(buffer.toString("utf-8"));
+}
+
+/**
+ * Reads the top-level `meta` object of a profile file, gzipped or not, or null
+ * when it has none. The file is streamed and only the meta object is kept, so
+ * that profiles which are only served do not have to be parsed in full.
+ */
+export async function readProfileMeta(path: string): Promise<any | null> {
+  const handle = await open(path);
+  let header: Buffer;
+  try {
+    ({ buffer: header } = await handle.read(Buffer.alloc(2), 0, 2, 0));
+  } finally {
+    await handle.close();
+  }
+
+  const file = createReadStream(path);
+  const stream = isGzipped(header) ? file.pipe(createGunzip()) : file;
+  stream.setEncoding("utf-8");
+
+  // A scanner for the top-level keys: `key` is the string being read, and
+  // `metaNext` is set between `"meta":` and its value.
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let key = "";
+  let lastKey: string | null = null;
+  let metaNext = false;
+  let meta: string[] | null = null;
+
+  try {
+    for await (const chunk of stream as AsyncIterable<string>) {
+      let metaStart = meta !== null ? 0 : -1;
+      for (let i = 0; i < chunk.length; i++) {
+        const char = chunk[i];
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === "\"") {
+            inString = false;
+            lastKey = key;
+          } else if (depth === 1 && meta === null) {
+            key += char;
+          }
+          continue;
+        }
+        switch (char) {
+          case "\"":
+            inString = true;
+            key = "";
+            break;
+          case "{":
+          case "[":
+            if (metaNext && meta === null) {
+              meta = [];
+              metaStart = i;
+            }
+            depth++;
+            break;
+          case "}":
+          case "]":
+            depth--;
+            if (meta !== null && depth === 1) {
+              meta.push(chunk.slice(metaStart, i + 1));
+              return JSON.parse(meta.join(""));
+            }
+            break;
+          case ":":
+            metaNext = depth === 1 && lastKey === "meta";
+            break;
+          case ",":
+            metaNext = false;
+            break;
+        }
+      }
+      if (meta !== null) {
+        meta.push(chunk.slice(metaStart));
+      }
+    }
+    return null;
+  } finally {
+    file.destroy();
+    stream.destroy();
+  }
+}
+
+// Loads a processed profile, or a Gecko profile converted to the processed format.
+export async function loadProfileFile(path: string): Promise<Profile> {
+  const json = await readProfileJson(path);
+  switch (detectProfileFormat(json)) {
+    case "processed":
+      return json;
+    case "gecko":
+      return processGeckoProfile(json);
+    default:
+      throw new Error(`${path} is not a Firefox Profiler or Gecko profile`);
+  }
+}
+
+export function getStringArray(profile: Profile, thread: RawThread): string[] {
+  return thread.stringArray || (profile.shared ? profile.shared.stringArray : []);
+}
+
+// Mirrors the profiler's initial selection closely enough for most profiles: the
+// thread the profile asks for, otherwise the busiest main thread.
+function getDefaultThreadIndex(profile: Profile): number {
+  const initial = profile.meta.initialSelectedThreads;
+  if (initial && initial.length > 0 && profile.threads[initial[0]]) {
+    return initial[0];
+  }
+
+  let bestIndex = 0;
+  let bestSamples = -1;
+  for (let i = 0; i < profile.threads.length; i++) {
+    const thread = profile.threads[i];
+    if (thread.isMainThread && thread.samples.length > bestSamples) {
+      bestIndex = i;
+      bestSamples = thread.samples.length;
+    }
+  }
+  return bestIndex;
+}
+
+export function getSelectedThreadIndexes(profile: Profile, threadSelection: ThreadSelection | null): number[] {
+  if (threadSelection === null || (threadSelection.thread === null && threadSelection.process === null)) {
+    return [getDefaultThreadIndex(profile)];
+  }
+  return resolveThreadSelection(getThreadInfoList(profile), threadSelection);
+}
+
+// The profile's zero, which relative times in the UI and in --range are based on.
+function getZeroAt(profile: Profile): number {
+  if (profile.meta.profilingStartTime !== undefined) {
+    return profile.meta.profilingStartTime;
+  }
+
+  let zeroAt = Infinity;
+  for (const thread of profile.threads) {
+    const times = getSampleTimes(thread);
+    if (times.length > 0) {
+      zeroAt = Math.min(zeroAt, times[0]);
+    }
+    for (const startTime of thread.markers.startTime) {
+      if (startTime !== null) {
+        zeroAt = Math.min(zeroAt, startTime);
+      }
+    }
+  }
+  return zeroAt === Infinity ? 0 : zeroAt;
+}
+
+function getProfileEnd(profile: Profile): number {
+  if (profile.meta.profilingEndTime !== undefined) {
+    return profile.meta.profilingEndTime;
+  }
+
+  let end = -Infinity;
+  for (const thread of profile.threads) {
+    const times = getSampleTimes(thread);
+    if (times.length > 0) {
+      end = Math.max(end, times[times.length - 1] + profile.meta.interval);
+    }
+    for (const endTime of thread.markers.endTime) {
+      if (endTime !== null) {
+        end = Math.max(end, endTime);
+      }
+    }
+  }
+  return end === -Infinity ? getZeroAt(profile) : end;
+}
+
+export function getSelectedRange(
+  profile: Profile,
+  threadIndexes: number[],
+  rangeSelection: RangeSelection | null
+): TimeRange | null {
+  if (!hasRangeSelection(rangeSelection)) {
+    return null;
+  }
+
+  const markers = getThreadMarkers(profile, threadIndexes).map((marker) => ({
+    name: getMarkerName(marker),
+    start: marker.start,
+    end: marker.end,
+  }));
+  return resolveRangeSelection(rangeSelection, getZeroAt(profile), getProfileEnd(profile), markers);
+}
+
+// Like the profiler's committed ranges, markers are kept when they overlap the
+// range and are not clipped to it.
+function getRangeFilteredMarkers(
+  profile: Profile,
+  threadIndexes: number[],
+  rangeSelection: RangeSelection | null
+): ProfileMarker[] {
+  const markers = getThreadMarkers(profile, threadIndexes);
+  const range = getSelectedRange(profile, threadIndexes, rangeSelection);
+  if (range === null) {
+    return markers;
+  }
+  return markers.filter((marker) => marker.start < range.end && (marker.end ?? marker.start) >= range.start);
+}
+
+export function getSampleTimes(thread: RawThread): number[] {
+  const { samples } = thread;
+  if (samples.time) {
+    return samples.time;
+  }
+
+  const times: number[] = [];
+  let time = 0;
+  const deltas = samples.timeDeltas || [];
+  for (let i = 0; i < samples.length; i++) {
+    time += deltas[i] || 0;
+    times.push(time);
+  }
+  return times;
+}
+
+function getDefaultCategory(profile: Profile): number {
+  const categories = profile.meta.categories || [];
+  const index = categories.findIndex((category) => category.color === "grey");
+  return index === -1 ? 0 : index;
+}
+
+export function computeStackCategories(profile: Profile, thread: RawThread): number[] {
+  const { stackTable, frameTable } = thread;
+  if (stackTable.category) {
+    return stackTable.category;
+  }
+
+  const defaultCategory = getDefaultCategory(profile);
+  const categories: number[] = new Array(stackTable.length);
+  for (let i = 0; i < stackTable.length; i++) {
+    const frameCategory = frameTable.category[stackTable.frame[i]];
+    const prefix = stackTable.prefix[i];
+    if (frameCategory !== null && frameCategory !== undefined) {
+      categories[i] = frameCategory;
+    } else {
+      categories[i] = prefix !== null ? categories[prefix] : defaultCategory;
+    }
+  }
+  return categories;
+}
+
+// Builds the samples of the given threads. Functions are told apart by their
+// name, resource and file, so that same-named functions of different files get
+// their own call nodes like in the profiler. With several threads this is a
+// merged view: the same function of each thread shares an index, and samples
+// are interleaved by time.
+function getSampleView(profile: Profile, threadIndexes: number[]): SampleView {
+  const funcNames: string[] = [];
+  const funcResources: Array<string | null> = [];
+  const funcIndexByKey = new Map<string, number>();
+  const viewSamples: ProfileSample[] = [];
+
+  for (const threadIndex of threadIndexes) {
+    const thread = profile.threads[threadIndex];
+    const stringArray = getStringArray(profile, thread);
+    const { samples, stackTable, frameTable, funcTable, resourceTable } = thread;
+
+    const viewFuncForThreadFunc: number[] = new Array(funcTable.length);
+    for (let i = 0; i < funcTable.length; i++) {
+      const name = stringArray[funcTable.name[i]];
+      const resource = funcTable.resource[i];
+      const resourceName = resource !== -1 && resource !== null && resource !== undefined ? stringArray[resourceTable.name[resource]] : null;
+      const key = [name, resourceName ?? "", getFuncFileName(profile, thread, i) ?? ""].join("\n");
+      let viewIndex = funcIndexByKey.get(key);
+      if (viewIndex === undefined) {
+        viewIndex = funcNames.length;
+        funcNames.push(name);
+        funcResources.push(resourceName);
+        funcIndexByKey.set(key, viewIndex);
+      }
+      viewFuncForThreadFunc[i] = viewIndex;
+    }
+
+    const stackCategories = computeStackCategories(profile, thread);
+
+    // Stacks are shared between samples, so each sampled path is built once,
+    // walking from the leaf up its prefixes, and reused.
+    const stackPaths: Array<StackPath | undefined> = new Array(stackTable.length);
+    const getStackPath = (stackIndex: number): StackPath => {
+      const cached = stackPaths[stackIndex];
+      if (cached) {
+        return cached;
+      }
+      const stack: number[] = [];
+      const categories: number[] = [];
+      for (let index: number | null = stackIndex; index !== null; index = stackTable.prefix[index]) {
+        stack.push(viewFuncForThreadFunc[frameTable.func[stackTable.frame[index]]]);
+        categories.push(stackCategories[index]);
+      }
+      const path = { stack: stack.reverse(), categories: categories.reverse() };
+      stackPaths[stackIndex] = path;
+      return path;
+    };
+
+    const times = getSampleTimes(thread);
+    for (let i = 0; i < samples.length; i++) {
+      const stackIndex = samples.stack[i];
+      if (stackIndex === null || stackIndex === undefined) {
+        continue;
+      }
+      const path = getStackPath(stackIndex);
+      viewSamples.push({
+        time: times[i],
+        weight: samples.weight ? samples.weight[i] : 1,
+        stack: path.stack,
+        categories: path.categories,
+        category: stackCategories[stackIndex] ?? null,
+      });
+    }
+  }
+
+  if (threadIndexes.length > 1) {
+    viewSamples.sort((a, b) => a.time - b.time);
+  }
+
+  return { funcNames, funcResources, samples: viewSamples };
+}
+
+function getThreadMarkers(profile: Profile, threadIndexes: number[]): ProfileMarker[] {
+  const markers: ProfileMarker[] = [];
+  for (const threadIndex of threadIndexes) {
+    for (const marker of getSingleThreadMarkers(profile, threadIndex)) {
+      markers.push(marker);
+    }
+  }
+  return markers.sort((a, b) => a.start - b.start);
+}
+
+function getSingleThreadMarkers(profile: Profile, threadIndex: number): ProfileMarker[] {
+  const thread = profile.threads[threadIndex];
+  const stringArray = getStringArray(profile, thread);
+  const { markers: markerTable } = thread;
+  const schemaByName = getMarkerSchemaByName(profile.meta.markerSchema);
+
+  const markers: ProfileMarker[] = [];
+  const openMarkers = new Map<string, ProfileMarker[]>();
+
+  for (let i = 0; i < markerTable.length; i++) {
+    const name = stringArray[markerTable.name[i]];
+    const data = markerTable.data[i];
+    const startTime = markerTable.startTime[i];
+    const endTime = markerTable.endTime[i];
+    const phase = markerTable.phase
+      ? markerTable.phase[i]
+      : (endTime !== null ? MARKER_PHASE_INTERVAL : MARKER_PHASE_INSTANT);
+
+    const marker: ProfileMarker = {
+      name,
+      start: startTime ?? endTime ?? 0,
+      end: null,
+      category: markerTable.category[i],
+      data: resolveMarkerStrings(resolveMarkerName(data, stringArray), data && schemaByName.get(data.type), stringArray),
+    };
+
+    const key = `${name}:${data && data.type ? data.type : ""}`;
+    if (phase === MARKER_PHASE_INTERVAL) {
+      marker.end = endTime;
+      markers.push(marker);
+    } else if (phase === MARKER_PHASE_INTERVAL_START) {
+      const open = openMarkers.get(key) || [];
+      open.push(marker);
+      openMarkers.set(key, open);
+      markers.push(marker);
+    } else if (phase === MARKER_PHASE_INTERVAL_END) {
+      const open = openMarkers.get(key);
+      const startMarker = open ? open.pop() : undefined;
+      if (startMarker) {
+        startMarker.end = endTime;
+        if (data) {
+          startMarker.data = { ...startMarker.data, ...marker.data };
+        }
+      }
+    } else {
+      markers.push(marker);
+    }
+  }
+
+  return markers;
+}
+
+function resolveMarkerName(data: any, stringArray: string[]): any {
+  if (data && typeof data.name === "number") {
+    return { ...data, name: stringArray[data.name] };
+  }
+  return data;
+}
+
+function getMarkerName(marker: ProfileMarker): string {
+  if (marker.data && typeof marker.data.name === "string") {
+    return marker.data.name;
+  }
+  return marker.name;
+}
+
+function markerMatchesSearch(marker: ProfileMarker, search: string): boolean {
+  const terms = search.split(",").map((term) => term.trim().toLowerCase()).filter((term) => term.length > 0);
+  const includes = terms.filter((term) => !term.startsWith("-"));
+  const excludes = terms.filter((term) => term.startsWith("-")).map((term) => term.slice(1));
+  const haystacks = [marker.name.toLowerCase(), getMarkerName(marker).toLowerCase()];
+
+  if (excludes.some((term) => haystacks.some((h) => h.includes(term)))) {
+    return false;
+  }
+  return includes.length === 0 || includes.some((term) => haystacks.some((h) => h.includes(term)));
+}
+
+// Rewrites each distinct stack once. Samples whose stack is rewritten to null
+// are dropped, like samples with a null stack after a transform in the profiler.
+function mapStacks(view: SampleView, rewrite: (path: StackPath) => StackPath | null): SampleView {
+  const rewrittenPaths = new Map<number[], StackPath | null>();
+  const samples: ProfileSample[] = [];
+  for (const sample of view.samples) {
+    let rewritten = rewrittenPaths.get(sample.stack);
+    if (rewritten === undefined) {
+      rewritten = rewrite({ stack: sample.stack, categories: sample.categories });
+      if (rewritten !== null && rewritten.stack.length === 0) {
+        rewritten = null;
+      }
+      rewrittenPaths.set(sample.stack, rewritten);
+    }
+    if (rewritten !== null) {
+      samples.push({
+        ...sample,
+        stack: rewritten.stack,
+        categories: rewritten.categories,
+        category: rewritten.categories[rewritten.categories.length - 1],
+      });
+    }
+  }
+
+  return { ...view, samples };
+}
+
+function keepFrames(path: StackPath, keep: (index: number) => boolean): StackPath {
+  const stack: number[] = [];
+  const categories: number[] = [];
+  for (let i = 0; i < path.stack.length; i++) {
+    if (keep(i)) {
+      stack.push(path.stack[i]);
+      categories.push(path.categories[i]);
+    }
+  }
+  return { stack, categories };
+}
+
+function sliceFrames(path: StackPath, start: number, end?: number): StackPath {
+  return { stack: path.stack.slice(start, end), categories: path.categories.slice(start, end) };
+}
+
+function findFunction(view: SampleView, functionName: string): number | null {
+  const funcIndex = view.funcNames.indexOf(functionName);
+  if (funcIndex === -1) {
+    console.log(`Warning: Function "${functionName}" not found in function table`);
+    return null;
+  }
+  return funcIndex;
+}
+
+function findCallPath(view: SampleView, callPath: string[]): number[] | null {
+  const funcs: number[] = [];
+  for (const name of callPath) {
+    const func = findFunction(view, name);
+    if (func === null) {
+      return null;
+    }
+    funcs.push(func);
+  }
+  return funcs;
+}
+
+function startsWithPath(stack: number[], prefix: number[]): boolean {
+  return stack.length >= prefix.length && prefix.every((func, i) => stack[i] === func);
+}
+
+function applyFocusFunction(view: SampleView, functionName: string): SampleView {
+  const funcIndex = findFunction(view, functionName);
+  if (funcIndex === null) {
+    return view;
+  }
+
+  return mapStacks(view, (path) => {
+    const depth = path.stack.indexOf(funcIndex);
+    return depth === -1 ? null : sliceFrames(path, depth);
+  });
+}
+
+function applyTransform(view: SampleView, transform: Transform, categoryList: Category[]): SampleView {
+  switch (transform.type) {
+    case "focus-function":
+      return applyFocusFunction(view, transform.funcName);
+    case "merge-function": {
+      const func = findFunction(view, transform.funcName);
+      return func === null ? view : mapStacks(view, (path) => keepFrames(path, (i) => path.stack[i] !== func));
+    }
+    case "merge-call-node": {
+      const callPath = findCallPath(view, transform.callPath);
+      if (callPath === null) {
+        return view;
+      }
+      return mapStacks(view, (path) =>
+        startsWithPath(path.stack, callPath) ? keepFrames(path, (i) => i !== callPath.length - 1) : path
+      );
+    }
+    case "drop-function": {
+      const func = findFunction(view, transform.funcName);
+      return func === null ? view : mapStacks(view, (path) => (path.stack.includes(func) ? null : path));
+    }
+    case "focus-subtree": {
+      const callPath = findCallPath(view, transform.callPath);
+      if (callPath === null) {
+        return view;
+      }
+      return mapStacks(view, (path) =>
+        startsWithPath(path.stack, callPath) ? sliceFrames(path, callPath.length - 1) : null
+      );
+    }
+    case "focus-category": {
+      const category = categoryList.findIndex((c) => c.name.toLowerCase() === transform.category.toLowerCase());
+      if (category === -1) {
+        console.log(`Warning: Category "${transform.category}" not found`);
+        return view;
+      }
+      return mapStacks(view, (path) => keepFrames(path, (i) => path.categories[i] === category));
+    }
+    case "collapse-resource": {
+      if (!view.funcResources.includes(transform.resourceName)) {
+        console.log(`Warning: Library "${transform.resourceName}" not found`);
+        return view;
+      }
+      // Consecutive frames of the library are replaced by a single new function
+      // named after it.
+      const collapsedFunc = view.funcNames.length;
+      const collapsedView = {
+        ...view,
+        funcNames: [...view.funcNames, transform.resourceName],
+        funcResources: [...view.funcResources, transform.resourceName],
+      };
+      return mapStacks(collapsedView, (path) => {
+        const stack: number[] = [];
+        const categories: number[] = [];
+        for (let i = 0; i < path.stack.length; i++) {
+          if (collapsedView.funcResources[path.stack[i]] !== transform.resourceName) {
+            stack.push(path.stack[i]);
+            categories.push(path.categories[i]);
+          } else if (stack[stack.length - 1] !== collapsedFunc) {
+            stack.push(collapsedFunc);
+            categories.push(path.categories[i]);
+          }
+        }
+        return { stack, categories };
+      });
+    }
+    case "collapse-recursion": {
+      const func = findFunction(view, transform.funcName);
+      if (func === null) {
+        return view;
+      }
+      // Everything between the outermost and the innermost call is removed.
+      return mapStacks(view, (path) => {
+        const outer = path.stack.indexOf(func);
+        const inner = path.stack.lastIndexOf(func);
+        return outer === inner ? path : keepFrames(path, (i) => i <= outer || i > inner);
+      });
+    }
+    case "collapse-direct-recursion": {
+      const func = findFunction(view, transform.funcName);
+      return func === null
+        ? view
+        : mapStacks(view, (path) => keepFrames(path, (i) => !(i > 0 && path.stack[i] === func && path.stack[i - 1] === func)));
+    }
+    case "collapse-function-subtree": {
+      const func = findFunction(view, transform.funcName);
+      if (func === null) {
+        return view;
+      }
+      return mapStacks(view, (path) => {
+        const depth = path.stack.indexOf(func);
+        return depth === -1 ? path : sliceFrames(path, 0, depth + 1);
+      });
+    }
+  }
+}
+
+function applyMarkerFilter(view: SampleView, markers: ProfileMarker[], search: string): SampleView {
+  const ranges = markers
+    .filter((marker) => marker.end !== null && markerMatchesSearch(marker, search))
+    .map((marker) => [marker.start, marker.end!]);
+
+  const samples = view.samples.filter((sample) =>
+    ranges.some(([start, end]) => sample.time >= start && sample.time <= end)
+  );
+
+  return { ...view, samples };
+}
+
+function getFilteredSampleView(
+  profile: Profile,
+  functionName: string | null,
+  markerTransform: string | null,
+  threadSelection: ThreadSelection | null,
+  rangeSelection: RangeSelection | null,
+  transforms: Transform[]
+): SampleView {
+  const threadIndexes = getSelectedThreadIndexes(profile, threadSelection);
+  let view = getSampleView(profile, threadIndexes);
+
+  const range = getSelectedRange(profile, threadIndexes, rangeSelection);
+  if (range !== null) {
+    view = {
+      ...view,
+      samples: view.samples.filter((sample) => sample.time >= range.start && sample.time < range.end),
+    };
+  }
+
+  if (functionName !== null) {
+    view = applyFocusFunction(view, functionName);
+  }
+
+  if (markerTransform !== null) {
+    view = applyMarkerFilter(view, getThreadMarkers(profile, threadIndexes), markerTransform);
+  }
+
+  for (const transform of transforms) {
+    view = applyTransform(view, transform, profile.meta.categories || []);
+  }
+
+  return view;
+}
+
+function buildCallTree(view: SampleView): TreeNode[] {
+  const roots = new Map<number, TreeNode>();
+
+  for (const sample of view.samples) {
+    let siblings = roots;
+    let node: TreeNode | undefined;
+    for (const func of sample.stack) {
+      node = siblings.get(func);
+      if (!node) {
+        node = { func, self: 0, total: 0, children: new Map() };
+        siblings.set(func, node);
+      }
+      node.total += sample.weight;
+      siblings = node.children;
+    }
+    if (node) {
+      node.self += sample.weight;
+    }
+  }
+
+  return [...roots.values()];
+}
+
+export function computeCallTreeData(
+  profile: Profile,
+  topN: number,
+  detailed: boolean = false,
+  functionName: string | null = null,
+  markerTransform: string | null = null,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null,
+  transforms: Transform[] = []
+): CallTreeNode[] {
+  const view = getFilteredSampleView(profile, functionName, markerTransform, threadSelection, rangeSelection, transforms);
+
+  const selfTimes = new Map<number, number>();
+  const totalTimes = new Map<number, number>();
+  const callPaths = new Map<number, Map<string, CallPath>>();
+
+  for (const sample of view.samples) {
+    if (sample.stack.length === 0) {
+      continue;
+    }
+
+    const leaf = sample.stack[sample.stack.length - 1];
+    selfTimes.set(leaf, (selfTimes.get(leaf) || 0) + sample.weight);
+
+    for (const func of new Set(sample.stack)) {
+      totalTimes.set(func, (totalTimes.get(func) || 0) + sample.weight);
+    }
+
+    if (detailed) {
+      // Call paths go from the function itself down to the root, like the
+      // inverted call tree in the profiler UI.
+      const stack = [...sample.stack].reverse().map((func) => view.funcNames[func]);
+      const key = stack.join("\n");
+      const paths = callPaths.get(leaf) || new Map<string, CallPath>();
+      const path = paths.get(key);
+      if (path) {
+        path.samples += sample.weight;
+      } else {
+        paths.set(key, { stack, samples: sample.weight });
+      }
+      callPaths.set(leaf, paths);
+    }
+  }
+
+  const nodes: CallTreeNode[] = [];
+  for (const [func, selfTime] of selfTimes) {
+    const name = view.funcNames[func];
+    const node: CallTreeNode = {
+      name,
+      selfTime,
+      totalTime: totalTimes.get(func) || 0,
+      stack: [name],
+    };
+    if (detailed) {
+      node.callPaths = [...(callPaths.get(func) || new Map()).values()];
+    }
+    nodes.push(node);
+  }
+
+  nodes.sort((a, b) => b.selfTime - a.selfTime);
+  return nodes.slice(0, topN);
+}
+
+export function computeFlamegraphData(
+  profile: Profile,
+  maxDepth: number | null = null,
+  functionName: string | null = null,
+  markerTransform: string | null = null,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null,
+  transforms: Transform[] = [],
+  inverted: boolean = false
+): FlameNode[] {
+  let view = getFilteredSampleView(profile, functionName, markerTransform, threadSelection, rangeSelection, transforms);
+  if (inverted) {
+    view = mapStacks(view, (path) => ({ stack: [...path.stack].reverse(), categories: [...path.categories].reverse() }));
+  }
+
+  function toFlameNode(node: TreeNode, currentDepth: number): FlameNode | null {
+    if (maxDepth !== null && currentDepth >= maxDepth) {
+      return null;
+    }
+
+    const children: FlameNode[] = [];
+    for (const child of node.children.values()) {
+      const childNode = toFlameNode(child, currentDepth + 1);
+      if (childNode) {
+        children.push(childNode);
+      }
+    }
+    children.sort((a, b) => b.totalTime - a.totalTime);
+
+    return {
+      name: view.funcNames[node.func],
+      selfTime: node.self,
+      totalTime: node.total,
+      children,
+    };
+  }
+
+  const roots: FlameNode[] = [];
+  for (const root of buildCallTree(view)) {
+    const tree = toFlameNode(root, 0);
+    if (tree) {
+      roots.push(tree);
+    }
+  }
+  return roots.sort((a, b) => b.totalTime - a.totalTime);
+}
+
+// The file a function is defined in. Older processed profiles store the file
+// name on the func table, newer ones in shared.sources.
+export function getFuncFileName(profile: Profile, thread: RawThread, funcIndex: number): string | null {
+  const { funcTable } = thread;
+  const sources = profile.shared ? profile.shared.sources : undefined;
+  let fileNameIndex: number | null = null;
+  if (funcTable.fileName) {
+    fileNameIndex = funcTable.fileName[funcIndex];
+  } else if (funcTable.source && sources) {
+    const source = funcTable.source[funcIndex];
+    fileNameIndex = source !== null ? sources.filename[source] : null;
+  }
+  return fileNameIndex !== null && fileNameIndex !== undefined ? getStringArray(profile, thread)[fileNameIndex] : null;
+}
+
+// The file and line of each function of a thread, by name.
+function getFunctionLocations(profile: Profile, threadIndex: number): { [name: string]: FunctionLocation } {
+  const thread = profile.threads[threadIndex];
+  const stringArray = getStringArray(profile, thread);
+  const { funcTable } = thread;
+  const locations: { [name: string]: FunctionLocation } = {};
+
+  for (let i = 0; i < funcTable.length; i++) {
+    const name = stringArray[funcTable.name[i]];
+    const fileName = getFuncFileName(profile, thread, i);
+    if (!locations[name] || (locations[name].fileName === null && fileName !== null)) {
+      locations[name] = { fileName, lineNumber: fileName !== null ? funcTable.lineNumber[i] : null };
+    }
+  }
+  return locations;
+}
+
+// The flamegraph of each selected thread on its own, so that exported stacks
+// can tell the threads apart.
+export function computeThreadFlamegraphs(
+  profile: Profile,
+  markerTransform: string | null = null,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null,
+  transforms: Transform[] = [],
+  inverted: boolean = false
+): ThreadFlamegraph[] {
+  const threads = getThreadInfoList(profile);
+  return getSelectedThreadIndexes(profile, threadSelection).map((index) => ({
+    thread: threads[index],
+    roots: computeFlamegraphData(profile, null, null, markerTransform, { thread: String(index), process: null }, rangeSelection, transforms, inverted),
+    functions: getFunctionLocations(profile, index),
+  }));
+}
+
+// The function, resource and category names that indexes in profiler URLs
+// refer to. With several threads, the merged thread's tables are the
+// concatenation of the threads' tables, in selection order.
+export function getUrlNameTables(profile: Profile, threadSelection: ThreadSelection | null = null): UrlNameTables {
+  const funcNames: string[] = [];
+  const resourceNames: string[] = [];
+  for (const threadIndex of getSelectedThreadIndexes(profile, threadSelection)) {
+    const thread = profile.threads[threadIndex];
+    const stringArray = getStringArray(profile, thread);
+    for (const name of thread.funcTable.name) {
+      funcNames.push(stringArray[name]);
+    }
+    for (const name of thread.resourceTable.name) {
+      resourceNames.push(stringArray[name]);
+    }
+  }
+
+  const categoryNames = (profile.meta.categories || []).map((category) => category.name);
+  return { funcNames, resourceNames, categoryNames };
+}
+
+// Describes the view computed for these options as profiler URL state, so that
+// it can be opened in the web UI.
+export function computeUrlState(
+  profile: Profile,
+  threadSelection: ThreadSelection | null,
+  rangeSelection: RangeSelection | null,
+  transforms: Transform[],
+  invertCallstack: boolean
+): UrlState {
+  const threadIndexes = getSelectedThreadIndexes(profile, threadSelection);
+  const range = getSelectedRange(profile, threadIndexes, rangeSelection);
+  const zeroAt = getZeroAt(profile);
+
+  return {
+    threads: threadIndexes,
+    committedRanges: range !== null ? [{ start: range.start - zeroAt, end: range.end - zeroAt }] : [],
+    transforms: toUrlTransforms(transforms, getUrlNameTables(profile, threadSelection)),
+    invertCallstack,
+    unsupportedTransforms: [],
+  };
+}
+
+// The markers that match the --where conditions, summarized by name, or by
+// name and the value of the --group-by payload field.
+export function computeMarkerSummary(
+  profile: Profile,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null,
+  groupBy: string | null = null,
+  where: MarkerCondition[] = []
+): MarkerSummary[] {
+  const markers = getRangeFilteredMarkers(profile, getSelectedThreadIndexes(profile, threadSelection), rangeSelection);
+  const schemaByName = getMarkerSchemaByName(profile.meta.markerSchema);
+  const markerStats = new Map<string, number[]>();
+
+  for (const marker of markers) {
+    if (marker.end === null) {
+      continue;
+    }
+
+    const duration = marker.end - marker.start;
+    if (duration <= 0) {
+      continue;
+    }
+
+    const schema = marker.data && schemaByName.get(marker.data.type);
+    if (!matchesMarkerConditions(marker.data, schema, where)) {
+      continue;
+    }
+
+    const name = getMarkerGroupName(getMarkerName(marker), marker.data, schema, groupBy);
+    const durations = markerStats.get(name) || [];
+    durations.push(duration);
+    markerStats.set(name, durations);
+  }
+
+  const summaries: MarkerSummary[] = [];
+  for (const [name, durations] of markerStats) {
+    const totalDuration = durations.reduce((sum, d) => sum + d, 0);
+    summaries.push({
+      name,
+      count: durations.length,
+      totalDuration,
+      avgDuration: totalDuration / durations.length,
+      // Not Math.min(...durations): a name can have more markers than a call
+      // takes arguments.
+      minDuration: durations.reduce((min, d) => Math.min(min, d), Infinity),
+      maxDuration: durations.reduce((max, d) => Math.max(max, d), 0),
+    });
+  }
+
+  return summaries.sort((a, b) => b.count - a.count);
+}
+
+// The scalar payload fields of a marker, for tabular output.
+function getMarkerFields(data: any): MarkerInstance["data"] {
+  const fields: MarkerInstance["data"] = {};
+  if (!data || typeof data !== "object") {
+    return fields;
+  }
+  for (const [field, value] of Object.entries(data)) {
+    if (field !== "type" && (value === null || ["string", "number", "boolean"].includes(typeof value))) {
+      fields[field] = value as string | number | boolean | null;
+    }
+  }
+  return fields;
+}
+
+export function computeMarkerInstances(
+  profile: Profile,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null
+): MarkerInstance[] {
+  const threadIndexes = getSelectedThreadIndexes(profile, threadSelection);
+  const range = getSelectedRange(profile, threadIndexes, rangeSelection);
+  const zeroAt = getZeroAt(profile);
+  const categories = profile.meta.categories || [];
+  const instances: MarkerInstance[] = [];
+
+  for (const threadIndex of threadIndexes) {
+    const thread = profile.threads[threadIndex];
+    for (const marker of getSingleThreadMarkers(profile, threadIndex)) {
+      if (range !== null && !(marker.start < range.end && (marker.end ?? marker.start) >= range.start)) {
+        continue;
+      }
+      instances.push({
+        name: getMarkerName(marker),
+        type: marker.data && typeof marker.data.type === "string" ? marker.data.type : null,
+        start: marker.start - zeroAt,
+        end: marker.end !== null ? marker.end - zeroAt : null,
+        duration: marker.end !== null ? marker.end - marker.start : null,
+        thread: thread.name,
+        tid: String(thread.tid),
+        category: categories[marker.category]?.name ?? null,
+        data: getMarkerFields(marker.data),
+      });
+    }
+  }
+
+  return instances.sort((a, b) => a.start - b.start);
+}
+
+// The markers named `markerName` (by their name or their payload's name) that
+// match the --where conditions.
+export function computeMarkerList(
+  profile: Profile,
+  markerName: string,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null,
+  sortBy: MarkerListing["sortBy"] = "start",
+  limit: number | null = null,
+  where: MarkerCondition[] = []
+): MarkerListing {
+  const threadIndexes = getSelectedThreadIndexes(profile, threadSelection);
+  const range = getSelectedRange(profile, threadIndexes, rangeSelection);
+  const categories = profile.meta.categories || [];
+  const schemaByName = getMarkerSchemaByName(profile.meta.markerSchema);
+  const navigationMarker = getThreadMarkers(profile, threadIndexes).find((marker) => getMarkerName(marker) === "Navigation::Start");
+  const entries: RawMarkerEntry[] = [];
+
+  for (const threadIndex of threadIndexes) {
+    const thread = profile.threads[threadIndex];
+    for (const marker of getSingleThreadMarkers(profile, threadIndex)) {
+      if (marker.name !== markerName && getMarkerName(marker) !== markerName) {
+        continue;
+      }
+      if (range !== null && !(marker.start < range.end && (marker.end ?? marker.start) >= range.start)) {
+        continue;
+      }
+      if (!matchesMarkerConditions(marker.data, marker.data && schemaByName.get(marker.data.type), where)) {
+        continue;
+      }
+      entries.push({
+        name: getMarkerName(marker),
+        start: marker.start,
+        end: marker.end,
+        thread: thread.name,
+        tid: String(thread.tid),
+        category: categories[marker.category]?.name ?? null,
+        data: marker.data,
+      });
+    }
+  }
+
+  return buildMarkerListing(
+    markerName, entries, profile.meta.markerSchema, navigationMarker ? navigationMarker.start : null, getZeroAt(profile), sortBy, limit
+  );
+}
+
+function getResourceType(uri: string): string {
+  if (uri.endsWith(".js") || uri.includes(".js?")) {
+    return "JS";
+  } else if (uri.endsWith(".css") || uri.includes(".css?")) {
+    return "CSS";
+  } else if (uri.match(/\.(png|jpg|jpeg|gif|webp|svg|ico)/i)) {
+    return "Image";
+  } else if (uri.match(/\.(woff|woff2|ttf|eot)/i)) {
+    return "Font";
+  } else if (uri.startsWith("http") && !uri.includes(".")) {
+    return "Document";
+  }
+  return "Other";
+}
+
+export function computePageLoadSummary(
+  profile: Profile,
+  threadSelection: ThreadSelection | null = null
+): PageLoadSummary {
+  const threadIndexes = getSelectedThreadIndexes(profile, threadSelection);
+  const markers = getThreadMarkers(profile, threadIndexes);
+  const categoryList = profile.meta.categories || [];
+
+  let navigationStart: number | null = null;
+  let load: number | null = null;
+  let loadUrl: string | null = null;
+  let firstContentfulPaint: number | null = null;
+  let largestContentfulPaint: number | null = null;
+  const resources: Array<Resource & { startTime: number }> = [];
+
+  for (const marker of markers) {
+    const markerName = getMarkerName(marker);
+
+    if (markerName === "Navigation::Start" && navigationStart === null) {
+      navigationStart = marker.start;
+    } else if (markerName.startsWith("Load ") && marker.data && marker.data.URI) {
+      const uri: string = marker.data.URI;
+      if (navigationStart !== null) {
+        if (uri.startsWith("http") && !uri.includes(".js") && !uri.includes(".css") && !loadUrl) {
+          loadUrl = uri;
+        }
+        resources.push({
+          url: uri,
+          duration: marker.end !== null ? marker.end - marker.start : 0,
+          type: getResourceType(uri),
+          startTime: marker.start,
+        });
+      }
+    } else if (markerName === "Load" && load === null) {
+      load = marker.start;
+    } else if (markerName.startsWith("Contentful paint after") && firstContentfulPaint === null) {
+      const match = markerName.match(/after (\d+)ms/);
+      if (match) {
+        firstContentfulPaint = parseFloat(match[1]);
+        const urlMatch = markerName.match(/for URL (https?:\/\/[^,]+)/);
+        if (urlMatch && !loadUrl) {
+          loadUrl = urlMatch[1];
+        }
+      }
+    } else if (markerName.startsWith("Largest contentful paint after") && largestContentfulPaint === null) {
+      const match = markerName.match(/after (\d+)ms/);
+      if (match) {
+        largestContentfulPaint = parseFloat(match[1]);
+      }
+    }
+  }
+
+  const summary: PageLoadSummary = {
+    url: loadUrl,
+    navigationStart,
+    load: load !== null && navigationStart !== null ? load - navigationStart : null,
+    firstContentfulPaint,
+    largestContentfulPaint,
+    resources: null,
+    sampleCategories: null,
+    jankPeriods: null,
+  };
+
+  if (navigationStart === null || load === null) {
+    return summary;
+  }
+
+  const navStart = navigationStart;
+  const loadTime = load;
+  const resourcesBeforeLoad = resources.filter((r) => r.startTime >= navStart && r.startTime <= loadTime);
+  if (resourcesBeforeLoad.length > 0) {
+    const byType: { [type: string]: number } = {};
+    let totalDuration = 0;
+    let maxDuration = 0;
+    for (const res of resourcesBeforeLoad) {
+      byType[res.type] = (byType[res.type] || 0) + 1;
+      totalDuration += res.duration;
+      maxDuration = Math.max(maxDuration, res.duration);
+    }
+
+    summary.resources = {
+      totalResources: resourcesBeforeLoad.length,
+      byType,
+      avgDuration: totalDuration / resourcesBeforeLoad.length,
+      maxDuration,
+      topResources: [...resourcesBeforeLoad]
+        .sort((a, b) => b.duration - a.duration)
+        .slice(0, 10)
+        .map(({ url, duration, type }) => ({ url, duration, type })),
+    };
+  }
+
+  const view = getSampleView(profile, threadIndexes);
+
+  const byCategory: { [category: string]: number } = {};
+  let totalSamples = 0;
+  for (const sample of view.samples) {
+    if (sample.time >= navStart && sample.time <= loadTime && sample.category !== null && categoryList[sample.category]) {
+      const categoryName = categoryList[sample.category].name;
+      byCategory[categoryName] = (byCategory[categoryName] || 0) + 1;
+      totalSamples++;
+    }
+  }
+  if (totalSamples > 0) {
+    summary.sampleCategories = { totalSamples, byCategory };
+  }
+
+  const jankPeriods: JankPeriod[] = [];
+  for (const marker of markers) {
+    if (getMarkerName(marker) !== "Jank" || marker.end === null || marker.start < navStart) {
+      continue;
+    }
+
+    const start = marker.start;
+    const end = marker.end;
+    const functionCounts: { [funcName: string]: number } = {};
+    const categoryCounts: { [category: string]: number } = {};
+
+    for (const sample of view.samples) {
+      if (sample.time < start || sample.time > end) {
+        continue;
+      }
+      if (sample.category !== null && categoryList[sample.category]) {
+        const categoryName = categoryList[sample.category].name;
+        categoryCounts[categoryName] = (categoryCounts[categoryName] || 0) + 1;
+      }
+      if (sample.stack.length > 0) {
+        const funcName = view.funcNames[sample.stack[sample.stack.length - 1]];
+        functionCounts[funcName] = (functionCounts[funcName] || 0) + 1;
+      }
+    }
+
+    jankPeriods.push({
+      startTime: start - navStart,
+      duration: end - start,
+      topFunctions: Object.entries(functionCounts)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([name, samples]) => ({ name, samples })),
+      categories: categoryCounts,
+    });
+  }
+  if (jankPeriods.length > 0) {
+    summary.jankPeriods = jankPeriods;
+  }
+
+  return summary;
+}
+
+const ALL_NETWORK_PHASES_IN_ORDER = [
+  "startTime",
+  "domainLookupStart",
+  "domainLookupEnd",
+  "connectStart",
+  "tcpConnectEnd",
+  "secureConnectionStart",
+  "connectEnd",
+  "requestStart",
+  "responseStart",
+  "responseEnd",
+  "endTime",
+];
+
+const HUMAN_LABEL_FOR_PHASE: { [phase: string]: string } = {
+  startTime: "Waiting for socket thread",
+  domainLookupStart: "DNS request",
+  domainLookupEnd: "After DNS request",
+  connectStart: "TCP connection",
+  tcpConnectEnd: "After TCP connection",
+  secureConnectionStart: "Establishing TLS session",
+  connectEnd: "Waiting for HTTP request",
+  requestStart: "HTTP request and waiting for response",
+  responseStart: "HTTP response",
+  responseEnd: "Waiting for main thread",
+  endTime: "End",
+};
+
+export function computeNetworkResources(
+  profile: Profile,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null
+): NetworkResourceSummary {
+  const markers = getRangeFilteredMarkers(profile, getSelectedThreadIndexes(profile, threadSelection), rangeSelection);
+  const navigationMarker = markers.find((marker) => getMarkerName(marker) === "Navigation::Start");
+  const navigationStart = navigationMarker ? navigationMarker.start : null;
+
+  const resources: NetworkResourceTiming[] = [];
+  const phaseTotals: { [phase: string]: number } = {};
+  const cacheStats: { [cacheType: string]: number } = {};
+
+  for (const marker of markers) {
+    const data = marker.data;
+    if (!data || data.type !== "Network" || data.status !== "STATUS_STOP") {
+      continue;
+    }
+
+    const startTime: number = typeof data.startTime === "number" ? data.startTime : marker.start;
+    const endTime: number = typeof data.endTime === "number" ? data.endTime : (marker.end ?? startTime);
+
+    const availablePhases = ALL_NETWORK_PHASES_IN_ORDER.filter((phase) => typeof data[phase] === "number");
+    const phases = [];
+    for (let j = 1; j < availablePhases.length; j++) {
+      const label = HUMAN_LABEL_FOR_PHASE[availablePhases[j - 1]];
+      const duration = data[availablePhases[j]] - data[availablePhases[j - 1]];
+      phases.push({ label, duration });
+      phaseTotals[label] = (phaseTotals[label] || 0) + duration;
+    }
+
+    const cache = data.cache || "Unknown";
+    cacheStats[cache] = (cacheStats[cache] || 0) + 1;
+
+    resources.push({
+      url: data.URI || "",
+      startTime: navigationStart !== null ? startTime - navigationStart : startTime,
+      duration: endTime - startTime,
+      status: data.status || "",
+      contentType: data.contentType,
+      size: data.count,
+      httpVersion: data.httpVersion,
+      cache,
+      phases,
+    });
+  }
+
+  return {
+    resources: resources.sort((a, b) => a.startTime - b.startTime),
+    totalResources: resources.length,
+    phaseTotals,
+    cacheStats,
+  };
+}
@@ -0,0 +1,293 @@
+import { gzipSync } from "zlib";
+import { Profile, WeightType } from "./profile-format.js";
+import { ThreadSelection } from "./threads.js";
+import { RangeSelection } from "./range.js";
+import {
+  getStringArray,
+  getSelectedThreadIndexes,
+  getSelectedRange,
+  getSampleTimes,
+  computeStackCategories,
+  getFuncFileName,
+} from "./offline.js";
+
+// Writes protobuf messages. Only the wire types that profile.proto uses are
+// supported: varints (all integers are non-negative here) and length-delimited
+// fields. Scalar fields with the default value 0 are left out, like proto3 does.
+class ProtoWriter {
+  private bytes: number[] = [];
+
+  private writeVarint(value: number): void {
+    let remaining = Math.max(0, Math.floor(value));
+    while (remaining >= 0x80) {
+      this.bytes.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.bytes.push(remaining);
+  }
+
+  private writeTag(field: number, wireType: number): void {
+    this.writeVarint(field * 8 + wireType);
+  }
+
+  uint(field: number, value: number): this {
+    if (value !== 0) {
+      this.writeTag(field, 0);
+      this.writeVarint(value);
+    }
+    return this;
+  }
+
+  bool(field: number, value: boolean): this {
+    return this.uint(field, value ? 1 : 0);
+  }
+
+  packed(field: number, values: number[]): this {
+    if (values.length > 0) {
+      const inner = new ProtoWriter();
+      for (const value of values) {
+        inner.writeVarint(value);
+      }
+      this.bytesField(field, inner.finish());
+    }
+    return this;
+  }
+
+  // Repeated strings are always written, including the empty string.
+  string(field: number, value: string): this {
+    return this.bytesField(field, Buffer.from(value, "utf8"));
+  }
+
+  message(field: number, message: ProtoWriter): this {
+    return this.bytesField(field, message.finish());
+  }
+
+  private bytesField(field: number, data: Uint8Array): this {
+    this.writeTag(field, 2);
+    this.writeVarint(data.length);
+    for (const byte of data) {
+      this.bytes.push(byte);
+    }
+    return this;
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+// Field numbers from pprof's profile.proto.
+const PROFILE = {
+  sampleType: 1, sample: 2, mapping: 3, location: 4, function: 5, stringTable: 6,
+  timeNanos: 9, durationNanos: 10, periodType: 11, period: 12, defaultSampleType: 14,
+};
+const VALUE_TYPE = { type: 1, unit: 2 };
+const SAMPLE = { locationId: 1, value: 2, label: 3 };
+const LABEL = { key: 1, str: 2 };
+const MAPPING = { id: 1, filename: 5, buildId: 6, hasFunctions: 7, hasFilenames: 8, hasLineNumbers: 9 };
+const LOCATION = { id: 1, mappingId: 2, address: 3, line: 4 };
+const LINE = { functionId: 1, line: 2, column: 3 };
+const FUNCTION = { id: 1, name: 2, systemName: 3, filename: 4, startLine: 5 };
+
+const NANOSECONDS_PER_MS = 1e6;
+
+interface SampleTypes {
+  types: Array<[string, string]>;
+  // The values of a sample with the given weight.
+  values: (weight: number) => number[];
+  period: [string, string, number] | null;
+}
+
+function getSampleTypes(weightType: WeightType, interval: number): SampleTypes {
+  switch (weightType) {
+    case "tracing-ms":
+      return {
+        types: [["wall", "nanoseconds"]],
+        values: (weight) => [Math.round(weight * NANOSECONDS_PER_MS)],
+        period: null,
+      };
+    case "bytes":
+      return {
+        types: [["space", "bytes"]],
+        values: (weight) => [weight],
+        period: null,
+      };
+    case "samples":
+      return {
+        types: [["samples", "count"], ["wall", "nanoseconds"]],
+        values: (weight) => [weight, Math.round(weight * interval * NANOSECONDS_PER_MS)],
+        period: ["wall", "nanoseconds", Math.round(interval * NANOSECONDS_PER_MS)],
+      };
+  }
+}
+
+/**
+ * Converts the selected threads of a processed profile to a gzipped pprof
+ * Profile protobuf, as read by `go tool pprof`. Samples with the same stack are
+ * combined, and carry "thread", "tid" and "category" labels. Functions,
+ * locations and mappings come from the func, frame and lib tables, so function
+ * names are the ones stored in the profile.
+ */
+export function toPprof(
+  profile: Profile,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null
+): Buffer {
+  const threadIndexes = getSelectedThreadIndexes(profile, threadSelection);
+  const range = getSelectedRange(profile, threadIndexes, rangeSelection);
+  const categoryList = profile.meta.categories || [];
+
+  const weightTypes = new Set(threadIndexes.map((index) => profile.threads[index].samples.weightType || "samples"));
+  if (weightTypes.size > 1) {
+    throw new Error(`The selected threads have different sample weight types (${[...weightTypes].join(", ")})`);
+  }
+  const sampleTypes = getSampleTypes([...weightTypes][0] || "samples", profile.meta.interval);
+
+  const strings = new Map<string, number>([["", 0]]);
+  const stringIndex = (value: string): number => {
+    let index = strings.get(value);
+    if (index === undefined) {
+      index = strings.size;
+      strings.set(value, index);
+    }
+    return index;
+  };
+
+  const output = new ProtoWriter();
+
+  for (const [type, unit] of sampleTypes.types) {
+    output.message(PROFILE.sampleType, new ProtoWriter().uint(VALUE_TYPE.type, stringIndex(type)).uint(VALUE_TYPE.unit, stringIndex(unit)));
+  }
+
+  // Mapping ids are lib indexes + 1, as 0 means no mapping.
+  profile.libs.forEach((lib, libIndex) => {
+    output.message(PROFILE.mapping, new ProtoWriter()
+      .uint(MAPPING.id, libIndex + 1)
+      .uint(MAPPING.filename, stringIndex(lib.path))
+      .uint(MAPPING.buildId, stringIndex(lib.codeId ?? lib.breakpadId))
+      .bool(MAPPING.hasFunctions, true)
+      .bool(MAPPING.hasFilenames, true)
+      .bool(MAPPING.hasLineNumbers, true));
+  });
+
+  // Functions and locations are shared between threads when they are the same.
+  const functionIds = new Map<string, number>();
+  const locationIds = new Map<string, number>();
+  let firstTime = Infinity;
+  let lastTime = -Infinity;
+
+  for (const threadIndex of threadIndexes) {
+    const thread = profile.threads[threadIndex];
+    const stringArray = getStringArray(profile, thread);
+    const { samples, stackTable, frameTable, funcTable, resourceTable } = thread;
+    const stackCategories = computeStackCategories(profile, thread);
+
+    const getFunctionId = (funcIndex: number): number => {
+      const name = stringArray[funcTable.name[funcIndex]];
+      const fileName = getFuncFileName(profile, thread, funcIndex) ?? "";
+      const startLine = funcTable.lineNumber[funcIndex] ?? 0;
+      const key = JSON.stringify([name, fileName, startLine]);
+      let id = functionIds.get(key);
+      if (id === undefined) {
+        id = functionIds.size + 1;
+        functionIds.set(key, id);
+        output.message(PROFILE.function, new ProtoWriter()
+          .uint(FUNCTION.id, id)
+          .uint(FUNCTION.name, stringIndex(name))
+          .uint(FUNCTION.systemName, stringIndex(name))
+          .uint(FUNCTION.filename, stringIndex(fileName))
+          .uint(FUNCTION.startLine, startLine));
+      }
+      return id;
+    };
+
+    const threadLocationIds: Array<number | undefined> = new Array(frameTable.length);
+    const getLocationId = (frameIndex: number): number => {
+      const cached = threadLocationIds[frameIndex];
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const funcIndex = frameTable.func[frameIndex];
+      const functionId = getFunctionId(funcIndex);
+      const resource = funcTable.resource[funcIndex];
+      const lib = resource !== -1 && resource !== null && resource !== undefined ? resourceTable.lib[resource] : null;
+      const mappingId = lib !== null && lib !== undefined ? lib + 1 : 0;
+      const address = Math.max(0, frameTable.address[frameIndex] ?? 0);
+      const line = frameTable.line[frameIndex] ?? funcTable.lineNumber[funcIndex] ?? 0;
+      const column = frameTable.column[frameIndex] ?? 0;
+
+      const key = JSON.stringify([mappingId, address, functionId, line, column]);
+      let id = locationIds.get(key);
+      if (id === undefined) {
+        id = locationIds.size + 1;
+        locationIds.set(key, id);
+        output.message(PROFILE.location, new ProtoWriter()
+          .uint(LOCATION.id, id)
+          .uint(LOCATION.mappingId, mappingId)
+          .uint(LOCATION.address, address)
+          .message(LOCATION.line, new ProtoWriter()
+            .uint(LINE.functionId, functionId)
+            .uint(LINE.line, line)
+            .uint(LINE.column, column)));
+      }
+      threadLocationIds[frameIndex] = id;
+      return id;
+    };
+
+    // Combine the samples of each stack.
+    const weightByStack = new Map<number, number>();
+    const times = getSampleTimes(thread);
+    for (let i = 0; i < samples.length; i++) {
+      const stackIndex = samples.stack[i];
+      const time = times[i];
+      if (stackIndex === null || stackIndex === undefined || (range !== null && (time < range.start || time >= range.end))) {
+        continue;
+      }
+      firstTime = Math.min(firstTime, time);
+      lastTime = Math.max(lastTime, time);
+      const weight = samples.weight ? samples.weight[i] : 1;
+      weightByStack.set(stackIndex, (weightByStack.get(stackIndex) || 0) + weight);
+    }
+
+    // Threads of different processes often have the same name, e.g. GeckoMain.
+    const threadLabel = new ProtoWriter().uint(LABEL.key, stringIndex("thread")).uint(LABEL.str, stringIndex(thread.name));
+    const tidLabel = new ProtoWriter().uint(LABEL.key, stringIndex("tid")).uint(LABEL.str, stringIndex(String(thread.tid)));
+    for (const [stackIndex, weight] of weightByStack) {
+      // pprof stacks start at the leaf.
+      const locationIdList: number[] = [];
+      for (let stack: number | null = stackIndex; stack !== null; stack = stackTable.prefix[stack]) {
+        locationIdList.push(getLocationId(stackTable.frame[stack]));
+      }
+
+      const category = categoryList[stackCategories[stackIndex]];
+      const sample = new ProtoWriter()
+        .packed(SAMPLE.locationId, locationIdList)
+        .packed(SAMPLE.value, sampleTypes.values(weight))
+        .message(SAMPLE.label, threadLabel)
+        .message(SAMPLE.label, tidLabel);
+      if (category) {
+        sample.message(SAMPLE.label, new ProtoWriter().uint(LABEL.key, stringIndex("category")).uint(LABEL.str, stringIndex(category.name)));
+      }
+      output.message(PROFILE.sample, sample);
+    }
+  }
+
+  if (firstTime !== Infinity) {
+    output.uint(PROFILE.timeNanos, Math.round((profile.meta.startTime + firstTime) * NANOSECONDS_PER_MS));
+    output.uint(PROFILE.durationNanos, Math.round((lastTime - firstTime + profile.meta.interval) * NANOSECONDS_PER_MS));
+  }
+  if (sampleTypes.period !== null) {
+    const [type, unit, period] = sampleTypes.period;
+    output.message(PROFILE.periodType, new ProtoWriter().uint(VALUE_TYPE.type, stringIndex(type)).uint(VALUE_TYPE.unit, stringIndex(unit)));
+    output.uint(PROFILE.period, period);
+  }
+  output.uint(PROFILE.defaultSampleType, stringIndex(sampleTypes.types[0][0]));
+
+  // The string table goes last, once every string is known.
+  for (const value of strings.keys()) {
+    output.string(PROFILE.stringTable, value);
+  }
+
+  return gzipSync(output.finish());
+}
@@ -0,0 +1,139 @@
+// A subset of the Firefox Profiler's processed profile format, as documented in
+// PROFILER-FORMAT-DOCUMENTATION.ts. Only the fields that the offline engine reads
+// are declared here; older processed profile versions are handled where the
+// shape differs (per-thread string arrays, stack categories, timeDeltas).
+
+export type WeightType = "samples" | "tracing-ms" | "bytes";
+
+export interface RawStackTable {
+  frame: number[];
+  prefix: Array<number | null>;
+  // Older processed profiles store the category on the stack table directly.
+  category?: number[];
+  subcategory?: number[];
+  length: number;
+}
+
+export interface RawSamplesTable {
+  stack: Array<number | null>;
+  time?: number[];
+  timeDeltas?: number[];
+  weight?: null | number[];
+  weightType?: WeightType;
+  threadCPUDelta?: Array<number | null>;
+  length: number;
+}
+
+export interface RawMarkerTable {
+  data: Array<any | null>;
+  name: number[];
+  startTime: Array<number | null>;
+  endTime: Array<number | null>;
+  phase?: number[];
+  category: number[];
+  length: number;
+}
+
+export interface FrameTable {
+  address: number[];
+  inlineDepth?: number[];
+  category: Array<number | null>;
+  subcategory: Array<number | null>;
+  func: number[];
+  nativeSymbol?: Array<number | null>;
+  line: Array<number | null>;
+  column: Array<number | null>;
+  length: number;
+}
+
+export interface FuncTable {
+  name: number[];
+  isJS: boolean[];
+  relevantForJS: boolean[];
+  resource: number[];
+  // Older processed profiles store the file name directly on the func table.
+  fileName?: Array<number | null>;
+  source?: Array<number | null>;
+  lineNumber: Array<number | null>;
+  columnNumber: Array<number | null>;
+  length: number;
+}
+
+export interface ResourceTable {
+  lib: Array<number | null>;
+  name: number[];
+  host: Array<number | null>;
+  type: number[];
+  length: number;
+}
+
+export interface RawThread {
+  processType: string;
+  processStartupTime: number;
+  processShutdownTime: number | null;
+  registerTime: number;
+  unregisterTime: number | null;
+  name: string;
+  isMainThread: boolean;
+  processName?: string;
+  pid: string | number;
+  tid: string | number;
+  samples: RawSamplesTable;
+  markers: RawMarkerTable;
+  stackTable: RawStackTable;
+  frameTable: FrameTable;
+  funcTable: FuncTable;
+  resourceTable: ResourceTable;
+  // Older processed profiles have a string array per thread.
+  stringArray?: string[];
+}
+
+export interface Lib {
+  arch: string;
+  name: string;
+  path: string;
+  debugName: string;
+  debugPath: string;
+  breakpadId: string;
+  codeId: string | null;
+}
+
+export interface Category {
+  name: string;
+  color: string;
+  subcategories: string[];
+}
+
+export interface ProfileMeta {
+  interval: number;
+  startTime: number;
+  profilingStartTime?: number;
+  profilingEndTime?: number;
+  categories?: Category[];
+  product: string;
+  version: number;
+  preprocessedProfileVersion: number;
+  markerSchema: any[];
+  sampleUnits?: {
+    time: string;
+    eventDelay: string;
+    threadCPUDelta: string;
+  };
+  initialSelectedThreads?: number[];
+}
+
+export interface SourceTable {
+  length: number;
+  uuid: Array<string | null>;
+  filename: number[];
+}
+
+export interface Profile {
+  meta: ProfileMeta;
+  libs: Lib[];
+  shared?: {
+    stringArray: string[];
+    sources?: SourceTable;
+  };
+  threads: RawThread[];
+}
@@ -0,0 +1,174 @@
+import { createReadStream, statSync } from "fs";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import path from "path";
+import { detectProfileMetaFormat, readProfileMeta } from "./offline.js";
+import { startSamplyServer } from "./samply.js";
+
+// Serves local profile files to the profiler, which loads them with its
+// from-url route and processes Gecko profiles itself. The profiler is
+// profiler.firefox.com, or a build of it served from a local directory
+// (--frontend-dir) on machines without network access.
+
+const PROFILER_ORIGIN = "https://profiler.firefox.com";
+
+export interface LocalProfileServer {
+  // The profiler URL that loads the profile.
+  url: string;
+  close(): void;
+}
+
+interface StaticServer {
+  origin: string;
+  close(): void;
+}
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".webmanifest": "application/manifest+json",
+  ".map": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".wasm": "application/wasm",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+function isFile(filePath: string): boolean {
+  try {
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Checks that a directory holds a built profiler, e.g. the dist directory of a
+// firefox-devtools/profiler checkout after `yarn build-prod`.
+export function checkFrontendDir(frontendDir: string): void {
+  if (!isFile(path.join(frontendDir, "index.html"))) {
+    throw new Error(`${frontendDir} does not contain a built profiler front-end (index.html not found)`);
+  }
+}
+
+// The file a front-end request refers to. The profiler routes every other path
+// (/from-url/..., /public/...) in the browser, so they get index.html.
+function getFrontendFile(frontendDir: string, pathname: string): string {
+  const root = path.resolve(frontendDir);
+  const filePath = path.resolve(root, "." + pathname);
+  return filePath.startsWith(root + path.sep) && isFile(filePath) ? filePath : path.join(root, "index.html");
+}
+
+// Serves the profile at /profiles/<file name> and, with a front-end directory,
+// the profiler's files. It listens on a random port of the loopback interface,
+// which the profiler is allowed to fetch from.
+async function startStaticServer(profilePath: string | null, frontendDir: string | null): Promise<StaticServer> {
+  const profileRoute = profilePath !== null ? `/profiles/${path.basename(profilePath)}` : null;
+  const server = createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+    } catch {
+      res.writeHead(400);
+      res.end();
+      return;
+    }
+    if (req.method !== "GET") {
+      res.writeHead(405);
+      res.end();
+    } else if (profilePath !== null && pathname === profileRoute) {
+      res.writeHead(200, { "Content-Type": "application/octet-stream" });
+      createReadStream(profilePath).pipe(res);
+    } else if (frontendDir !== null) {
+      const filePath = getFrontendFile(frontendDir, pathname);
+      res.writeHead(200, { "Content-Type": CONTENT_TYPES[path.extname(filePath)] ?? "application/octet-stream" });
+      createReadStream(filePath).pipe(res);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    close: () => {
+      server.closeAllConnections();
+      server.close();
+    },
+  };
+}
+
+// The same profiler URL on another origin.
+function withOrigin(url: string, origin: string): string {
+  const parsed = new URL(url);
+  return origin + parsed.pathname + parsed.search + parsed.hash;
+}
+
+async function serveLocalProfile(profilePath: string, frontendDir: string | null): Promise<LocalProfileServer> {
+  // Only the meta is read: the profiler loads and processes the whole file.
+  const meta = await readProfileMeta(profilePath);
+  const format = detectProfileMetaFormat(meta);
+  if (format === null) {
+    throw new Error(`${profilePath} is not a Firefox Profiler or Gecko profile`);
+  }
+
+  // Profiles that samply recorded are not symbolicated yet, and samply serves
+  // them with the symbols of this machine.
+  if (format === "processed" && meta.symbolicated === false) {
+    try {
+      const samply = await startSamplyServer(profilePath);
+      if (frontendDir === null) {
+        return { url: samply.url, close: () => samply.process.kill() };
+      }
+      const frontend = await startStaticServer(null, frontendDir);
+      return {
+        url: withOrigin(samply.url, frontend.origin),
+        close: () => {
+          samply.process.kill();
+          frontend.close();
+        },
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      console.error("samply is not installed, native functions will not be symbolicated");
+    }
+  }
+
+  console.log(`Serving ${format === "gecko" ? "Gecko" : "processed"} profile ${profilePath}`);
+  const server = await startStaticServer(profilePath, frontendDir);
+  const profileUrl = `${server.origin}/profiles/${encodeURIComponent(path.basename(profilePath))}`;
+  return {
+    url: `${frontendDir !== null ? server.origin : PROFILER_ORIGIN}/from-url/${encodeURIComponent(profileUrl)}/`,
+    close: server.close,
+  };
+}
+
+/**
+ * Serves a profile for the browser: local files always, and profiler.firefox.com
+ * URLs when the profiler is served from `frontendDir`. Returns null for profiles
+ * that the browser can load as they are.
+ */
+export async function serveProfile(profile: string, frontendDir: string | null): Promise<LocalProfileServer | null> {
+  if (isFile(profile)) {
+    return serveLocalProfile(profile, frontendDir);
+  }
+  if (frontendDir !== null && profile.startsWith(PROFILER_ORIGIN + "/")) {
+    const frontend = await startStaticServer(null, frontendDir);
+    return { url: withOrigin(profile, frontend.origin), close: frontend.close };
+  }
+  return null;
+}
@@ -1,5 +1,10 @@
-import { Browser } from "playwright";
-import { CallTreeNode, MarkerSummary, FlameNode, PageLoadSummary, NetworkResourceSummary } from "./types.js";
+import { Browser, Page, errors } from "playwright";
+import { CallTreeNode, MarkerSummary, MarkerInstance, MarkerListing, FlameNode, FunctionLocation, ThreadFlamegraph, PageLoadSummary, NetworkResourceSummary, ThreadInfo } from "./types.js";
+import { ThreadSelection, RawThreadSummary, resolveThreadSelection, toThreadInfoList } from "./threads.js";
+import { RangeSelection, RangeMarker, hasRangeSelection, resolveRangeSelection } from "./range.js";
+import { Transform } from "./transforms.js";
+import { OutputLog } from "./text-output.js";
+import { MarkerCondition, MarkerSchema, RawMarkerEntry, buildMarkerListing, getMarkerSchemaByName, matchesMarkerConditions } from "./marker-schema.js";
 
 declare const window: any;
 declare const selectors: any;
@@ -9,32 +14,486 @@ declare const filteredThread: any;
 declare const dispatch: any;
 declare const actions: any;
 
-export async function getCallTreeData(
-  browser: Browser,
-  url: string,
-  topN: number,
-  detailed: boolean = false,
-  functionName: string | null = null,
-  markerTransform: string | null = null
-): Promise<CallTreeNode[]> {
+// The view of a page when it finished loading, which includes the state of a
+// profiler URL opened with it, so that resetProfileView can go back to it.
+interface InitialView {
+  threadIndexes: number[];
+  committedRanges: Array<{ start: number; end: number }>;
+  transforms: unknown[];
+}
+const initialViews = new WeakMap<Page, InitialView>();
+
+export const DEFAULT_PROFILER_TIMEOUT = 300000;
+
+// How long to wait for the profiler in ms, from opening a profile and from
+// resetting the view of a loaded page for the next query.
+let profilerTimeout = DEFAULT_PROFILER_TIMEOUT;
+
+export function setProfilerTimeout(timeout: number): void {
+  profilerTimeout = timeout;
+}
+
+// When the current load or query of each page gives up.
+const pageDeadlines = new WeakMap<Page, number>();
+
+function startDeadline(page: Page): void {
+  pageDeadlines.set(page, Date.now() + profilerTimeout);
+}
+
+function getRemainingTime(page: Page): number {
+  return Math.max(1, (pageDeadlines.get(page) ?? Date.now() + profilerTimeout) - Date.now());
+}
+
+function toTimeoutError(error: unknown, description: string): unknown {
+  return error instanceof errors.TimeoutError
+    ? new Error(`Timed out after ${profilerTimeout / 1000} s waiting for ${description}, use --timeout <ms> to wait longer`)
+    : error;
+}
+
+// Waits until the condition holds in the profiler's page, e.g. for the store
+// to reach a state, rather than for a fixed time.
+async function waitForProfiler(page: Page, description: string, condition: (arg: any) => unknown, arg: unknown): Promise<void> {
+  try {
+    await page.waitForFunction(condition, arg, { timeout: getRemainingTime(page) });
+  } catch (error) {
+    throw toTimeoutError(error, description);
+  }
+}
+
+// Opens a new page on the profile and waits until the profile is loaded.
+async function loadProfilePage(browser: Browser, url: string): Promise<Page> {
   const page = await browser.newPage({
     bypassCSP: true,
   });
+  startDeadline(page);
 
-  page.setDefaultTimeout(0);
-
-  await page.goto(url);
+  try {
+    await page.goto(url, { timeout: getRemainingTime(page) });
+  } catch (error) {
+    throw toTimeoutError(error, "the profiler to open");
+  }
 
-  await page.waitForFunction(() => {
+  await waitForProfiler(page, "the profile to load", () => {
     return (
       window.selectors &&
       selectors.app.getView(getState()).phase == "DATA_LOADED"
     );
-  });
+  }, null);
+
+  return page;
+}
+
+// Waits for the call tree of the current view to be computed with
+// `transformCount` transforms on the selected threads' stack.
+async function waitForCallTree(page: Page, transformCount: number): Promise<void> {
+  await waitForProfiler(page, "the call tree to update", ({ transformCount }: { transformCount: number }) => {
+    const state = getState();
+    const threadsKey = selectors.urlState.getSelectedThreadsKey(state);
+    // Reading the roots recomputes the call tree for the current stack.
+    return selectors.urlState.getTransformStack(state, threadsKey).length === transformCount &&
+      window.callTree.getRoots() !== undefined;
+  }, { transformCount });
+}
 
-  await page.waitForFunction(() => {
+// Waits for the call tree tab to show the call tree, inverted or not.
+async function waitForCallTreeTab(page: Page, inverted: boolean): Promise<void> {
+  await waitForProfiler(page, "the call tree tab", ({ inverted }: { inverted: boolean }) => {
+    const state = getState();
+    return selectors.urlState.getSelectedTab(state) === "calltree" &&
+      selectors.urlState.getInvertCallstack(state) === inverted;
+  }, { inverted });
+}
+
+// Waits until the assembly code of the bottom box is fetched or has failed. A
+// closed assembly view fetches nothing, and settles too.
+async function waitForAssemblyView(page: Page): Promise<void> {
+  await waitForProfiler(page, "the assembly code", () => {
+    const state = getState();
+    const code = selectors.code.getAssemblyViewCode(state);
+    return code ? code.type !== "LOADING" : selectors.urlState.getAssemblyViewIsOpen(state) === false;
+  }, null);
+}
+
+// Waits until the source code of the bottom box is fetched or has failed.
+async function waitForSourceView(page: Page): Promise<void> {
+  await waitForProfiler(page, "the source code", () => {
+    const state = getState();
+    const code = selectors.code.getSourceViewCode(state);
+    return code ? code.type !== "LOADING" : selectors.urlState.getSourceViewFile(state) === null;
+  }, null);
+}
+
+// Opens the profile in a new page and waits until it is loaded and symbolicated.
+// The query* functions can then be called on the page, with resetProfileView
+// between them.
+export async function openProfilePage(browser: Browser, url: string): Promise<Page> {
+  const page = await loadProfilePage(browser, url);
+
+  await waitForProfiler(page, "symbolication", () => {
     return selectors.profile.getSymbolicationStatus(getState()) == "DONE";
+  }, null);
+
+  const initialView = await page.evaluate(() => {
+    const state = getState();
+    const threadsKey = selectors.urlState.getSelectedThreadsKey(state);
+    return {
+      threadIndexes: [...selectors.urlState.getSelectedThreadIndexes(state)] as number[],
+      committedRanges: selectors.urlState.getAllCommittedRanges(state).map(
+        ({ start, end }: { start: number; end: number }) => ({ start, end })
+      ),
+      transforms: selectors.urlState.getTransformStack(state, threadsKey),
+    };
   });
+  initialViews.set(page, initialView);
+
+  return page;
+}
+
+// Undoes the thread selection, committed ranges and transforms of earlier
+// queries, and restores those the page was loaded with. Transforms are stored
+// per thread selection, so they are popped both before and after going back to
+// the initial threads.
+export async function resetProfileView(page: Page): Promise<void> {
+  const initialView = initialViews.get(page) || { threadIndexes: [], committedRanges: [], transforms: [] };
+
+  await page.evaluate(({ threadIndexes, committedRanges, transforms }: InitialView) => {
+    const dispatch = window.dispatch;
+    const actions = window.actions;
+    dispatch(actions.popTransformsFromStack(0));
+    if (threadIndexes.length > 0) {
+      dispatch(actions.changeSelectedThreads(new Set(threadIndexes)));
+    }
+    dispatch(actions.popTransformsFromStack(0));
+    dispatch(actions.popCommittedRanges(0));
+
+    // Then the range and transforms of the URL, as the page loaded them.
+    for (const { start, end } of committedRanges) {
+      dispatch(actions.commitRange(start, end));
+    }
+    const threadsKey = selectors.urlState.getSelectedThreadsKey(getState());
+    for (const transform of transforms) {
+      dispatch(actions.addTransformToStack(threadsKey, transform));
+    }
+  }, initialView);
+
+  // Each query gets the full timeout.
+  startDeadline(page);
+  await waitForCallTree(page, initialView.transforms.length);
+}
+
+// The arguments of a query* function after the page.
+type QueryArgs<Query> = Query extends (page: Page, ...args: infer Args) => unknown ? Args : never;
+
+// A profile that is loaded and symbolicated once, for any number of queries.
+// Each query starts from the view the profile was loaded with, so that the
+// thread selection, range and transforms of one query do not leak into the next.
+export interface LoadedProfile {
+  callTree(...args: QueryArgs<typeof queryCallTreeData>): Promise<CallTreeNode[]>;
+  flamegraph(...args: QueryArgs<typeof queryFlamegraphData>): Promise<FlameNode[]>;
+  threadFlamegraphs(...args: QueryArgs<typeof queryThreadFlamegraphData>): Promise<ThreadFlamegraph[]>;
+  markerSummary(...args: QueryArgs<typeof queryMarkerSummary>): Promise<MarkerSummary[]>;
+  markerInstances(...args: QueryArgs<typeof queryMarkerInstances>): Promise<MarkerInstance[]>;
+  markerList(...args: QueryArgs<typeof queryMarkerList>): Promise<MarkerListing>;
+  pageLoad(...args: QueryArgs<typeof queryPageLoadSummary>): Promise<PageLoadSummary>;
+  network(...args: QueryArgs<typeof queryNetworkResources>): Promise<NetworkResourceSummary>;
+  names(...args: QueryArgs<typeof queryNames>): Promise<{ functions: string[]; markers: string[] }>;
+  annotate(...args: QueryArgs<typeof queryAnnotation>): Promise<void>;
+  threads(): Promise<ThreadInfo[]>;
+  close(): Promise<void>;
+}
+
+export async function loadProfile(browser: Browser, url: string): Promise<LoadedProfile> {
+  const page = await openProfilePage(browser, url);
+
+  function query<Args extends unknown[], Result>(run: (page: Page, ...args: Args) => Promise<Result>) {
+    return async (...args: Args): Promise<Result> => {
+      await resetProfileView(page);
+      return run(page, ...args);
+    };
+  }
+
+  return {
+    callTree: query(queryCallTreeData),
+    flamegraph: query(queryFlamegraphData),
+    threadFlamegraphs: query(queryThreadFlamegraphData),
+    markerSummary: query(queryMarkerSummary),
+    markerInstances: query(queryMarkerInstances),
+    markerList: query(queryMarkerList),
+    pageLoad: query(queryPageLoadSummary),
+    network: query(queryNetworkResources),
+    names: query(queryNames),
+    annotate: query(queryAnnotation),
+    threads: () => getThreadInfoFromPage(page),
+    close: () => page.close(),
+  };
+}
+
+// Function and marker names of the selected threads, e.g. for completion.
+export async function queryNames(
+  page: Page,
+  threadSelection: ThreadSelection | null = null
+): Promise<{ functions: string[]; markers: string[] }> {
+  await selectThreads(page, threadSelection);
+
+  return await page.evaluate(() => {
+    const thread = selectors.selectedThread.getFilteredThread(getState());
+    const { funcTable, stringTable } = thread;
+
+    const functions = new Set<string>();
+    for (let i = 0; i < funcTable.length; i++) {
+      functions.add(stringTable.getString(funcTable.name[i]));
+    }
+
+    const markers = new Set<string>();
+    for (const marker of window.filteredMarkers) {
+      markers.add(marker.name);
+    }
+
+    return { functions: [...functions], markers: [...markers] };
+  });
+}
+
+export async function getThreadInfoFromPage(page: Page): Promise<ThreadInfo[]> {
+  const { unit, summaries } = await page.evaluate(() => {
+    const profile = selectors.profile.getProfile(getState());
+    const summaries = profile.threads.map((thread: any) => {
+      const cpuDeltas = thread.samples.threadCPUDelta;
+      let cpuDelta: number | null = null;
+      if (cpuDeltas) {
+        // The first value is not meaningful, there is no previous sample.
+        cpuDelta = 0;
+        for (let i = 1; i < cpuDeltas.length; i++) {
+          cpuDelta += cpuDeltas[i] || 0;
+        }
+      }
+
+      return {
+        name: thread.name,
+        processType: thread.processType,
+        processName: thread.processName || null,
+        pid: String(thread.pid),
+        tid: String(thread.tid),
+        isMainThread: thread.isMainThread,
+        sampleCount: thread.samples.length,
+        cpuDelta,
+      };
+    });
+
+    return {
+      unit: profile.meta.sampleUnits ? profile.meta.sampleUnits.threadCPUDelta : null,
+      summaries,
+    };
+  });
+
+  return toThreadInfoList(summaries as RawThreadSummary[], unit);
+}
+
+// Switches the page to the requested threads. Selecting several threads makes
+// the profiler merge them, and every selector used below follows the selection.
+async function selectThreads(page: Page, threadSelection: ThreadSelection | null): Promise<void> {
+  if (threadSelection === null || (threadSelection.thread === null && threadSelection.process === null)) {
+    return;
+  }
+
+  const threadIndexes = resolveThreadSelection(await getThreadInfoFromPage(page), threadSelection);
+
+  await page.evaluate(({ threadIndexes }: { threadIndexes: number[] }) => {
+    window.dispatch(window.actions.changeSelectedThreads(new Set(threadIndexes)));
+  }, { threadIndexes });
+}
+
+// Commits the requested range like a preview selection that was zoomed into in
+// the UI, so that samples and markers outside of it are filtered out.
+async function commitRangeSelection(page: Page, rangeSelection: RangeSelection | null): Promise<void> {
+  if (!hasRangeSelection(rangeSelection)) {
+    return;
+  }
+
+  const markerNames = [rangeSelection.fromMarker, rangeSelection.toMarker].filter((name) => name !== null);
+
+  const { zeroAt, profileEnd, markers } = await page.evaluate(({ markerNames }: { markerNames: string[] }) => {
+    const state = getState();
+    const filteredMarkers = window.filteredMarkers;
+    const stringTable = window.filteredThread.stringTable;
+    const markers: Array<{ name: string; start: number; end: number | null }> = [];
+
+    for (let i = 0; i < filteredMarkers.length; i++) {
+      const marker = filteredMarkers[i];
+
+      let markerName = marker.name;
+      if (marker.data && marker.data.name !== undefined) {
+        const dataName = marker.data.name;
+        if (typeof dataName === "number") {
+          markerName = stringTable.getString(dataName);
+        } else {
+          markerName = dataName;
+        }
+      }
+
+      if (markerNames.includes(markerName)) {
+        markers.push({ name: markerName, start: marker.start, end: marker.end });
+      }
+    }
+
+    markers.sort((a, b) => a.start - b.start);
+
+    return {
+      zeroAt: selectors.profile.getZeroAt(state),
+      profileEnd: selectors.profile.getProfileRootRange(state).end,
+      markers,
+    };
+  }, { markerNames });
+
+  const range = resolveRangeSelection(rangeSelection, zeroAt, profileEnd, markers as RangeMarker[]);
+
+  await page.evaluate(({ start, end }: { start: number; end: number }) => {
+    window.dispatch(window.actions.updatePreviewSelection({
+      hasSelection: true,
+      isModifying: false,
+      selectionStart: start,
+      selectionEnd: end,
+    }));
+    window.dispatch(window.actions.commitRange(start, end));
+  }, range);
+}
+
+// Pushes the transforms onto the selected thread's transform stack, in order.
+// Names are resolved one transform at a time, because earlier transforms can
+// change the function table (collapsing a library adds a function).
+async function applyTransforms(page: Page, transforms: Transform[]): Promise<void> {
+  if (transforms.length === 0) {
+    return;
+  }
+
+  const { warnings, transformCount } = await page.evaluate(({ transforms }: { transforms: Transform[] }) => {
+    const dispatch = window.dispatch;
+    const actions = window.actions;
+    const warnings: string[] = [];
+    let transformCount = selectors.urlState.getTransformStack(getState(), selectors.urlState.getSelectedThreadsKey(getState())).length;
+
+    for (const transform of transforms) {
+      const state = getState();
+      const threadsKey = selectors.urlState.getSelectedThreadsKey(state);
+      const thread = selectors.selectedThread.getFilteredThread(state);
+      const { funcTable, resourceTable, stringTable } = thread;
+
+      const findFunction = (functionName: string): number | null => {
+        for (let i = 0; i < funcTable.length; i++) {
+          if (stringTable.getString(funcTable.name[i]) === functionName) {
+            return i;
+          }
+        }
+        warnings.push(`Function "${functionName}" not found in function table`);
+        return null;
+      };
+
+      const findCallPath = (callPath: string[]): number[] | null => {
+        const funcs: number[] = [];
+        for (const functionName of callPath) {
+          const funcIndex = findFunction(functionName);
+          if (funcIndex === null) {
+            return null;
+          }
+          funcs.push(funcIndex);
+        }
+        return funcs;
+      };
+
+      let profilerTransform: any = null;
+      switch (transform.type) {
+        case "focus-function":
+        case "merge-function":
+        case "drop-function":
+        case "collapse-recursion":
+        case "collapse-function-subtree": {
+          const funcIndex = findFunction(transform.funcName);
+          if (funcIndex !== null) {
+            profilerTransform = { type: transform.type, funcIndex };
+          }
+          break;
+        }
+        case "collapse-direct-recursion": {
+          const funcIndex = findFunction(transform.funcName);
+          if (funcIndex !== null) {
+            profilerTransform = { type: transform.type, funcIndex, implementation: "combined" };
+          }
+          break;
+        }
+        case "merge-call-node": {
+          const callNodePath = findCallPath(transform.callPath);
+          if (callNodePath !== null) {
+            profilerTransform = { type: transform.type, callNodePath, implementation: "combined" };
+          }
+          break;
+        }
+        case "focus-subtree": {
+          const callNodePath = findCallPath(transform.callPath);
+          if (callNodePath !== null) {
+            profilerTransform = { type: transform.type, callNodePath, implementation: "combined", inverted: false };
+          }
+          break;
+        }
+        case "focus-category": {
+          const categoryList = selectors.profile.getCategories(state);
+          const category = categoryList.findIndex((c: any) => c.name.toLowerCase() === transform.category.toLowerCase());
+          if (category === -1) {
+            warnings.push(`Category "${transform.category}" not found`);
+          } else {
+            profilerTransform = { type: transform.type, category };
+          }
+          break;
+        }
+        case "collapse-resource": {
+          let resourceIndex = null;
+          for (let i = 0; i < resourceTable.length; i++) {
+            if (stringTable.getString(resourceTable.name[i]) === transform.resourceName) {
+              resourceIndex = i;
+              break;
+            }
+          }
+          if (resourceIndex === null) {
+            warnings.push(`Library "${transform.resourceName}" not found`);
+          } else {
+            // The collapsed library becomes a new function at the end of the table.
+            profilerTransform = {
+              type: transform.type,
+              resourceIndex,
+              collapsedFuncIndex: funcTable.length,
+              implementation: "combined",
+            };
+          }
+          break;
+        }
+      }
+
+      if (profilerTransform !== null) {
+        dispatch(actions.addTransformToStack(threadsKey, profilerTransform));
+        transformCount++;
+      }
+    }
+
+    return { warnings, transformCount };
+  }, { transforms });
+
+  for (const warning of warnings) {
+    console.log(`Warning: ${warning}`);
+  }
+  await waitForCallTree(page, transformCount);
+}
+
+export async function queryCallTreeData(
+  page: Page,
+  topN: number,
+  detailed: boolean = false,
+  functionName: string | null = null,
+  markerTransform: string | null = null,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null,
+  transforms: Transform[] = [],
+  onViewUrl: ((url: string) => void) | null = null
+): Promise<CallTreeNode[]> {
+  await selectThreads(page, threadSelection);
+  await commitRangeSelection(page, rangeSelection);
 
   await page.evaluate(() => {
     const dispatch = window.dispatch;
@@ -43,7 +502,7 @@ export async function getCallTreeData(
     dispatch(actions.changeSelectedTab("calltree"));
   });
 
-  await new Promise((resolve) => setTimeout(resolve, 500));
+  await waitForCallTreeTab(page, true);
 
   if (functionName !== null) {
     const debugInfo = await page.evaluate(({ functionName }: { functionName: string }) => {
@@ -95,12 +554,13 @@ export async function getCallTreeData(
 
     if (debugInfo.error) {
       console.log(`Warning: ${debugInfo.error}`);
+    } else {
+      await waitForCallTree(page, debugInfo.transforms.length);
     }
-    await new Promise((resolve) => setTimeout(resolve, 5000));
   }
 
   if (markerTransform !== null) {
-    await page.evaluate(({ markerTransform }: { markerTransform: string }) => {
+    const transformCount = await page.evaluate(({ markerTransform }: { markerTransform: string }) => {
       const dispatch = window.dispatch;
       const actions = window.actions;
       const threadsKey = selectors.urlState.getSelectedThreadsKey(getState());
@@ -113,15 +573,13 @@ export async function getCallTreeData(
         })
       );
 
-      return true;
+      return selectors.urlState.getTransformStack(getState(), threadsKey).length as number;
     }, { markerTransform });
 
-    await new Promise((resolve) => setTimeout(resolve, 2000));
+    await waitForCallTree(page, transformCount);
   }
 
-  if (functionName === null && markerTransform === null) {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-  }
+  await applyTransforms(page, transforms);
 
   const jsonString = await page.evaluate(
     async ({ topN, detailed }: { topN: number; detailed: boolean }) => {
@@ -192,7 +650,10 @@ export async function getCallTreeData(
     { topN, detailed }
   );
 
-  await page.close();
+  if (onViewUrl !== null) {
+    // The profiler keeps its URL in sync with the view state.
+    onViewUrl(await page.evaluate(() => window.location.href));
+  }
 
   if (typeof jsonString !== "string") {
     throw new Error("Did not get back a string");
@@ -208,34 +669,41 @@ export async function getCallTreeData(
   return result.topNodes;
 }
 
-export async function getMarkerSummary(
-  browser: Browser,
-  url: string
+// The markers that match the --where conditions, summarized by name, or by
+// name and the value of the --group-by payload field (see marker-schema.ts).
+export async function queryMarkerSummary(
+  page: Page,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null,
+  groupBy: string | null = null,
+  where: MarkerCondition[] = []
 ): Promise<MarkerSummary[]> {
-  const page = await browser.newPage({
-    bypassCSP: true,
-  });
+  await selectThreads(page, threadSelection);
+  await commitRangeSelection(page, rangeSelection);
 
-  page.setDefaultTimeout(0);
-
-  await page.goto(url);
-
-  await page.waitForFunction(() => {
-    return (
-      window.selectors &&
-      selectors.app.getView(getState()).phase == "DATA_LOADED"
-    );
-  });
-
-  await page.waitForFunction(() => {
-    return selectors.profile.getSymbolicationStatus(getState()) == "DONE";
-  });
-
-  const jsonString = await page.evaluate(() => {
+  const jsonString = await page.evaluate(({ groupBy, where }: { groupBy: string | null; where: MarkerCondition[] }) => {
     const filteredMarkers = window.filteredMarkers;
     const stringTable = window.filteredThread.stringTable;
+    const schemaByName = selectors.profile.getMarkerSchemaByName(getState());
     const markerStats = new Map<string, { durations: number[] }>();
 
+    // A payload field by its key or schema label, with string table indexes
+    // resolved; null when the marker does not have it.
+    function getFieldValue(data: any, field: string): string | null {
+      if (!data) {
+        return null;
+      }
+      const schema = typeof data.type === "string" ? schemaByName[data.type] : undefined;
+      const schemaFields = schema ? (schema.fields ?? schema.data ?? []).filter((f: any) => f.key !== undefined) : [];
+      const schemaField = schemaFields.find((f: any) => f.key === field) ??
+        schemaFields.find((f: any) => f.label !== undefined && f.label.toLowerCase() === field.toLowerCase());
+      let value = data[schemaField ? schemaField.key : field];
+      if (schemaField && ["unique-string", "flow-id", "terminating-flow-id"].includes(schemaField.format) && typeof value === "number") {
+        value = stringTable.getString(value);
+      }
+      return value === undefined || value === null || typeof value === "object" ? null : String(value);
+    }
+
     let totalMarkers = filteredMarkers.length;
 
     for (let i = 0; i < filteredMarkers.length; i++) {
@@ -250,6 +718,10 @@ export async function getMarkerSummary(
         continue;
       }
 
+      if (!where.every((condition) => getFieldValue(marker.data, condition.field) === condition.value)) {
+        continue;
+      }
+
       let markerName = marker.name;
 
       if (marker.data && marker.data.name !== undefined) {
@@ -261,6 +733,11 @@ export async function getMarkerSummary(
         }
       }
 
+      const groupValue = groupBy !== null ? getFieldValue(marker.data, groupBy) : null;
+      if (groupValue !== null) {
+        markerName = `${markerName} (${groupValue})`;
+      }
+
       if (!markerStats.has(markerName)) {
         markerStats.set(markerName, { durations: [] });
       }
@@ -290,9 +767,7 @@ export async function getMarkerSummary(
     summaries.sort((a, b) => b.count - a.count);
 
     return JSON.stringify({ summaries });
-  });
-
-  await page.close();
+  }, { groupBy, where });
 
   if (typeof jsonString !== "string") {
     throw new Error("Did not get back a string");
@@ -302,40 +777,236 @@ export async function getMarkerSummary(
   return result.summaries;
 }
 
-export async function getFlamegraphData(
-  browser: Browser,
-  url: string,
-  maxDepth: number | null = null,
-  functionName: string | null = null,
-  markerTransform: string | null = null
-): Promise<FlameNode[]> {
-  const page = await browser.newPage({
-    bypassCSP: true,
+// Every marker of the selected threads. The range is committed for all of them
+// first, then the markers are read one thread at a time so that each instance
+// keeps its thread.
+export async function queryMarkerInstances(
+  page: Page,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null
+): Promise<MarkerInstance[]> {
+  await selectThreads(page, threadSelection);
+  await commitRangeSelection(page, rangeSelection);
+
+  const threadIndexes = await page.evaluate(() => {
+    return [...selectors.urlState.getSelectedThreadIndexes(getState())] as number[];
   });
 
-  page.setDefaultTimeout(0);
+  const instances: MarkerInstance[] = [];
+  for (const index of threadIndexes) {
+    const threadInstances = await page.evaluate(({ index }: { index: number }) => {
+      window.dispatch(window.actions.changeSelectedThreads(new Set([index])));
+      const state = getState();
+      const zeroAt = selectors.profile.getZeroAt(state);
+      const categoryList = selectors.profile.getCategories(state);
+      const thread = selectors.profile.getThreads(state)[index];
+      const filteredMarkers = window.filteredMarkers;
+      const stringTable = window.filteredThread.stringTable;
+      const result: any[] = [];
 
-  await page.goto(url);
+      for (let i = 0; i < filteredMarkers.length; i++) {
+        const marker = filteredMarkers[i];
+        const data = marker.data || {};
 
-  await page.waitForFunction(() => {
-    return (
-      window.selectors &&
-      selectors.app.getView(getState()).phase == "DATA_LOADED"
-    );
+        let markerName = marker.name;
+        if (data.name !== undefined) {
+          markerName = typeof data.name === "number" ? stringTable.getString(data.name) : data.name;
+        }
+
+        const fields: { [field: string]: string | number | boolean | null } = {};
+        for (const [field, value] of Object.entries(data)) {
+          if (field !== "type" && (value === null || ["string", "number", "boolean"].includes(typeof value))) {
+            fields[field] = field === "name" ? markerName : value as string | number | boolean | null;
+          }
+        }
+
+        const end = marker.end !== null && marker.end !== undefined ? marker.end : null;
+        result.push({
+          name: markerName,
+          type: typeof data.type === "string" ? data.type : null,
+          start: marker.start - zeroAt,
+          end: end !== null ? end - zeroAt : null,
+          duration: end !== null ? end - marker.start : null,
+          thread: thread.name,
+          tid: String(thread.tid),
+          category: categoryList[marker.category] ? categoryList[marker.category].name : null,
+          data: fields,
+        });
+      }
+      return JSON.stringify(result);
+    }, { index });
+
+    if (typeof threadInstances !== "string") {
+      throw new Error("Did not get back a string");
+    }
+    instances.push(...JSON.parse(threadInstances));
+  }
+
+  return instances.sort((a, b) => a.start - b.start);
+}
+
+// The markers named `markerName` (by their name or their payload's name) that
+// match the --where conditions, read one thread at a time like
+// queryMarkerInstances. The navigation start is looked up before the range is
+// committed, so that it is found outside of it.
+export async function queryMarkerList(
+  page: Page,
+  markerName: string,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null,
+  sortBy: MarkerListing["sortBy"] = "start",
+  limit: number | null = null,
+  where: MarkerCondition[] = []
+): Promise<MarkerListing> {
+  await selectThreads(page, threadSelection);
+
+  const { threadIndexes, navigationStart, zeroAt, markerSchema } = await page.evaluate(() => {
+    const state = getState();
+    const stringTable = window.filteredThread.stringTable;
+    const navigationMarker = window.filteredMarkers.find((marker: any) => {
+      const name = marker.data && marker.data.name !== undefined
+        ? (typeof marker.data.name === "number" ? stringTable.getString(marker.data.name) : marker.data.name)
+        : marker.name;
+      return name === "Navigation::Start";
+    });
+    return {
+      threadIndexes: [...selectors.urlState.getSelectedThreadIndexes(state)] as number[],
+      navigationStart: navigationMarker ? navigationMarker.start as number : null,
+      zeroAt: selectors.profile.getZeroAt(state) as number,
+      markerSchema: selectors.profile.getProfile(state).meta.markerSchema as MarkerSchema[],
+    };
   });
 
-  await page.waitForFunction(() => {
-    return selectors.profile.getSymbolicationStatus(getState()) == "DONE";
+  await commitRangeSelection(page, rangeSelection);
+
+  const entries: RawMarkerEntry[] = [];
+  for (const index of threadIndexes) {
+    const threadEntries = await page.evaluate(({ index, markerName }: { index: number; markerName: string }) => {
+      window.dispatch(window.actions.changeSelectedThreads(new Set([index])));
+      const state = getState();
+      const categoryList = selectors.profile.getCategories(state);
+      const schemaByName = selectors.profile.getMarkerSchemaByName(state);
+      const thread = selectors.profile.getThreads(state)[index];
+      const stringTable = window.filteredThread.stringTable;
+      const result: any[] = [];
+
+      for (const marker of window.filteredMarkers) {
+        const data = marker.data ? { ...marker.data } : null;
+        if (data && typeof data.name === "number") {
+          data.name = stringTable.getString(data.name);
+        }
+        if (marker.name !== markerName && !(data && data.name === markerName)) {
+          continue;
+        }
+
+        // Resolve the string table indexes, which are only valid in the page.
+        const schema = data && typeof data.type === "string" ? schemaByName[data.type] : undefined;
+        for (const field of schema ? (schema.fields ?? schema.data ?? []) : []) {
+          if (["unique-string", "flow-id", "terminating-flow-id"].includes(field.format) && typeof data[field.key] === "number") {
+            data[field.key] = stringTable.getString(data[field.key]);
+          }
+        }
+
+        result.push({
+          name: data && typeof data.name === "string" ? data.name : marker.name,
+          start: marker.start,
+          end: marker.end !== null && marker.end !== undefined ? marker.end : null,
+          thread: thread.name,
+          tid: String(thread.tid),
+          category: categoryList[marker.category] ? categoryList[marker.category].name : null,
+          data,
+        });
+      }
+      return JSON.stringify(result);
+    }, { index, markerName });
+
+    if (typeof threadEntries !== "string") {
+      throw new Error("Did not get back a string");
+    }
+    entries.push(...JSON.parse(threadEntries));
+  }
+
+  const schemaByName = getMarkerSchemaByName(markerSchema);
+  const matching = entries.filter((entry) => matchesMarkerConditions(entry.data, entry.data && schemaByName.get(entry.data.type), where));
+  return buildMarkerListing(markerName, matching, markerSchema, navigationStart, zeroAt, sortBy, limit);
+}
+
+// The flamegraph of each selected thread on its own, queried one thread at a
+// time.
+export async function queryThreadFlamegraphData(
+  page: Page,
+  functionName: string | null = null,
+  markerTransform: string | null = null,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null,
+  transforms: Transform[] = [],
+  inverted: boolean = false
+): Promise<ThreadFlamegraph[]> {
+  const threads = await getThreadInfoFromPage(page);
+  const threadIndexes = threadSelection !== null && (threadSelection.thread !== null || threadSelection.process !== null)
+    ? resolveThreadSelection(threads, threadSelection)
+    : initialViews.get(page)?.threadIndexes || [];
+
+  const result: ThreadFlamegraph[] = [];
+  for (const index of threadIndexes) {
+    await resetProfileView(page);
+    const roots = await queryFlamegraphData(
+      page, null, functionName, markerTransform, { thread: String(index), process: null }, rangeSelection, transforms, inverted
+    );
+    result.push({ thread: threads[index], roots, functions: await queryFunctionLocations(page) });
+  }
+  return result;
+}
+
+// The file and line of each function of the selected thread, by name.
+async function queryFunctionLocations(page: Page): Promise<{ [name: string]: FunctionLocation }> {
+  return page.evaluate(() => {
+    const state = getState();
+    const { funcTable, stringTable } = selectors.selectedThread.getThread(state);
+    const shared = selectors.profile.getProfile(state).shared;
+    const sources = shared ? shared.sources : undefined;
+    const locations: { [name: string]: { fileName: string | null; lineNumber: number | null } } = {};
+
+    for (let i = 0; i < funcTable.length; i++) {
+      const name = stringTable.getString(funcTable.name[i]);
+      let fileNameIndex = null;
+      if (funcTable.fileName) {
+        fileNameIndex = funcTable.fileName[i];
+      } else if (funcTable.source && sources) {
+        const source = funcTable.source[i];
+        fileNameIndex = source !== null ? sources.filename[source] : null;
+      }
+      const fileName = fileNameIndex !== null && fileNameIndex !== undefined ? stringTable.getString(fileNameIndex) : null;
+      if (!locations[name] || (locations[name].fileName === null && fileName !== null)) {
+        locations[name] = { fileName, lineNumber: fileName !== null ? funcTable.lineNumber[i] : null };
+      }
+    }
+    return locations;
   });
+}
 
-  await page.evaluate(() => {
+export async function queryFlamegraphData(
+  page: Page,
+  maxDepth: number | null = null,
+  functionName: string | null = null,
+  markerTransform: string | null = null,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null,
+  transforms: Transform[] = [],
+  inverted: boolean = false,
+  onViewUrl: ((url: string) => void) | null = null
+): Promise<FlameNode[]> {
+  await selectThreads(page, threadSelection);
+  await commitRangeSelection(page, rangeSelection);
+
+  await page.evaluate(({ inverted }: { inverted: boolean }) => {
     const dispatch = window.dispatch;
     const actions = window.actions;
-    dispatch(actions.changeInvertCallstack(false));
+    dispatch(actions.changeInvertCallstack(inverted));
     dispatch(actions.changeSelectedTab("calltree"));
-  });
+  }, { inverted });
 
-  await new Promise((resolve) => setTimeout(resolve, 500));
+  await waitForCallTreeTab(page, inverted);
 
   if (functionName !== null) {
     const debugInfo = await page.evaluate(({ functionName }: { functionName: string }) => {
@@ -387,12 +1058,13 @@ export async function getFlamegraphData(
 
     if (debugInfo.error) {
       console.log(`Warning: ${debugInfo.error}`);
+    } else {
+      await waitForCallTree(page, debugInfo.transforms.length);
     }
-    await new Promise((resolve) => setTimeout(resolve, 5000));
   }
 
   if (markerTransform !== null) {
-    await page.evaluate(({ markerTransform }: { markerTransform: string }) => {
+    const transformCount = await page.evaluate(({ markerTransform }: { markerTransform: string }) => {
       const dispatch = window.dispatch;
       const actions = window.actions;
       const threadsKey = selectors.urlState.getSelectedThreadsKey(getState());
@@ -405,15 +1077,13 @@ export async function getFlamegraphData(
         })
       );
 
-      return true;
+      return selectors.urlState.getTransformStack(getState(), threadsKey).length as number;
     }, { markerTransform });
 
-    await new Promise((resolve) => setTimeout(resolve, 5000));
+    await waitForCallTree(page, transformCount);
   }
 
-  if (functionName === null && markerTransform === null) {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-  }
+  await applyTransforms(page, transforms);
 
   const jsonString = await page.evaluate(
     async ({ maxDepth }: { maxDepth: number | null }) => {
@@ -469,7 +1139,9 @@ export async function getFlamegraphData(
     { maxDepth }
   );
 
-  await page.close();
+  if (onViewUrl !== null) {
+    onViewUrl(await page.evaluate(() => window.location.href));
+  }
 
   if (typeof jsonString !== "string") {
     throw new Error("Did not get back a string");
@@ -479,28 +1151,11 @@ export async function getFlamegraphData(
   return result.roots;
 }
 
-export async function getPageLoadSummary(
-  browser: Browser,
-  url: string
+export async function queryPageLoadSummary(
+  page: Page,
+  threadSelection: ThreadSelection | null = null
 ): Promise<PageLoadSummary> {
-  const page = await browser.newPage({
-    bypassCSP: true,
-  });
-
-  page.setDefaultTimeout(0);
-
-  await page.goto(url);
-
-  await page.waitForFunction(() => {
-    return (
-      window.selectors &&
-      selectors.app.getView(getState()).phase == "DATA_LOADED"
-    );
-  });
-
-  await page.waitForFunction(() => {
-    return selectors.profile.getSymbolicationStatus(getState()) == "DONE";
-  });
+  await selectThreads(page, threadSelection);
 
   const jsonString = await page.evaluate(() => {
     const filteredMarkers = window.filteredMarkers;
@@ -747,8 +1402,6 @@ export async function getPageLoadSummary(
     return JSON.stringify(result);
   });
 
-  await page.close();
-
   if (typeof jsonString !== "string") {
     throw new Error("Did not get back a string");
   }
@@ -757,28 +1410,13 @@ export async function getPageLoadSummary(
   return result;
 }
 
-export async function getNetworkResources(
-  browser: Browser,
-  url: string
+export async function queryNetworkResources(
+  page: Page,
+  threadSelection: ThreadSelection | null = null,
+  rangeSelection: RangeSelection | null = null
 ): Promise<NetworkResourceSummary> {
-  const page = await browser.newPage({
-    bypassCSP: true,
-  });
-
-  page.setDefaultTimeout(0);
-
-  await page.goto(url);
-
-  await page.waitForFunction(() => {
-    return (
-      window.selectors &&
-      selectors.app.getView(getState()).phase == "DATA_LOADED"
-    );
-  });
-
-  await page.waitForFunction(() => {
-    return selectors.profile.getSymbolicationStatus(getState()) == "DONE";
-  });
+  await selectThreads(page, threadSelection);
+  await commitRangeSelection(page, rangeSelection);
 
   const jsonString = await page.evaluate(() => {
     const filteredMarkers = window.filteredMarkers;
@@ -890,8 +1528,6 @@ export async function getNetworkResources(
     });
   });
 
-  await page.close();
-
   if (typeof jsonString !== "string") {
     throw new Error("Did not get back a string");
   }
@@ -900,7 +1536,7 @@ export async function getNetworkResources(
   return result;
 }
 
-async function fetchAssemblyFromSamply(page: any, nativeSym: any): Promise<any> {
+async function fetchAssemblyFromSamply(page: any, nativeSym: any, log: OutputLog): Promise<any> {
   const libInfo = await page.evaluate(({ nativeSym }: any) => {
     const state = window.getState();
     const profile = window.selectors.profile.getProfile(state);
@@ -945,7 +1581,7 @@ async function fetchAssemblyFromSamply(page: any, nativeSym: any): Promise<any>
       body: asmBody
     });
 
-    console.log(`Samply /asm/v1 response status: ${response.status}`);
+    log(`Samply /asm/v1 response status: ${response.status}`);
 
     if (response.ok) {
       const responseText = await response.text();
@@ -954,17 +1590,17 @@ async function fetchAssemblyFromSamply(page: any, nativeSym: any): Promise<any>
       try {
         asmData = JSON.parse(responseText);
       } catch (e) {
-        console.log("Response is not JSON");
+        log("Response is not JSON");
         return null;
       }
 
-      console.log(`Response type: ${typeof asmData}, constructor: ${asmData?.constructor?.name}`);
-      console.log(`First char of response: ${responseText.substring(0, 1)}`);
-      console.log(`First 100 chars: ${responseText.substring(0, 100)}`);
+      log(`Response type: ${typeof asmData}, constructor: ${asmData?.constructor?.name}`);
+      log(`First char of response: ${responseText.substring(0, 1)}`);
+      log(`First 100 chars: ${responseText.substring(0, 100)}`);
 
       // The response should be an object with {startAddress, instructions, ...}
       if (asmData && typeof asmData === 'object' && asmData.startAddress && asmData.instructions) {
-        console.log(`Got ${asmData.instructions.length} instructions`);
+        log(`Got ${asmData.instructions.length} instructions`);
         const startAddress = parseInt(asmData.startAddress, 16);
         const instructions = asmData.instructions.map((inst: any) => ({
           address: startAddress + inst[0],
@@ -973,45 +1609,28 @@ async function fetchAssemblyFromSamply(page: any, nativeSym: any): Promise<any>
 
         return { instructions };
       } else {
-        console.log("Response doesn't have expected structure");
+        log("Response doesn't have expected structure");
       }
     } else {
-      console.log(`Response not OK: ${response.status}`);
+      log(`Response not OK: ${response.status}`);
     }
   } catch (error) {
-    console.log(`Error fetching from samply: ${error}`);
+    log(`Error fetching from samply: ${error}`);
   }
 
   return null;
 }
 
-export async function annotateFunction(
-  browser: Browser,
-  url: string,
+// Prints the assembly and/or source code of a function with the samples of
+// each instruction or line, to `log`.
+export async function queryAnnotation(
+  page: Page,
   functionName: string,
-  mode: 'asm' | 'src' | 'all'
+  mode: 'asm' | 'src' | 'all',
+  threadSelection: ThreadSelection | null = null,
+  log: OutputLog = console.log
 ): Promise<void> {
-  const page = await browser.newPage({
-    bypassCSP: true,
-  });
-
-  page.setDefaultTimeout(0);
-
-  console.log("Loading profile...");
-  await page.goto(url, { timeout: 120000 });
-
-  console.log("Waiting for profile data...");
-  await page.waitForFunction(() => {
-    return (
-      window.selectors &&
-      selectors.app.getView(getState()).phase == "DATA_LOADED"
-    );
-  }, { timeout: 300000 });
-
-  console.log("Waiting for symbolication...");
-  await page.waitForFunction(() => {
-    return selectors.profile.getSymbolicationStatus(getState()) == "DONE";
-  }, { timeout: 120000 });
+  await selectThreads(page, threadSelection);
 
   // Set up inverted call tree like --calltree does
   await page.evaluate(() => {
@@ -1021,9 +1640,9 @@ export async function annotateFunction(
     dispatch(actions.changeSelectedTab("calltree"));
   });
 
-  await new Promise((resolve) => setTimeout(resolve, 500));
+  await waitForCallTreeTab(page, true);
 
-  console.log(`Searching for function: ${functionName}`);
+  log(`Searching for function: ${functionName}`);
 
   // Find the function using call tree (same approach as --calltree)
   const result = await page.evaluate(
@@ -1060,25 +1679,24 @@ export async function annotateFunction(
   if ((result as any).error) {
     console.error((result as any).error);
     if ((result as any).matchingFunctions) {
-      console.log("\nFunctions containing 'findOptimal':");
+      log("\nFunctions containing 'findOptimal':");
       for (const fn of (result as any).matchingFunctions) {
-        console.log(`  - ${fn}`);
+        log(`  - ${fn}`);
       }
     }
-    await page.close();
     return;
   }
 
   const { funcName, selfTime, totalTime } = result as any;
-  console.log(`Found function: ${funcName}`);
-  console.log(`Self time: ${selfTime} samples, Total time: ${totalTime} samples`);
-  console.log(`Mode: ${mode}\n`);
+  log(`Found function: ${funcName}`);
+  log(`Self time: ${selfTime} samples, Total time: ${totalTime} samples`);
+  log(`Mode: ${mode}\n`);
 
   // Get native symbols for this function (needed for asm and src modes)
   // Works for any function with native symbols (JIT, C++, Rust, etc.)
   let nativeSymbolInfo: any = null;
 
-  console.log("Extracting native symbol info...");
+  log("Extracting native symbol info...");
 
   nativeSymbolInfo = await page.evaluate(
       ({ functionName }: { functionName: string }) => {
@@ -1142,37 +1760,37 @@ export async function annotateFunction(
     );
 
   if (mode === 'asm' || mode === 'all') {
-    console.log("\nExtracting assembly code...");
+    log("\nExtracting assembly code...");
 
     if (!nativeSymbolInfo || (nativeSymbolInfo as any).error) {
       console.error(`Assembly extraction failed: ${(nativeSymbolInfo as any)?.error || 'No native symbols (not JIT compiled?)'}`);
     } else {
       const { groups, totalGroups, totalNativeSymbols } = nativeSymbolInfo as any;
-      console.log(`Found ${totalNativeSymbols} native symbol(s) in ${totalGroups} compilation variant(s):\n`);
+      log(`Found ${totalNativeSymbols} native symbol(s) in ${totalGroups} compilation variant(s):\n`);
 
       for (let i = 0; i < groups.length; i++) {
         const group = groups[i];
-        console.log(`Compilation ${i + 1}:`);
-        console.log(`  Function size: ${group.functionSize} bytes`);
-        console.log(`  Native symbols: ${group.symbolCount}`);
+        log(`Compilation ${i + 1}:`);
+        log(`  Function size: ${group.functionSize} bytes`);
+        log(`  Native symbols: ${group.symbolCount}`);
 
         // Show the first symbol's info
         if (group.nativeSymbols && group.nativeSymbols.length > 0) {
           const sym = group.nativeSymbols[0];
-          console.log(`  Address: 0x${sym.address.toString(16)}`);
-          console.log(`  Name: ${sym.name}`);
+          log(`  Address: 0x${sym.address.toString(16)}`);
+          log(`  Name: ${sym.name}`);
         }
-        console.log();
+        log();
       }
 
       // For each compilation variant, get the assembly code
-      console.log("Fetching assembly code for each compilation...\n");
+      log("Fetching assembly code for each compilation...\n");
 
       for (let i = 0; i < groups.length; i++) {
         const group = groups[i];
-        console.log(`\n${"═".repeat(80)}`);
-        console.log(`Compilation ${i + 1} of ${totalGroups}`);
-        console.log(`${"═".repeat(80)}\n`);
+        log(`\n${"═".repeat(80)}`);
+        log(`Compilation ${i + 1} of ${totalGroups}`);
+        log(`${"═".repeat(80)}\n`);
 
         // Use the representative native symbol to fetch assembly
         const nativeSym = group.representativeSymbol;
@@ -1190,8 +1808,7 @@ export async function annotateFunction(
           }));
         }, { nativeSym });
 
-        // Wait for assembly to load
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+        await waitForAssemblyView(page);
 
         // Get native symbol index for line mapping
         const nativeSymbolIndex = await page.evaluate(({ nativeSym }: any) => {
@@ -1293,20 +1910,20 @@ export async function annotateFunction(
         }, { nativeSym, nativeSymbolIndex });
 
         if ((assemblyData as any).error) {
-          console.log(`Error: ${(assemblyData as any).error}`);
+          log(`Error: ${(assemblyData as any).error}`);
 
           // Check if this is a V8/malformed response error - try fetching directly from samply
           const errorStr = JSON.stringify((assemblyData as any).assemblyViewCode || '');
           if (errorStr.includes('SYMBOL_SERVER_API_MALFORMED_RESPONSE') || errorStr.includes('BROWSER_CONNECTION_ERROR')) {
-            console.log("Profiler UI failed, fetching assembly directly from samply...\n");
+            log("Profiler UI failed, fetching assembly directly from samply...\n");
 
             // Fetch assembly directly from samply
-            const samplyAsm = await fetchAssemblyFromSamply(page, nativeSym);
+            const samplyAsm = await fetchAssemblyFromSamply(page, nativeSym, log);
 
-            console.log(`Samply fetch result: ${samplyAsm ? 'success' : 'failed'}`);
+            log(`Samply fetch result: ${samplyAsm ? 'success' : 'failed'}`);
 
             if (samplyAsm && samplyAsm.instructions) {
-              console.log(`Got ${samplyAsm.instructions.length} instructions from samply`);
+              log(`Got ${samplyAsm.instructions.length} instructions from samply`);
 
               // Compute sample counts and line mappings manually from frame table
               const sampleCounts = await page.evaluate(({ nativeSymbolIndex, instructions }: any) => {
@@ -1355,49 +1972,49 @@ export async function annotateFunction(
               const instructionsWithSamples = sampleCounts as any;
               const totalSampleCount = instructionsWithSamples.reduce((sum: number, inst: any) => sum + inst.selfSamples, 0);
 
-              console.log(`Total samples: ${totalSampleCount}\n`);
+              log(`Total samples: ${totalSampleCount}\n`);
 
               if (mode === 'asm') {
                 const headerAddr = "Address".padEnd(10);
-                console.log(`${headerAddr}    Self   Total`);
-                console.log("─".repeat(80));
+                log(`${headerAddr}    Self   Total`);
+                log("─".repeat(80));
                 for (const inst of instructionsWithSamples) {
                   const addrStr = `0x${inst.address.toString(16).padStart(8, '0')}`;
                   const selfStr = inst.selfSamples > 0 ? inst.selfSamples.toString().padStart(7) : "       ";
                   const totalStr = inst.totalSamples > 0 ? inst.totalSamples.toString().padStart(7) : "       ";
                   const marker = inst.selfSamples > 0 ? "►" : " ";
-                  console.log(`${addrStr}  ${selfStr}  ${totalStr}  ${marker} ${inst.instruction}`);
+                  log(`${addrStr}  ${selfStr}  ${totalStr}  ${marker} ${inst.instruction}`);
                 }
-                console.log();
+                log();
               } else {
                 // For mode=all, store for interleaving
                 group.assemblyInstructions = instructionsWithSamples;
                 group.assemblyTotalSamples = totalSampleCount;
-                console.log(`Stored ${instructionsWithSamples.length} instructions for interleaving`);
-                console.log(`${instructionsWithSamples.filter((i: any) => i.sourceLineNumber !== null).length} instructions have source line mappings\n`);
+                log(`Stored ${instructionsWithSamples.length} instructions for interleaving`);
+                log(`${instructionsWithSamples.filter((i: any) => i.sourceLineNumber !== null).length} instructions have source line mappings\n`);
               }
             }
           }
         } else {
           const { instructions, totalSampleCount } = assemblyData as any;
-          console.log(`Total samples: ${totalSampleCount}`);
-          console.log(`Instructions: ${instructions.length}\n`);
+          log(`Total samples: ${totalSampleCount}`);
+          log(`Instructions: ${instructions.length}\n`);
 
           if (mode === 'asm') {
             // Display all instructions with sample counts
             const headerAddr = "Address".padEnd(10);
-            console.log(`${headerAddr}    Self   Total`);
-            console.log("─".repeat(80));
+            log(`${headerAddr}    Self   Total`);
+            log("─".repeat(80));
 
             for (const inst of instructions) {
               const addrStr = `0x${inst.address.toString(16).padStart(8, '0')}`;
               const selfStr = inst.selfSamples > 0 ? inst.selfSamples.toString().padStart(7) : "       ";
               const totalStr = inst.totalSamples > 0 ? inst.totalSamples.toString().padStart(7) : "       ";
               const marker = inst.selfSamples > 0 ? "►" : " ";
-              console.log(`${addrStr}  ${selfStr}  ${totalStr}  ${marker} ${inst.instruction}`);
+              log(`${addrStr}  ${selfStr}  ${totalStr}  ${marker} ${inst.instruction}`);
             }
 
-            console.log();
+            log();
           } else {
             // For mode=all, store for interleaving
             group.assemblyInstructions = instructions;
@@ -1409,7 +2026,7 @@ export async function annotateFunction(
   }
 
   if (mode === 'src' || mode === 'all') {
-    console.log("\nExtracting source code...");
+    log("\nExtracting source code...");
 
     // Get source using function's source index (like the profiler UI does when you double-click)
     const funcSourceInfo = await page.evaluate(
@@ -1440,12 +2057,12 @@ export async function annotateFunction(
       { functionName }
     );
 
-    console.log(`Function source info: ${JSON.stringify(funcSourceInfo)}`);
+    log(`Function source info: ${JSON.stringify(funcSourceInfo)}`);
 
     // For functions without source index, try triggering source load via native symbol
     if (((funcSourceInfo as any).error || (funcSourceInfo as any).sourceIndex === null) &&
         nativeSymbolInfo && !(nativeSymbolInfo as any).error) {
-      console.log("No source index, trying to load source via native symbol...");
+      log("No source index, trying to load source via native symbol...");
 
       const groups = (nativeSymbolInfo as any).groups || [];
       if (groups.length > 0) {
@@ -1465,42 +2082,18 @@ export async function annotateFunction(
         }, { nativeSym });
 
         // Wait for source to load (try polling like we do for assembly)
-        console.log("Waiting for source view to load...");
-        let attempts = 0;
-        let sourceLoaded = false;
-
-        while (attempts < 30) {
-          const sourceCheck = await page.evaluate(() => {
-            const state = window.getState();
-            const sourceViewCode = window.selectors.code.getSourceViewCode(state);
-            return {
-              exists: !!sourceViewCode,
-              type: sourceViewCode?.type || null,
-              available: sourceViewCode?.type === 'AVAILABLE',
-              codeLength: sourceViewCode?.type === 'AVAILABLE' ? sourceViewCode.code.length : 0
-            };
-          });
-
-          if (sourceCheck.available) {
-            console.log(`Source view loaded after ${attempts + 1} attempts`);
-            sourceLoaded = true;
-            break;
-          }
-
-          if (attempts % 5 === 0 && attempts > 0) {
-            console.log(`Attempt ${attempts + 1}/30: exists=${sourceCheck.exists}, type=${sourceCheck.type}`);
-          }
-
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-          attempts++;
-        }
+        log("Waiting for source view to load...");
+        await waitForSourceView(page);
+        const sourceLoaded = await page.evaluate(() => {
+          return window.selectors.code.getSourceViewCode(window.getState())?.type === 'AVAILABLE';
+        });
 
         if (!sourceLoaded) {
-          console.log("Source view did not load after 30 seconds");
+          log("Source view did not load");
         }
 
         if (sourceLoaded) {
-          console.log("Source loaded via native symbol!\n");
+          log("Source loaded via native symbol!\n");
 
           // Get source with line timings
           const sourceData = await page.evaluate(() => {
@@ -1567,21 +2160,20 @@ export async function annotateFunction(
             }
 
             if (mode === 'src') {
-              console.log(`Source code (${relevantLines.length} lines, ${totalSamples} samples):\n`);
+              log(`Source code (${relevantLines.length} lines, ${totalSamples} samples):\n`);
               const headerLine = "Line".padEnd(10);
-              console.log(`${headerLine}    Self   Total`);
-              console.log("─".repeat(80));
+              log(`${headerLine}    Self   Total`);
+              log("─".repeat(80));
 
               for (const line of relevantLines) {
                 const lineNum = line.lineNumber.toString().padStart(10);
                 const selfStr = line.selfSamples > 0 ? line.selfSamples.toString().padStart(7) : "       ";
                 const totalStr = line.totalSamples > 0 ? line.totalSamples.toString().padStart(7) : "       ";
                 const marker = line.selfSamples > 0 ? "►" : " ";
-                console.log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
+                log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
               }
-              console.log();
+              log();
 
-              await page.close();
               return;
             }
 
@@ -1591,9 +2183,9 @@ export async function annotateFunction(
 
               for (const group of groups) {
                 if (group.assemblyInstructions) {
-                  console.log(`\n${"═".repeat(80)}`);
-                  console.log("Interleaved Source and Assembly");
-                  console.log(`${"═".repeat(80)}\n`);
+                  log(`\n${"═".repeat(80)}`);
+                  log("Interleaved Source and Assembly");
+                  log(`${"═".repeat(80)}\n`);
 
                   const sourceLineMap = new Map<number, any>();
                   for (const line of relevantLines) {
@@ -1601,8 +2193,8 @@ export async function annotateFunction(
                   }
 
                   const headerLine = "Line/Addr".padEnd(10);
-                  console.log(`${headerLine}    Self   Total`);
-                  console.log("─".repeat(80));
+                  log(`${headerLine}    Self   Total`);
+                  log("─".repeat(80));
 
                   let lastSourceLineShown = 0;
                   let justShowedSource = false;
@@ -1618,7 +2210,7 @@ export async function annotateFunction(
 
                       if (hasSourceToShow) {
                         if (justShowedSource === false && lastSourceLineShown > 0) {
-                          console.log();
+                          log();
                         }
 
                         for (const line of relevantLines) {
@@ -1627,7 +2219,7 @@ export async function annotateFunction(
                             const selfStr = line.selfSamples > 0 ? line.selfSamples.toString().padStart(7) : "       ";
                             const totalStr = line.totalSamples > 0 ? line.totalSamples.toString().padStart(7) : "       ";
                             const marker = line.selfSamples > 0 ? "►" : " ";
-                            console.log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
+                            log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
 
                             lastSourceLineShown = line.lineNumber;
                           }
@@ -1638,7 +2230,7 @@ export async function annotateFunction(
                         const nextWillShowSource = nextInst && nextInst.sourceLineNumber !== null &&
                                                    nextInst.sourceLineNumber > lastSourceLineShown;
                         if (!nextWillShowSource) {
-                          console.log();
+                          log();
                         }
                       }
                     } else {
@@ -1649,28 +2241,27 @@ export async function annotateFunction(
                     const selfStr = inst.selfSamples > 0 ? inst.selfSamples.toString().padStart(7) : "       ";
                     const totalStr = inst.totalSamples > 0 ? inst.totalSamples.toString().padStart(7) : "       ";
                     const marker = inst.selfSamples > 0 ? "►" : " ";
-                    console.log(`${addrStr}  ${selfStr}  ${totalStr}  ${marker} ${inst.instruction}`);
+                    log(`${addrStr}  ${selfStr}  ${totalStr}  ${marker} ${inst.instruction}`);
                   }
 
                   const hasRemainingSource = relevantLines.some((l: any) => l.lineNumber > lastSourceLineShown);
                   if (hasRemainingSource) {
-                    console.log();
+                    log();
                     for (const line of relevantLines) {
                       if (line.lineNumber > lastSourceLineShown) {
                         const lineNum = line.lineNumber.toString().padStart(10);
                         const selfStr = line.selfSamples > 0 ? line.selfSamples.toString().padStart(7) : "       ";
                         const totalStr = line.totalSamples > 0 ? line.totalSamples.toString().padStart(7) : "       ";
                         const marker = line.selfSamples > 0 ? "►" : " ";
-                        console.log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
+                        log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
                       }
                     }
                   }
 
-                  console.log();
+                  log();
                 }
               }
 
-              await page.close();
               return;
             }
           }
@@ -1679,14 +2270,14 @@ export async function annotateFunction(
     }
 
     if ((funcSourceInfo as any).error || (funcSourceInfo as any).sourceIndex === null) {
-      console.log("No source index for this function, trying alternative method...");
+      log("No source index for this function, trying alternative method...");
 
       // For V8/functions without source index, try to load source by file path
       // Extract file path from function name: "JS:o*run /path/file.js:58:13"
       const fileMatch = functionName.match(/\s([^\s]+\.js):\d+:\d+/);
       if (fileMatch) {
         const filePath = fileMatch[1];
-        console.log(`Trying to load source from file: ${filePath}\n`);
+        log(`Trying to load source from file: ${filePath}\n`);
 
         // Try to read the file directly if it exists
         const fs = await import('fs');
@@ -1746,10 +2337,10 @@ export async function annotateFunction(
           const totalSamplesInSource = Object.values(sampleCounts).reduce((sum: number, val: any) => sum + val, 0);
 
           if (totalSamplesInSource === 0) {
-            console.log(`Note: V8 jitdumps don't include source line debug info (frameTable.line is empty)`);
-            console.log(`Showing source structure only, sample counts not available\n`);
+            log(`Note: V8 jitdumps don't include source line debug info (frameTable.line is empty)`);
+            log(`Showing source structure only, sample counts not available\n`);
           } else {
-            console.log(`Got sample counts for ${Object.keys(sampleCounts).length} lines, total ${totalSamplesInSource} samples\n`);
+            log(`Got sample counts for ${Object.keys(sampleCounts).length} lines, total ${totalSamplesInSource} samples\n`);
           }
 
           const linesWithSamples = lines.map((text: string, index: number) => ({
@@ -1789,18 +2380,17 @@ export async function annotateFunction(
 
           // For mode=src, display source
           if (mode === 'src') {
-            console.log(`Source code (${relevantLines.length} lines, read from file):\n`);
+            log(`Source code (${relevantLines.length} lines, read from file):\n`);
             const headerLine = "Line".padEnd(10);
-            console.log(`${headerLine}    Self   Total`);
-            console.log("─".repeat(80));
+            log(`${headerLine}    Self   Total`);
+            log("─".repeat(80));
 
             for (const line of relevantLines) {
               const lineNum = line.lineNumber.toString().padStart(10);
-              console.log(`${lineNum}                      ${line.text}`);
+              log(`${lineNum}                      ${line.text}`);
             }
-            console.log();
+            log();
 
-            await page.close();
             return;
           }
 
@@ -1813,9 +2403,9 @@ export async function annotateFunction(
 
             for (const group of groups) {
               if (group.assemblyInstructions) {
-                console.log(`\n${"═".repeat(80)}`);
-                console.log("Interleaved Source and Assembly");
-                console.log(`${"═".repeat(80)}\n`);
+                log(`\n${"═".repeat(80)}`);
+                log("Interleaved Source and Assembly");
+                log(`${"═".repeat(80)}\n`);
 
                 // Build map of line number -> source text for quick lookup
                 const sourceLineMap = new Map<number, any>();
@@ -1825,8 +2415,8 @@ export async function annotateFunction(
 
                 // Header row
                 const headerLine = "Line/Addr".padEnd(10);
-                console.log(`${headerLine}    Self   Total`);
-                console.log("─".repeat(80));
+                log(`${headerLine}    Self   Total`);
+                log("─".repeat(80));
 
                 // Display ALL assembly instructions in address order
                 // Show ALL source lines, inserting assembly where it maps
@@ -1846,7 +2436,7 @@ export async function annotateFunction(
                     if (hasSourceToShow) {
                       // Blank line before source block (if we just showed assembly)
                       if (justShowedSource === false && lastSourceLineShown > 0) {
-                        console.log();
+                        log();
                       }
 
                       // Show all source lines from lastSourceLineShown+1 up to and including this line
@@ -1857,7 +2447,7 @@ export async function annotateFunction(
                           const selfStr = line.selfSamples > 0 ? line.selfSamples.toString().padStart(7) : "       ";
                           const totalStr = line.totalSamples > 0 ? line.totalSamples.toString().padStart(7) : "       ";
                           const marker = line.selfSamples > 0 ? "►" : " ";
-                          console.log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
+                          log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
 
                           lastSourceLineShown = line.lineNumber;
                         }
@@ -1869,7 +2459,7 @@ export async function annotateFunction(
                       const nextWillShowSource = nextInst && nextInst.sourceLineNumber !== null &&
                                                  nextInst.sourceLineNumber > lastSourceLineShown;
                       if (!nextWillShowSource) {
-                        console.log();
+                        log();
                       }
                     }
                   } else {
@@ -1881,36 +2471,35 @@ export async function annotateFunction(
                   const selfStr = inst.selfSamples > 0 ? inst.selfSamples.toString().padStart(7) : "       ";
                   const totalStr = inst.totalSamples > 0 ? inst.totalSamples.toString().padStart(7) : "       ";
                   const marker = inst.selfSamples > 0 ? "►" : " ";
-                  console.log(`${addrStr}  ${selfStr}  ${totalStr}  ${marker} ${inst.instruction}`);
+                  log(`${addrStr}  ${selfStr}  ${totalStr}  ${marker} ${inst.instruction}`);
                 }
 
                 // Show any remaining source lines
                 const hasRemainingSource = relevantLines.some((l: any) => l.lineNumber > lastSourceLineShown);
                 if (hasRemainingSource) {
-                  console.log();
+                  log();
                   for (const line of relevantLines) {
                     if (line.lineNumber > lastSourceLineShown) {
                       const lineNum = line.lineNumber.toString().padStart(10);
                       const selfStr = line.selfSamples > 0 ? line.selfSamples.toString().padStart(7) : "       ";
                       const totalStr = line.totalSamples > 0 ? line.totalSamples.toString().padStart(7) : "       ";
                       const marker = line.selfSamples > 0 ? "►" : " ";
-                      console.log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
+                      log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
                     }
                   }
                 }
 
-                console.log();
+                log();
               }
             }
 
-            await page.close();
             return;
           }
         }
       }
     } else {
       const sourceIndex = (funcSourceInfo as any).sourceIndex;
-      console.log(`Function source index: ${sourceIndex}`);
+      log(`Function source index: ${sourceIndex}`);
 
       // Check what this source index points to
       const sourceInfo = await page.evaluate(({ sourceIndex }: any) => {
@@ -1931,7 +2520,7 @@ export async function annotateFunction(
         return { sourceIndex, fileName: null, category: null };
       }, { sourceIndex });
 
-      console.log(`Source info: ${JSON.stringify(sourceInfo)}`);
+      log(`Source info: ${JSON.stringify(sourceInfo)}`);
 
       // Dispatch to load this source
       await page.evaluate(({ sourceIndex }: any) => {
@@ -1945,8 +2534,7 @@ export async function annotateFunction(
         }));
       }, { sourceIndex });
 
-      // Wait and check if source loads
-      await new Promise((resolve) => setTimeout(resolve, 3000));
+      await waitForSourceView(page);
 
       const sourceData = await page.evaluate(() => {
         const state = window.getState();
@@ -2015,13 +2603,13 @@ export async function annotateFunction(
       if ((sourceData as any).success) {
         const { lines, totalLines, totalSamples, sourceFile, debug } = sourceData as any;
 
-        console.log(`Source file: ${sourceFile}`);
+        log(`Source file: ${sourceFile}`);
 
         if (debug) {
-          console.log(`Debug: selfHits has ${debug.selfHitsSize} entries, totalHits has ${debug.totalHitsSize} entries`);
-          console.log(`Debug: selfHits keys: ${JSON.stringify(debug.debugSelfKeys)}`);
-          console.log(`Debug: selfHits values: ${JSON.stringify(debug.debugSelfValues)}`);
-          console.log();
+          log(`Debug: selfHits has ${debug.selfHitsSize} entries, totalHits has ${debug.totalHitsSize} entries`);
+          log(`Debug: selfHits keys: ${JSON.stringify(debug.debugSelfKeys)}`);
+          log(`Debug: selfHits values: ${JSON.stringify(debug.debugSelfValues)}`);
+          log();
         }
 
         // Extract function start line from function name
@@ -2068,7 +2656,7 @@ export async function annotateFunction(
               const fileNameMatch = functionName.match(/\/([^/]+)-benchmark\.js/);
               const primaryFunctionName = fileNameMatch ? fileNameMatch[1] : null;
 
-              console.log(`Note: Optimized code has inlined functions. Primary function: ${primaryFunctionName}\n`);
+              log(`Note: Optimized code has inlined functions. Primary function: ${primaryFunctionName}\n`);
 
               // If we can identify a primary function, show only that
               if (primaryFunctionName) {
@@ -2089,7 +2677,7 @@ export async function annotateFunction(
                       }
                     }
 
-                    console.log(`Found ${primaryFunctionName} at lines ${funcStartLine}-${funcEndLine}\n`);
+                    log(`Found ${primaryFunctionName} at lines ${funcStartLine}-${funcEndLine}\n`);
                     relevantLines = lines.filter((l: any) =>
                       l.lineNumber >= funcStartLine && l.lineNumber <= funcEndLine
                     );
@@ -2098,7 +2686,7 @@ export async function annotateFunction(
                 }
               } else {
                 // Fall back to showing all functions with samples
-                console.log(`Showing all functions with samples.\n`);
+                log(`Showing all functions with samples.\n`);
 
                 // Find functions that contain samples by looking for function boundaries
                 const functionsWithSamples = new Set<number>(); // Set of function start lines
@@ -2163,28 +2751,27 @@ export async function annotateFunction(
           const actualSamplesOnLines = relevantLines.reduce((sum: number, l: any) => sum + (l.selfSamples || 0), 0);
           const linesWithSamples = relevantLines.filter((l: any) => l.selfSamples > 0).length;
 
-          console.log(`Source code (${relevantLines.length} lines):`);
-          console.log(`  ${actualSamplesOnLines} samples mapped to specific lines`);
+          log(`Source code (${relevantLines.length} lines):`);
+          log(`  ${actualSamplesOnLines} samples mapped to specific lines`);
           if (totalSamples > actualSamplesOnLines) {
-            console.log(`  ${totalSamples - actualSamplesOnLines} samples without line info\n`);
+            log(`  ${totalSamples - actualSamplesOnLines} samples without line info\n`);
           } else {
-            console.log();
+            log();
           }
 
           const headerLine = "Line".padEnd(10);
-          console.log(`${headerLine}    Self   Total`);
-          console.log("─".repeat(80));
+          log(`${headerLine}    Self   Total`);
+          log("─".repeat(80));
 
           for (const line of relevantLines) {
             const lineNum = line.lineNumber.toString().padStart(10);
             const selfStr = line.selfSamples > 0 ? line.selfSamples.toString().padStart(7) : "       ";
             const totalStr = line.totalSamples > 0 ? line.totalSamples.toString().padStart(7) : "       ";
             const marker = line.selfSamples > 0 ? "►" : " ";
-            console.log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
+            log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
           }
-          console.log();
+          log();
 
-          await page.close();
           return;
         }
 
@@ -2194,9 +2781,9 @@ export async function annotateFunction(
 
           for (const group of groups) {
             if (group.assemblyInstructions) {
-              console.log(`\n${"═".repeat(80)}`);
-              console.log("Interleaved Source and Assembly");
-              console.log(`${"═".repeat(80)}\n`);
+              log(`\n${"═".repeat(80)}`);
+              log("Interleaved Source and Assembly");
+              log(`${"═".repeat(80)}\n`);
 
               // Build map of line number -> source text for quick lookup
               const sourceLineMap = new Map<number, any>();
@@ -2206,8 +2793,8 @@ export async function annotateFunction(
 
               // Header row
               const headerLine = "Line/Addr".padEnd(10);
-              console.log(`${headerLine}    Self   Total`);
-              console.log("─".repeat(80));
+              log(`${headerLine}    Self   Total`);
+              log("─".repeat(80));
 
               // Display ALL assembly instructions in address order
               // Show ALL source lines, inserting assembly where it maps
@@ -2227,7 +2814,7 @@ export async function annotateFunction(
                   if (hasSourceToShow) {
                     // Blank line before source block (if we just showed assembly)
                     if (justShowedSource === false && lastSourceLineShown > 0) {
-                      console.log();
+                      log();
                     }
 
                     // Show all source lines from lastSourceLineShown+1 up to and including this line
@@ -2238,7 +2825,7 @@ export async function annotateFunction(
                         const selfStr = line.selfSamples > 0 ? line.selfSamples.toString().padStart(7) : "       ";
                         const totalStr = line.totalSamples > 0 ? line.totalSamples.toString().padStart(7) : "       ";
                         const marker = line.selfSamples > 0 ? "►" : " ";
-                        console.log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
+                        log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
 
                         lastSourceLineShown = line.lineNumber;
                       }
@@ -2251,7 +2838,7 @@ export async function annotateFunction(
                     const nextWillShowSource = nextInst && nextInst.sourceLineNumber !== null &&
                                                nextInst.sourceLineNumber > lastSourceLineShown;
                     if (!nextWillShowSource) {
-                      console.log();
+                      log();
                     }
                   }
                 } else {
@@ -2263,36 +2850,33 @@ export async function annotateFunction(
                 const selfStr = inst.selfSamples > 0 ? inst.selfSamples.toString().padStart(7) : "       ";
                 const totalStr = inst.totalSamples > 0 ? inst.totalSamples.toString().padStart(7) : "       ";
                 const marker = inst.selfSamples > 0 ? "►" : " ";
-                console.log(`${addrStr}  ${selfStr}  ${totalStr}  ${marker} ${inst.instruction}`);
+                log(`${addrStr}  ${selfStr}  ${totalStr}  ${marker} ${inst.instruction}`);
               }
 
               // Show any remaining source lines that weren't encountered
               const hasRemainingSource = relevantLines.some((l: any) => l.lineNumber > lastSourceLineShown);
               if (hasRemainingSource) {
-                console.log();
+                log();
                 for (const line of relevantLines) {
                   if (line.lineNumber > lastSourceLineShown) {
                     const lineNum = line.lineNumber.toString().padStart(10);
                     const selfStr = line.selfSamples > 0 ? line.selfSamples.toString().padStart(7) : "       ";
                     const totalStr = line.totalSamples > 0 ? line.totalSamples.toString().padStart(7) : "       ";
                     const marker = line.selfSamples > 0 ? "►" : " ";
-                    console.log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
+                    log(`${lineNum}  ${selfStr}  ${totalStr}  ${marker} ${line.text}`);
                   }
                 }
               }
 
-              console.log();
+              log();
             }
           }
 
-          await page.close();
           return;
         }
       } else {
-        console.log(`Source did not load: ${JSON.stringify(sourceData)}\n`);
+        log(`Source did not load: ${JSON.stringify(sourceData)}\n`);
       }
     }
   }
-
-  await page.close();
 }
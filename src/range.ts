@@ -0,0 +1,116 @@
+import { SelectionError } from "./threads.js";
+
+export interface RangeSelection {
+  // A range relative to the profile start, e.g. "1200ms-3400ms" or "1.2s-3.4s".
+  range: string | null;
+  fromMarker: string | null;
+  toMarker: string | null;
+  // 1-based instance of fromMarker to use; defaults to the first one.
+  markerIndex: number | null;
+}
+
+// Absolute timestamps, in the same time base as samples and markers.
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface RangeMarker {
+  name: string;
+  start: number;
+  end: number | null;
+}
+
+export function hasRangeSelection(rangeSelection: RangeSelection | null): rangeSelection is RangeSelection {
+  return (
+    rangeSelection !== null &&
+    (rangeSelection.range !== null || rangeSelection.fromMarker !== null || rangeSelection.toMarker !== null)
+  );
+}
+
+function parseTime(value: string, unit: string | undefined): number {
+  const time = parseFloat(value);
+  return unit === "s" ? time * 1000 : time;
+}
+
+// Parses "START-END" where both ends are in ms unless suffixed with "s".
+export function parseTimeRange(value: string): TimeRange {
+  const match = value.match(/^\s*(\d+(?:\.\d+)?)\s*(ms|s)?\s*-\s*(\d+(?:\.\d+)?)\s*(ms|s)?\s*$/);
+  if (!match) {
+    throw new Error(`Invalid range "${value}", expected e.g. "1200ms-3400ms"`);
+  }
+
+  const start = parseTime(match[1], match[2]);
+  const end = parseTime(match[3], match[4]);
+  if (end <= start) {
+    throw new Error(`Invalid range "${value}": the end must be after the start`);
+  }
+  return { start, end };
+}
+
+export function formatRangeSelection(rangeSelection: RangeSelection): string {
+  if (rangeSelection.range !== null) {
+    return rangeSelection.range;
+  }
+
+  const parts = [];
+  if (rangeSelection.fromMarker !== null) {
+    const index = rangeSelection.markerIndex !== null ? ` #${rangeSelection.markerIndex}` : "";
+    parts.push(`from "${rangeSelection.fromMarker}"${index}`);
+  }
+  if (rangeSelection.toMarker !== null) {
+    parts.push(`to "${rangeSelection.toMarker}"`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Turns a range selection into absolute start and end times. `zeroAt` is the
+ * profile's zero, which relative ranges are based on, and `markers` must contain
+ * the instances of the requested marker names, sorted by start time.
+ */
+export function resolveRangeSelection(
+  rangeSelection: RangeSelection,
+  zeroAt: number,
+  profileEnd: number,
+  markers: RangeMarker[]
+): TimeRange {
+  if (rangeSelection.range !== null) {
+    const { start, end } = parseTimeRange(rangeSelection.range);
+    return { start: zeroAt + start, end: zeroAt + end };
+  }
+
+  let start = zeroAt;
+  let end = profileEnd;
+  let fromMarker: RangeMarker | null = null;
+
+  if (rangeSelection.fromMarker !== null) {
+    const instances = markers.filter((marker) => marker.name === rangeSelection.fromMarker);
+    const index = rangeSelection.markerIndex ?? 1;
+    fromMarker = instances[index - 1] || null;
+    if (fromMarker === null) {
+      throw new SelectionError(instances.length === 0
+        ? `No marker named "${rangeSelection.fromMarker}"`
+        : `Marker "${rangeSelection.fromMarker}" has only ${instances.length} instance(s), cannot use #${index}`);
+    }
+    start = fromMarker.start;
+  }
+
+  if (rangeSelection.toMarker !== null) {
+    const toMarker = markers.find((marker) => marker.name === rangeSelection.toMarker && marker.start >= start);
+    if (!toMarker) {
+      throw new SelectionError(`No marker named "${rangeSelection.toMarker}" after the range start`);
+    }
+    end = toMarker.end ?? toMarker.start;
+  } else if (fromMarker !== null) {
+    if (fromMarker.end === null) {
+      throw new SelectionError(`Marker "${fromMarker.name}" has no duration, use --range-to-marker to end the range`);
+    }
+    end = fromMarker.end;
+  }
+
+  if (end <= start) {
+    throw new SelectionError(`The selected range is empty (${start.toFixed(2)} ms to ${end.toFixed(2)} ms)`);
+  }
+  return { start, end };
+}
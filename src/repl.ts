@@ -0,0 +1,401 @@
+import { createInterface } from "readline";
+import { Browser } from "playwright";
+import { CallTreeNode, FlameNode, MarkerSummary, NetworkResourceSummary, PageLoadSummary, ThreadInfo } from "./types.js";
+import { Profile } from "./profile-format.js";
+import { ThreadSelection, getThreadInfoList, resolveThreadSelection } from "./threads.js";
+import { RangeSelection, formatRangeSelection, parseTimeRange } from "./range.js";
+import { Transform, TRANSFORM_FLAGS, formatTransform } from "./transforms.js";
+import {
+  computeCallTreeData,
+  computeFlamegraphData,
+  computeMarkerSummary,
+  computePageLoadSummary,
+  computeNetworkResources,
+  getUrlNameTables,
+} from "./offline.js";
+import { loadProfile } from "./profiler.js";
+import { OutputLog, printCallTree, printFlamegraph, printMarkerSummaries, printThreadList } from "./text-output.js";
+
+// The view that REPL commands build up, and that queries are computed for.
+export interface ReplView {
+  threadSelection: ThreadSelection | null;
+  rangeSelection: RangeSelection | null;
+  markerFilter: string | null;
+  transforms: Transform[];
+}
+
+// View options as named by the MCP tools and the HTTP API.
+export interface ViewArgs {
+  thread?: string;
+  process?: string;
+  range?: string;
+  rangeFromMarker?: string;
+  rangeToMarker?: string;
+  rangeMarkerIndex?: number;
+  focusFunction?: string;
+  focusMarker?: string;
+  transforms?: Transform[];
+}
+
+// Turns view options into the same view the REPL builds up with its commands.
+export function toView(args: ViewArgs): ReplView {
+  if (args.range !== undefined && (args.rangeFromMarker !== undefined || args.rangeToMarker !== undefined)) {
+    throw new Error("range cannot be combined with rangeFromMarker or rangeToMarker");
+  }
+  if (args.rangeMarkerIndex !== undefined && args.rangeFromMarker === undefined) {
+    throw new Error("rangeMarkerIndex requires rangeFromMarker");
+  }
+  if (args.range !== undefined) {
+    parseTimeRange(args.range);
+  }
+
+  const hasThreads = args.thread !== undefined || args.process !== undefined;
+  const hasRange = args.range !== undefined || args.rangeFromMarker !== undefined || args.rangeToMarker !== undefined;
+  return {
+    threadSelection: hasThreads ? { thread: args.thread ?? null, process: args.process ?? null } : null,
+    rangeSelection: hasRange
+      ? {
+          range: args.range ?? null,
+          fromMarker: args.rangeFromMarker ?? null,
+          toMarker: args.rangeToMarker ?? null,
+          markerIndex: args.rangeMarkerIndex ?? null,
+        }
+      : null,
+    markerFilter: args.focusMarker || null,
+    transforms: [
+      ...(args.focusFunction ? [{ type: "focus-function" as const, funcName: args.focusFunction }] : []),
+      ...(args.transforms ?? []),
+    ],
+  };
+}
+
+export interface ProfileNames {
+  functions: string[];
+  markers: string[];
+}
+
+// Where the REPL and the MCP server get their data from: a profile page that
+// stays open in the browser, or a processed profile loaded in-process with --offline.
+export interface ReplBackend {
+  callTree(view: ReplView, topN: number, detailed: boolean): Promise<CallTreeNode[]>;
+  flamegraph(view: ReplView, maxDepth: number | null): Promise<FlameNode[]>;
+  markers(view: ReplView): Promise<MarkerSummary[]>;
+  pageLoad(view: ReplView): Promise<PageLoadSummary>;
+  network(view: ReplView): Promise<NetworkResourceSummary>;
+  threads(): Promise<ThreadInfo[]>;
+  names(view: ReplView): Promise<ProfileNames>;
+  annotate(view: ReplView, mode: "asm" | "src" | "all", functionName: string, log?: OutputLog): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Loads a profile given as a URL or a local path. The MCP and HTTP servers
+// keep the loaded profiles, so this is called once per profile.
+export type ProfileLoader = (profile: string) => Promise<ReplBackend>;
+
+export function createOfflineBackend(profile: Profile): ReplBackend {
+  return {
+    async callTree(view, topN, detailed) {
+      return computeCallTreeData(profile, topN, detailed, null, view.markerFilter, view.threadSelection, view.rangeSelection, view.transforms);
+    },
+    async flamegraph(view, maxDepth) {
+      return computeFlamegraphData(profile, maxDepth, null, view.markerFilter, view.threadSelection, view.rangeSelection, view.transforms);
+    },
+    async markers(view) {
+      return computeMarkerSummary(profile, view.threadSelection, view.rangeSelection);
+    },
+    async pageLoad(view) {
+      return computePageLoadSummary(profile, view.threadSelection);
+    },
+    async network(view) {
+      return computeNetworkResources(profile, view.threadSelection, view.rangeSelection);
+    },
+    async threads() {
+      return getThreadInfoList(profile);
+    },
+    async names(view) {
+      const functions = [...new Set(getUrlNameTables(profile, view.threadSelection).funcNames)];
+      const markers = computeMarkerSummary(profile, view.threadSelection).map((marker) => marker.name);
+      return { functions, markers };
+    },
+    async annotate() {
+      throw new Error("annotate needs symbolication and is not available with --offline");
+    },
+    async close() {
+      // Nothing to release, the profile is garbage collected.
+    },
+  };
+}
+
+// The profile is loaded and symbolicated once; every query applies the REPL's
+// view to the profile's initial view.
+export async function createBrowserBackend(browser: Browser, url: string): Promise<ReplBackend> {
+  const profile = await loadProfile(browser, url);
+
+  return {
+    async callTree(view, topN, detailed) {
+      return profile.callTree(topN, detailed, null, view.markerFilter, view.threadSelection, view.rangeSelection, view.transforms);
+    },
+    async flamegraph(view, maxDepth) {
+      return profile.flamegraph(maxDepth, null, view.markerFilter, view.threadSelection, view.rangeSelection, view.transforms);
+    },
+    async markers(view) {
+      return profile.markerSummary(view.threadSelection, view.rangeSelection);
+    },
+    async pageLoad(view) {
+      return profile.pageLoad(view.threadSelection);
+    },
+    async network(view) {
+      return profile.network(view.threadSelection, view.rangeSelection);
+    },
+    async threads() {
+      return profile.threads();
+    },
+    async names(view) {
+      return profile.names(view.threadSelection);
+    },
+    async annotate(view, mode, functionName, log) {
+      await profile.annotate(functionName, mode, view.threadSelection, log);
+    },
+    async close() {
+      await profile.close();
+    },
+  };
+}
+
+const HELP = `
+Queries:
+  calltree [N] [detailed]    Top N functions by self time (default 10)
+  flamegraph [DEPTH]         Call tree from the roots, optionally limited in depth
+  markers [N]                Marker summary; top N by frequency if N is given
+  threads                    List threads
+  annotate <asm|src|all> F   Annotate function F (not available offline)
+
+View:
+  thread [THREADS]           Select threads by name, index or TID (no argument: default)
+  process [PROCESS]          Select a process by PID, name or type (no argument: any)
+  range [START-END]          Restrict to a time range, e.g. 1200ms-3400ms (no argument: all)
+  marker [FILTER]            Only keep samples inside matching markers (no argument: all)
+
+Transforms (pushed onto the transform stack):
+  focus F                    Focus on function F
+  merge F                    Merge function F into its callers
+  merge-call-node A>B>C      Merge the call node at this path
+  drop F                     Drop samples with F on the stack
+  focus-subtree A>B>C        Focus on the call node at this path
+  focus-category NAME        Only keep frames of this category
+  collapse-lib NAME          Collapse a library into one node
+  collapse-recursion F       Collapse recursion into F
+  collapse-direct-recursion F  Collapse direct recursion into F
+  collapse-subtree F         Collapse everything F calls into F
+  stack                      Show the transform stack
+  pop [N]                    Remove the last N transforms (default 1)
+  clear                      Remove all transforms
+
+  help                       Show this help
+  exit                       Leave the REPL
+
+Press Tab to complete commands, function names and marker names.
+`;
+
+const TRANSFORM_COMMANDS = ["focus", ...TRANSFORM_FLAGS.keys()];
+const FUNCTION_COMMANDS = ["focus", "merge", "drop", "collapse-recursion", "collapse-direct-recursion", "collapse-subtree", "merge-call-node", "focus-subtree"];
+const COMMANDS = [
+  "help", "exit", "quit",
+  "calltree", "flamegraph", "markers", "threads", "annotate",
+  "thread", "process", "range", "marker",
+  ...TRANSFORM_COMMANDS, "stack", "pop", "clear",
+];
+
+function createTransform(command: string, argument: string): Transform {
+  if (command === "focus") {
+    return { type: "focus-function", funcName: argument };
+  }
+  return TRANSFORM_FLAGS.get(command)!(argument);
+}
+
+function parseCount(value: string | undefined, name: string): number | null {
+  if (value === undefined) {
+    return null;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return count;
+}
+
+function formatThreadSelection(threadSelection: ThreadSelection | null): string[] {
+  const parts = [];
+  if (threadSelection !== null) {
+    if (threadSelection.process !== null) parts.push(`process: ${threadSelection.process}`);
+    if (threadSelection.thread !== null) parts.push(`thread: ${threadSelection.thread}`);
+  }
+  return parts;
+}
+
+function getFilterText(view: ReplView, extraFilters: string[] = []): string {
+  const filters = formatThreadSelection(view.threadSelection);
+  if (view.markerFilter) filters.push(`marker: "${view.markerFilter}"`);
+  if (view.rangeSelection) filters.push(`range: ${formatRangeSelection(view.rangeSelection)}`);
+  filters.push(...view.transforms.map(formatTransform));
+  filters.push(...extraFilters);
+  return filters.length > 0 ? ` (${filters.join(", ")})` : "";
+}
+
+function printTransformStack(transforms: Transform[]): void {
+  if (transforms.length === 0) {
+    console.log("Transform stack is empty");
+    return;
+  }
+  console.log("Transform stack:");
+  transforms.forEach((transform, i) => console.log(`  ${i + 1}. ${formatTransform(transform)}`));
+}
+
+// Completes the command, or its argument from the function and marker names.
+// Call paths are completed after their last ">".
+function complete(line: string, names: ProfileNames | null): [string[], string] {
+  const spaceIndex = line.indexOf(" ");
+  if (spaceIndex === -1) {
+    return [COMMANDS.filter((command) => command.startsWith(line)), line];
+  }
+
+  const command = line.slice(0, spaceIndex);
+  let partial = line.slice(spaceIndex + 1).trimStart();
+  let candidates: string[] = [];
+
+  if (command === "annotate") {
+    const modeMatch = partial.match(/^(asm|src|all) (.*)$/);
+    if (!modeMatch) {
+      return [["asm ", "src ", "all "].filter((mode) => mode.startsWith(partial)), partial];
+    }
+    partial = modeMatch[2];
+    candidates = names ? names.functions : [];
+  } else if (FUNCTION_COMMANDS.includes(command)) {
+    if (command === "focus-subtree" || command === "merge-call-node") {
+      partial = partial.slice(partial.lastIndexOf(">") + 1).trimStart();
+    }
+    candidates = names ? names.functions : [];
+  } else if (command === "marker") {
+    candidates = names ? names.markers : [];
+  }
+
+  return [candidates.filter((name) => name.startsWith(partial)).sort(), partial];
+}
+
+export async function runRepl(backend: ReplBackend, profileName: string, view: ReplView, maxPaths: number): Promise<void> {
+  // Names are fetched on the first completion, and again when the thread
+  // selection changes.
+  let names: ProfileNames | null = null;
+  let namesKey: string | null = null;
+  const getNames = async (): Promise<ProfileNames> => {
+    const key = JSON.stringify(view.threadSelection);
+    if (names === null || namesKey !== key) {
+      names = await backend.names(view);
+      namesKey = key;
+    }
+    return names;
+  };
+
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    historySize: 1000,
+    completer: (line: string, callback: (error: Error | null, result: [string[], string]) => void) => {
+      const needsNames = line.includes(" ");
+      if (!needsNames) {
+        callback(null, complete(line, null));
+        return;
+      }
+      getNames().then(
+        (loadedNames) => callback(null, complete(line, loadedNames)),
+        () => callback(null, complete(line, null))
+      );
+    },
+  });
+  rl.setPrompt("profiler> ");
+
+  console.log(`\nLoaded ${profileName}. Type "help" for a list of commands.\n`);
+  rl.prompt();
+
+  for await (const line of rl) {
+    const input = line.trim();
+    const spaceIndex = input.indexOf(" ");
+    const command = spaceIndex === -1 ? input : input.slice(0, spaceIndex);
+    const argument = spaceIndex === -1 ? "" : input.slice(spaceIndex + 1).trim();
+    const args = argument.split(/\s+/).filter((arg) => arg.length > 0);
+
+    try {
+      if (command === "") {
+        // Nothing to do
+      } else if (command === "exit" || command === "quit") {
+        break;
+      } else if (command === "help") {
+        console.log(HELP);
+      } else if (command === "calltree") {
+        const topN = parseCount(args.find((arg) => arg !== "detailed"), "N") ?? 10;
+        const detailed = args.includes("detailed");
+        printCallTree(await backend.callTree(view, topN, detailed), topN, getFilterText(view), detailed, maxPaths);
+      } else if (command === "flamegraph") {
+        const maxDepth = parseCount(args[0], "DEPTH");
+        const filterText = getFilterText(view, maxDepth ? [`max depth: ${maxDepth}`] : []);
+        printFlamegraph(await backend.flamegraph(view, maxDepth), filterText);
+      } else if (command === "markers") {
+        printMarkerSummaries(await backend.markers(view), parseCount(args[0], "N") ?? undefined);
+      } else if (command === "threads") {
+        printThreadList(await backend.threads());
+      } else if (command === "thread" || command === "process") {
+        const current = view.threadSelection ?? { thread: null, process: null };
+        const threadSelection = { ...current, [command]: argument === "" ? null : argument };
+        if (threadSelection.thread === null && threadSelection.process === null) {
+          view.threadSelection = null;
+        } else {
+          // Resolved now, so that a typo is reported right away.
+          resolveThreadSelection(await backend.threads(), threadSelection);
+          view.threadSelection = threadSelection;
+        }
+        console.log(`Threads: ${formatThreadSelection(view.threadSelection).join(", ") || "default"}`);
+      } else if (command === "range") {
+        if (argument === "" || argument === "clear") {
+          view.rangeSelection = null;
+          console.log("Range: whole profile");
+        } else {
+          parseTimeRange(argument);
+          view.rangeSelection = { range: argument, fromMarker: null, toMarker: null, markerIndex: null };
+          console.log(`Range: ${argument}`);
+        }
+      } else if (command === "marker") {
+        view.markerFilter = argument === "" || argument === "clear" ? null : argument;
+        console.log(view.markerFilter ? `Marker filter: "${view.markerFilter}"` : "Marker filter: none");
+      } else if (TRANSFORM_COMMANDS.includes(command)) {
+        if (argument === "") {
+          throw new Error(`${command} requires an argument`);
+        }
+        view.transforms.push(createTransform(command, argument));
+        printTransformStack(view.transforms);
+      } else if (command === "pop") {
+        const count = parseCount(args[0], "N") ?? 1;
+        view.transforms.splice(Math.max(0, view.transforms.length - count));
+        printTransformStack(view.transforms);
+      } else if (command === "stack") {
+        printTransformStack(view.transforms);
+      } else if (command === "clear") {
+        view.transforms = [];
+        printTransformStack(view.transforms);
+      } else if (command === "annotate") {
+        const match = argument.match(/^(asm|src|all)\s+(.+)$/);
+        if (!match) {
+          throw new Error("Usage: annotate <asm|src|all> <function-name>");
+        }
+        await backend.annotate(view, match[1] as "asm" | "src" | "all", match[2]);
+      } else {
+        console.log(`Unknown command "${command}". Type "help" for a list of commands.`);
+      }
+    } catch (error) {
+      console.log(`Error: ${error instanceof Error ? error.message : error}`);
+    }
+
+    rl.prompt();
+  }
+
+  rl.close();
+}
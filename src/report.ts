@@ -0,0 +1,234 @@
+import { CallTreeNode, FlameNode, MarkerSummary, NetworkResourceSummary, PageLoadSummary } from "./types.js";
+
+export interface ReportData {
+  profile: string;
+  // The options the data was computed with, e.g. `thread: 3, merge: "foo"`.
+  filters: string[];
+  pageLoad: PageLoadSummary;
+  markers: MarkerSummary[];
+  network: NetworkResourceSummary;
+  functions: CallTreeNode[];
+  flamegraph: FlameNode[];
+}
+
+// Flamegraph nodes below this share of all samples are left out, which keeps
+// reports of large profiles small.
+const MIN_FLAME_NODE_SHARE = 0.001;
+// Flamegraph levels that are expanded when the report is opened.
+const OPEN_FLAME_DEPTH = 3;
+const TOP_MARKERS = 20;
+
+const PHASE_COLORS = ["#9e9e9e", "#ab47bc", "#ff7043", "#ffa726", "#26a69a", "#42a5f5", "#66bb6a", "#8d6e63"];
+
+const STYLE = `
+body { font: 14px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2em auto; max-width: 1100px; padding: 0 1em; color: #222; }
+h1 { font-size: 1.5em; margin-bottom: 0.2em; }
+h2 { font-size: 1.2em; border-bottom: 1px solid #ddd; padding-bottom: 0.2em; margin-top: 2em; }
+.meta { color: #666; margin: 0.2em 0; word-break: break-all; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 3px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+th { background: #f5f5f5; }
+td.num, th.num { text-align: right; white-space: nowrap; font-variant-numeric: tabular-nums; }
+td.name { word-break: break-all; }
+.empty { color: #888; font-style: italic; }
+.timeline { position: relative; height: 48px; margin: 1em 0 2em; border-bottom: 2px solid #999; }
+.timeline .metric { position: absolute; bottom: 0; height: 100%; border-left: 2px solid #1e88e5; padding-left: 4px; font-size: 12px; white-space: nowrap; }
+.timeline .jank { position: absolute; bottom: 0; height: 10px; background: #e53935; opacity: 0.7; }
+.waterfall td.bar { width: 45%; }
+.track { position: relative; height: 14px; }
+.track span { position: absolute; top: 0; height: 100%; }
+.legend span { display: inline-block; margin-right: 1em; font-size: 12px; }
+.legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; }
+.flame details { margin-left: 1.2em; }
+.flame > details { margin-left: 0; }
+.flame summary { cursor: pointer; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+.flame summary.leaf { list-style: none; padding-left: 1.1em; }
+.flame .bar { display: inline-block; height: 10px; background: #ff9800; margin-right: 6px; vertical-align: middle; }
+.flame .stats { color: #666; font-size: 12px; margin-left: 6px; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatMs(value: number): string {
+  return `${value.toFixed(2)} ms`;
+}
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${((part / total) * 100).toFixed(1)}%` : "0.0%";
+}
+
+function renderPageLoad(pageLoad: PageLoadSummary): string {
+  const metrics = [
+    { label: "FCP", value: pageLoad.firstContentfulPaint },
+    { label: "LCP", value: pageLoad.largestContentfulPaint },
+    { label: "Load", value: pageLoad.load },
+  ].filter((metric): metric is { label: string; value: number } => metric.value !== null);
+
+  const parts = [`<p class="meta">URL: ${pageLoad.url ? escapeHtml(pageLoad.url) : "not found"}</p>`];
+
+  if (metrics.length === 0) {
+    parts.push(`<p class="empty">No page load metrics found.</p>`);
+  } else {
+    // Like the metrics, jank start times are relative to the navigation start.
+    const jankPeriods = pageLoad.jankPeriods ?? [];
+    const maxTime = Math.max(
+      ...metrics.map((metric) => metric.value),
+      ...jankPeriods.map((jank) => jank.startTime + jank.duration)
+    );
+    const position = (time: number): string => `${Math.min(100, Math.max(0, (time / maxTime) * 100)).toFixed(2)}%`;
+
+    const items = metrics.map((metric) =>
+      `<div class="metric" style="left: ${position(metric.value)}" title="${metric.label}: ${formatMs(metric.value)}">${metric.label}</div>`
+    );
+    for (const jank of jankPeriods) {
+      items.push(`<div class="jank" style="left: ${position(jank.startTime)}; width: ${position(jank.duration)}" title="Jank: ${formatMs(jank.duration)}"></div>`);
+    }
+    parts.push(`<div class="timeline">${items.join("")}</div>`);
+    parts.push(`<table><tr><th>Metric</th><th class="num">Time after navigation start</th></tr>${
+      metrics.map((metric) => `<tr><td>${metric.label}</td><td class="num">${formatMs(metric.value)}</td></tr>`).join("")
+    }</table>`);
+  }
+
+  if (pageLoad.sampleCategories && pageLoad.sampleCategories.totalSamples > 0) {
+    const { totalSamples, byCategory } = pageLoad.sampleCategories;
+    const rows = Object.entries(byCategory)
+      .sort((a, b) => b[1] - a[1])
+      .map(([category, samples]) => `<tr><td>${escapeHtml(category)}</td><td class="num">${samples}</td><td class="num">${percent(samples, totalSamples)}</td></tr>`);
+    parts.push(`<h3>CPU categories</h3><table><tr><th>Category</th><th class="num">Samples</th><th class="num">Share</th></tr>${rows.join("")}</table>`);
+  }
+
+  if (pageLoad.jankPeriods && pageLoad.jankPeriods.length > 0) {
+    const rows = pageLoad.jankPeriods.map((jank) => {
+      const functions = jank.topFunctions.map((fn) => `${escapeHtml(fn.name)} (${fn.samples})`).join(", ");
+      return `<tr><td class="num">${formatMs(jank.startTime)}</td><td class="num">${formatMs(jank.duration)}</td><td class="name">${functions}</td></tr>`;
+    });
+    parts.push(`<h3>Jank</h3><table><tr><th class="num">Start</th><th class="num">Duration</th><th>Top functions</th></tr>${rows.join("")}</table>`);
+  }
+
+  return parts.join("\n");
+}
+
+function renderMarkers(markers: MarkerSummary[]): string {
+  if (markers.length === 0) {
+    return `<p class="empty">No markers with a duration found.</p>`;
+  }
+  const rows = [...markers]
+    .sort((a, b) => b.totalDuration - a.totalDuration)
+    .slice(0, TOP_MARKERS)
+    .map((marker) => `<tr><td class="name">${escapeHtml(marker.name)}</td><td class="num">${marker.count}</td><td class="num">${formatMs(marker.totalDuration)}</td><td class="num">${formatMs(marker.avgDuration)}</td><td class="num">${formatMs(marker.maxDuration)}</td></tr>`);
+  return `<table><tr><th>Marker</th><th class="num">Count</th><th class="num">Total</th><th class="num">Average</th><th class="num">Max</th></tr>${rows.join("")}</table>`;
+}
+
+function renderNetwork(network: NetworkResourceSummary): string {
+  if (network.resources.length === 0) {
+    return `<p class="empty">No network requests found.</p>`;
+  }
+
+  const phaseLabels = Object.keys(network.phaseTotals);
+  const phaseColor = (label: string): string => PHASE_COLORS[phaseLabels.indexOf(label) % PHASE_COLORS.length];
+  const start = Math.min(0, ...network.resources.map((resource) => resource.startTime));
+  const end = Math.max(...network.resources.map((resource) => resource.startTime + resource.duration));
+  const span = end - start || 1;
+  const position = (time: number): string => `${(((time - start) / span) * 100).toFixed(2)}%`;
+
+  const rows = network.resources.map((resource) => {
+    let offset = resource.startTime;
+    const segments = resource.phases.map((phase) => {
+      const segment = `<span style="left: ${position(offset)}; width: ${((phase.duration / span) * 100).toFixed(2)}%; background: ${phaseColor(phase.label)}" title="${escapeHtml(phase.label)}: ${formatMs(phase.duration)}"></span>`;
+      offset += phase.duration;
+      return segment;
+    });
+    if (segments.length === 0) {
+      segments.push(`<span style="left: ${position(resource.startTime)}; width: ${((resource.duration / span) * 100).toFixed(2)}%; background: ${PHASE_COLORS[0]}"></span>`);
+    }
+    const details = [resource.cache, resource.contentType, resource.size !== undefined ? `${(resource.size / 1024).toFixed(1)} KB` : undefined]
+      .filter((detail) => detail)
+      .map((detail) => escapeHtml(detail!))
+      .join(", ");
+    return `<tr><td class="name" title="${escapeHtml(resource.url)}">${escapeHtml(resource.url)}<div class="meta">${details}</div></td><td class="num">${formatMs(resource.startTime)}</td><td class="num">${formatMs(resource.duration)}</td><td class="bar"><div class="track">${segments.join("")}</div></td></tr>`;
+  });
+
+  const legend = phaseLabels.map((label) => `<span><i style="background: ${phaseColor(label)}"></i>${escapeHtml(label)}</span>`).join("");
+  return `<p class="meta">${network.totalResources} requests, times relative to Navigation::Start</p>
+<p class="legend">${legend}</p>
+<table class="waterfall"><tr><th>URL</th><th class="num">Start</th><th class="num">Duration</th><th>Waterfall</th></tr>${rows.join("")}</table>`;
+}
+
+function renderFunctions(functions: CallTreeNode[]): string {
+  if (functions.length === 0) {
+    return `<p class="empty">No samples found.</p>`;
+  }
+  const rows = functions.map((fn, i) => `<tr><td class="num">${i + 1}</td><td class="name">${escapeHtml(fn.name)}</td><td class="num">${fn.selfTime}</td><td class="num">${fn.totalTime}</td></tr>`);
+  return `<table><tr><th class="num">#</th><th>Function</th><th class="num">Self samples</th><th class="num">Total samples</th></tr>${rows.join("")}</table>`;
+}
+
+// Nested <details> elements, so that the tree can be expanded and collapsed
+// without any script.
+function renderFlamegraph(roots: FlameNode[]): string {
+  const total = roots.reduce((sum, root) => sum + root.totalTime, 0);
+  if (total === 0) {
+    return `<p class="empty">No samples found.</p>`;
+  }
+  const minTotal = total * MIN_FLAME_NODE_SHARE;
+
+  function renderNode(node: FlameNode, depth: number): string {
+    const children = node.children.filter((child) => child.totalTime >= minTotal);
+    const width = Math.max(1, Math.round((node.totalTime / total) * 300));
+    const summary = `<span class="bar" style="width: ${width}px"></span>${escapeHtml(node.name)}<span class="stats">${percent(node.totalTime, total)} total, ${node.totalTime} samples, ${node.selfTime} self</span>`;
+    if (children.length === 0) {
+      return `<details><summary class="leaf">${summary}</summary></details>`;
+    }
+    const open = depth < OPEN_FLAME_DEPTH ? " open" : "";
+    return `<details${open}><summary>${summary}</summary>${children.map((child) => renderNode(child, depth + 1)).join("")}</details>`;
+  }
+
+  const nodes = roots.filter((root) => root.totalTime >= minTotal).map((root) => renderNode(root, 0));
+  return `<p class="meta">${total} samples; nodes below ${MIN_FLAME_NODE_SHARE * 100}% of the samples are left out.</p>
+<div class="flame">${nodes.join("")}</div>`;
+}
+
+/**
+ * Renders the report as a single HTML document with inline styles and no
+ * scripts or external assets, so that it can be attached to a bug and opened
+ * anywhere.
+ */
+export function renderHtmlReport(data: ReportData): string {
+  const filters = data.filters.length > 0 ? `<p class="meta">Filters: ${escapeHtml(data.filters.join(", "))}</p>` : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Profile report: ${escapeHtml(data.profile)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>Profile report</h1>
+<p class="meta">Profile: ${escapeHtml(data.profile)}</p>
+${filters}
+<p class="meta">Generated by profiler-cli on ${new Date().toISOString()}</p>
+
+<h2>Page load</h2>
+${renderPageLoad(data.pageLoad)}
+
+<h2>Top markers</h2>
+${renderMarkers(data.markers)}
+
+<h2>Network</h2>
+${renderNetwork(data.network)}
+
+<h2>Top functions by self time</h2>
+${renderFunctions(data.functions)}
+
+<h2>Flamegraph</h2>
+${renderFlamegraph(data.flamegraph)}
+</body>
+</html>
+`;
+}
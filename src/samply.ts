@@ -0,0 +1,104 @@
+import { spawn, ChildProcess } from "child_process";
+import path from "path";
+
+export interface SamplyServer {
+  url: string;
+  process: ChildProcess;
+}
+
+// Serves a local profile with `samply load` and returns the profiler.firefox.com
+// URL that loads it from that server.
+export async function startSamplyServer(profilePath: string): Promise<SamplyServer> {
+  let url: string | null = null;
+
+  console.log("Local profile detected, starting samply server...\n");
+
+  const PORT = 3000 + Math.floor(Math.random() * 1000);
+  console.log(`Starting samply server on port ${PORT}...`);
+
+  // Start samply from the directory containing the profile
+  // This is important for jitdump files referenced with relative paths (./jit-*.dump)
+  const profileDir = path.dirname(path.resolve(profilePath));
+  const profileBasename = path.basename(profilePath);
+
+  console.log(`Starting samply from directory: ${profileDir}`);
+  console.log(`Loading profile: ${profileBasename}`);
+
+  const samplyProcess = spawn("samply", ["load", profileBasename, "--no-open", "--port", String(PORT)], {
+    cwd: profileDir,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  // Wait for samply to be ready and capture the profiler URL
+  await new Promise<void>((resolve, reject) => {
+    let samplyOutput = "";
+    const timeout = setTimeout(() => {
+      samplyProcess.kill();
+      reject(new Error(`Samply did not start within 30 seconds`));
+    }, 30000);
+
+    samplyProcess.stdout?.on("data", (data: Buffer) => {
+      const output = data.toString();
+      samplyOutput += output;
+
+      // Try to extract the profiler URL from samply's output
+      const urlMatch = output.match(/https:\/\/profiler\.firefox\.com\/[^\s]+/);
+      if (urlMatch) {
+        url = urlMatch[0];
+      }
+    });
+
+    samplyProcess.stderr?.on("data", (data: Buffer) => {
+      const output = data.toString();
+      samplyOutput += output;
+
+      // samply prints the URL to stderr
+      const urlMatch = output.match(/https:\/\/profiler\.firefox\.com\/[^\s]+/);
+      if (urlMatch) {
+        url = urlMatch[0];
+      }
+
+      if (output.includes("Local server listening")) {
+        // Wait a bit more to make sure we capture the URL
+        setTimeout(() => {
+          clearTimeout(timeout);
+          resolve();
+        }, 500);
+      }
+    });
+
+    samplyProcess.on("error", (err: Error) => {
+      clearTimeout(timeout);
+      reject(err);
+    });
+  });
+
+  console.log("Samply server ready");
+
+  // If we didn't capture the URL from samply's output, construct it
+  if (url === null) {
+    console.log("Profiler URL not captured from samply output, fetching from server...");
+    try {
+      const response = await fetch(`http://127.0.0.1:${PORT}/`);
+      const html = await response.text();
+      const urlMatch = html.match(/https:\/\/profiler\.firefox\.com\/[^"]+/);
+      if (urlMatch) {
+        url = urlMatch[0];
+        console.log("Got profiler URL from HTTP response");
+      } else {
+        console.error("Could not find profiler URL in samply server response");
+      }
+    } catch (error) {
+      console.error(`Error fetching profiler URL: ${error}`);
+    }
+  }
+
+  console.log(`Profiler URL: ${url}\n`);
+
+  if (url === null) {
+    samplyProcess.kill();
+    throw new Error(`Could not get a profiler URL from samply for ${profilePath}`);
+  }
+
+  return { url, process: samplyProcess };
+}
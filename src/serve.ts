@@ -0,0 +1,290 @@
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { Transform, TRANSFORM_FLAGS } from "./transforms.js";
+import { ProfileLoader, ReplBackend, ReplView, ViewArgs, toView } from "./repl.js";
+import { SelectionError } from "./threads.js";
+import { captureOutput } from "./text-output.js";
+
+export interface ServeOptions {
+  host: string;
+  port: number;
+  // Loaded profiles to keep; the least recently used one is closed beyond this.
+  maxProfiles: number;
+  // Profile loads and queries that may run at the same time, each of which
+  // uses a browser page unless profiles are loaded with --offline.
+  maxPages: number;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// Lets at most `limit` tasks run at a time; the others wait in order.
+class Limiter {
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running >= this.limit) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.running++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.running--;
+      }
+    }
+  }
+}
+
+interface LoadedProfile {
+  id: string;
+  profile: string;
+  backend: Promise<ReplBackend>;
+  // A browser page can only run one query at a time.
+  queue: Limiter;
+}
+
+function parseInteger(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new HttpError(400, `${name} must be a positive integer`);
+  }
+  return number;
+}
+
+function parseBoolean(params: URLSearchParams, name: string): boolean {
+  const value = params.get(name);
+  return value !== null && value !== "false" && value !== "0";
+}
+
+// Query parameters named like the MCP tool inputs; transforms use the names of
+// the command line flags, e.g. `?merge=foo&drop=bar`, and apply in order.
+function parseViewArgs(params: URLSearchParams): ViewArgs {
+  const transforms: Transform[] = [];
+  for (const [name, value] of params) {
+    const createTransform = TRANSFORM_FLAGS.get(name);
+    if (createTransform) {
+      transforms.push(createTransform(value));
+    }
+  }
+
+  return {
+    thread: params.get("thread") ?? undefined,
+    process: params.get("process") ?? undefined,
+    range: params.get("range") ?? undefined,
+    rangeFromMarker: params.get("rangeFromMarker") ?? undefined,
+    rangeToMarker: params.get("rangeToMarker") ?? undefined,
+    rangeMarkerIndex: parseInteger(params, "rangeMarkerIndex"),
+    focusFunction: params.get("focusFunction") ?? undefined,
+    focusMarker: params.get("focusMarker") ?? undefined,
+    transforms,
+  };
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<any> {
+  let body = "";
+  for await (const chunk of request) {
+    body += chunk;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, "The request body must be JSON");
+  }
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Serves the profile queries as a JSON API until the process is interrupted.
+ * Profiles are loaded with POST /profiles and queried by the id it returns:
+ *
+ *   GET /profiles/:id/calltree?top=20&focusFunction=...
+ *   GET /profiles/:id/flamegraph?maxDepth=5
+ *   GET /profiles/:id/markers
+ *   GET /profiles/:id/page-load
+ *   GET /profiles/:id/network
+ *   GET /profiles/:id/threads
+ *   GET /profiles/:id/annotate?function=...&mode=asm
+ */
+export async function runHttpServer(loadProfile: ProfileLoader, options: ServeOptions): Promise<void> {
+  // Ordered from least to most recently used.
+  const profiles = new Map<string, LoadedProfile>();
+  const concurrency = new Limiter(options.maxPages);
+  let nextId = 1;
+
+  const touch = (loaded: LoadedProfile): void => {
+    profiles.delete(loaded.id);
+    profiles.set(loaded.id, loaded);
+  };
+
+  const evict = (loaded: LoadedProfile): void => {
+    profiles.delete(loaded.id);
+    console.log(`Closing profile ${loaded.id} (${loaded.profile})`);
+    loaded.backend.then((backend) => loaded.queue.run(() => backend.close())).catch(() => {});
+  };
+
+  const openProfile = async (profile: string): Promise<LoadedProfile> => {
+    const existing = [...profiles.values()].find((loaded) => loaded.profile === profile);
+    if (existing) {
+      touch(existing);
+      await existing.backend;
+      return existing;
+    }
+
+    const loaded: LoadedProfile = {
+      id: String(nextId++),
+      profile,
+      backend: concurrency.run(() => loadProfile(profile)),
+      queue: new Limiter(1),
+    };
+    profiles.set(loaded.id, loaded);
+    while (profiles.size > options.maxProfiles) {
+      evict(profiles.values().next().value!);
+    }
+
+    try {
+      await loaded.backend;
+    } catch (error) {
+      profiles.delete(loaded.id);
+      throw error;
+    }
+    return loaded;
+  };
+
+  const query = async <T>(id: string, task: (backend: ReplBackend) => Promise<T>): Promise<T> => {
+    const loaded = profiles.get(id);
+    if (!loaded) {
+      throw new HttpError(404, `No profile with id ${id}, load it with POST /profiles`);
+    }
+    touch(loaded);
+    const backend = await loaded.backend;
+    return loaded.queue.run(() => concurrency.run(() => task(backend)));
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const params = url.searchParams;
+    const parts = url.pathname.split("/").filter((part) => part.length > 0);
+
+    if (parts.length === 1 && parts[0] === "profiles") {
+      if (request.method === "GET") {
+        sendJson(response, 200, [...profiles.values()].map(({ id, profile }) => ({ id, profile })));
+        return;
+      }
+      if (request.method === "POST") {
+        const body = await readJsonBody(request);
+        if (typeof body?.profile !== "string" || body.profile === "") {
+          throw new HttpError(400, "Expected a body like {\"profile\": \"<url or path>\"}");
+        }
+        const loaded = await openProfile(body.profile);
+        sendJson(response, 201, { id: loaded.id, profile: loaded.profile });
+        return;
+      }
+      throw new HttpError(405, `${request.method} is not supported on /profiles`);
+    }
+
+    if (parts.length === 2 && parts[0] === "profiles" && request.method === "DELETE") {
+      const loaded = profiles.get(parts[1]);
+      if (!loaded) {
+        throw new HttpError(404, `No profile with id ${parts[1]}`);
+      }
+      evict(loaded);
+      response.writeHead(204).end();
+      return;
+    }
+
+    if (parts.length !== 3 || parts[0] !== "profiles" || request.method !== "GET") {
+      throw new HttpError(404, `No route for ${request.method} ${url.pathname}`);
+    }
+
+    const [, id, endpoint] = parts;
+    let view: ReplView;
+    try {
+      view = toView(parseViewArgs(params));
+    } catch (error) {
+      throw error instanceof HttpError ? error : new HttpError(400, (error as Error).message);
+    }
+    let result: unknown;
+
+    switch (endpoint) {
+      case "calltree":
+        result = await query(id, (backend) => backend.callTree(view, parseInteger(params, "top") ?? 10, parseBoolean(params, "detailed")));
+        break;
+      case "flamegraph":
+        result = await query(id, (backend) => backend.flamegraph(view, parseInteger(params, "maxDepth") ?? null));
+        break;
+      case "markers":
+        result = await query(id, (backend) => backend.markers(view));
+        break;
+      case "page-load":
+        result = await query(id, (backend) => backend.pageLoad(view));
+        break;
+      case "network":
+        result = await query(id, (backend) => backend.network(view));
+        break;
+      case "threads":
+        result = await query(id, (backend) => backend.threads());
+        break;
+      case "annotate": {
+        const functionName = params.get("function");
+        const mode = params.get("mode") ?? "all";
+        if (!functionName) {
+          throw new HttpError(400, "annotate requires a function parameter");
+        }
+        if (mode !== "asm" && mode !== "src" && mode !== "all") {
+          throw new HttpError(400, "mode must be asm, src or all");
+        }
+        const text = await query(id, (backend) => captureOutput((log) => backend.annotate(view, mode, functionName, log)));
+        result = { functionName, mode, text };
+        break;
+      }
+      default:
+        throw new HttpError(404, `Unknown endpoint "${endpoint}"`);
+    }
+
+    sendJson(response, 200, result);
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      // A thread or range that the profile does not have is a bad request;
+      // anything else, e.g. a browser crash or a timeout, is a server error.
+      const status = error instanceof HttpError ? error.status : error instanceof SelectionError ? 400 : 500;
+      sendJson(response, status, { error: error instanceof Error ? error.message : String(error) });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+  console.log(`Listening on http://${options.host}:${options.port}`);
+
+  await new Promise<void>((resolve) => {
+    const stop = () => server.close(() => resolve());
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+  });
+
+  for (const loaded of [...profiles.values()]) {
+    evict(loaded);
+  }
+}
@@ -0,0 +1,512 @@
+import { format } from "util";
+import { BudgetResult, formatBudgetValue } from "./budget.js";
+import { BatchSummary, CallTreeNode, FlameNode, FunctionDiff, FunctionDiffReport, MarkerDiff, MarkerListing, MarkerSummary, MetricComparison, NetworkResourceSummary, PageLoadSummary, ProfileSetComparison, ThreadInfo } from "./types.js";
+
+// Human-readable output, shared by the one-shot CLI and the REPL.
+
+export function printThreadList(threads: ThreadInfo[]): void {
+  console.log(`\nThreads (${threads.length}):\n`);
+  console.log(`${"Index".padStart(5)}  ${"Name".padEnd(28)}  ${"Process".padEnd(16)}  ${"PID".padStart(8)}  ${"TID".padStart(8)}  ${"Samples".padStart(8)}  ${"CPU time".padStart(12)}`);
+  console.log("─".repeat(98));
+  for (const thread of threads) {
+    const name = (thread.isMainThread ? "* " : "  ") + thread.name;
+    const processName = thread.processName ? `${thread.processType} (${thread.processName})` : thread.processType;
+    const cpuTime = thread.cpuTime !== null ? `${thread.cpuTime.toFixed(2)} ms` : "-";
+    console.log(`${String(thread.index).padStart(5)}  ${name.padEnd(28)}  ${processName.padEnd(16)}  ${thread.pid.padStart(8)}  ${thread.tid.padStart(8)}  ${String(thread.sampleCount).padStart(8)}  ${cpuTime.padStart(12)}`);
+  }
+  console.log("\n* main thread of its process");
+}
+
+export function printMarkerSummaries(allMarkerSummaries: MarkerSummary[], topMarkers: number | undefined): void {
+  console.log(`\nTotal unique markers: ${allMarkerSummaries.length}\n`);
+
+  if (topMarkers === undefined) {
+    const limit = 5;
+    const byTotalDuration = [...allMarkerSummaries].sort((a, b) => b.totalDuration - a.totalDuration).slice(0, Math.min(limit, allMarkerSummaries.length));
+    const byMaxDuration = [...allMarkerSummaries].sort((a, b) => b.maxDuration - a.maxDuration).slice(0, Math.min(limit, allMarkerSummaries.length));
+
+    console.log(`Top ${byTotalDuration.length} markers by total duration:\n`);
+    for (let i = 0; i < byTotalDuration.length; i++) {
+      const marker = byTotalDuration[i];
+      console.log(`${i + 1}. ${marker.name} - ${marker.totalDuration.toFixed(2)} ms total (count: ${marker.count}, avg: ${marker.avgDuration.toFixed(2)} ms)`);
+    }
+
+    console.log(`\nTop ${byMaxDuration.length} markers by max single instance duration:\n`);
+    for (let i = 0; i < byMaxDuration.length; i++) {
+      const marker = byMaxDuration[i];
+      console.log(`${i + 1}. ${marker.name} - ${marker.maxDuration.toFixed(2)} ms max (total: ${marker.totalDuration.toFixed(2)} ms, count: ${marker.count})`);
+    }
+  } else {
+    const limit = topMarkers;
+    const markerSummaries = allMarkerSummaries.slice(0, limit);
+
+    console.log(`Marker Summary (sorted by frequency):\n`);
+
+    if (limit < allMarkerSummaries.length) {
+      console.log(`Showing top ${limit} markers:\n`);
+    }
+
+    for (let i = 0; i < markerSummaries.length; i++) {
+      const marker = markerSummaries[i];
+      console.log(`${i + 1}. ${marker.name}`);
+      console.log(`   Count: ${marker.count}`);
+      console.log(`   Total duration: ${marker.totalDuration.toFixed(2)} ms`);
+      console.log(`   Avg duration: ${marker.avgDuration.toFixed(2)} ms`);
+      console.log(`   Min duration: ${marker.minDuration.toFixed(2)} ms`);
+      console.log(`   Max duration: ${marker.maxDuration.toFixed(2)} ms`);
+      console.log();
+    }
+  }
+}
+
+export function describeMarkerListing(listing: MarkerListing): string {
+  const shown = listing.markers.length < listing.total ? `${listing.markers.length} of ${listing.total}` : String(listing.total);
+  const origin = listing.timeOrigin === "navigation-start" ? "navigation start" : "profile start";
+  return `Markers "${listing.name}": ${shown}, by ${listing.sortBy === "duration" ? "duration" : "start time"}, times relative to ${origin}`;
+}
+
+export function printMarkerListing(listing: MarkerListing): void {
+  console.log(`\n${describeMarkerListing(listing)}\n`);
+  if (listing.total === 0) {
+    console.log("No markers with this name found.\n");
+    return;
+  }
+
+  for (let i = 0; i < listing.markers.length; i++) {
+    const marker = listing.markers[i];
+    const timing = marker.duration !== null
+      ? `${marker.start.toFixed(2)} ms - ${marker.end!.toFixed(2)} ms (${marker.duration.toFixed(2)} ms)`
+      : `${marker.start.toFixed(2)} ms (instant)`;
+    console.log(`${i + 1}. ${marker.name} at ${timing}`);
+    console.log(`   Thread: ${marker.thread} (TID ${marker.tid})${marker.category !== null ? `, category: ${marker.category}` : ""}`);
+    for (const field of marker.fields) {
+      console.log(`   ${field.label}: ${field.formatted}`);
+    }
+    console.log();
+  }
+}
+
+// The lines of a flamegraph tree, drawn with box-drawing characters.
+export function formatFlameTree(node: FlameNode, totalSamples: number, indent: string = "", isLast: boolean = true, isRoot: boolean = true): string[] {
+  const prefix = isRoot ? "" : (isLast ? "└─ " : "├─ ");
+  const percentage = ((node.totalTime / totalSamples) * 100).toFixed(1);
+  const selfTimeStr = node.selfTime > 0 ? ` [self: ${node.selfTime}]` : "";
+  const lines = [`${indent}${prefix}${node.name} (${percentage}%, ${node.totalTime} samples)${selfTimeStr}`];
+
+  const childIndent = isRoot ? "" : indent + (isLast ? "   " : "│  ");
+
+  for (let i = 0; i < node.children.length; i++) {
+    const isLastChild = i === node.children.length - 1;
+    lines.push(...formatFlameTree(node.children[i], totalSamples, childIndent, isLastChild, false));
+  }
+  return lines;
+}
+
+export function printFlameTree(node: FlameNode, totalSamples: number): void {
+  for (const line of formatFlameTree(node, totalSamples)) {
+    console.log(line);
+  }
+}
+
+export function printFlamegraph(flamegraphData: FlameNode[], filterText: string): void {
+  console.log(`\nFlamegraph${filterText}:\n`);
+
+  if (flamegraphData.length === 0) {
+    console.log("No data found in profile.\n");
+  } else {
+    const totalSamples = flamegraphData.reduce((sum, root) => sum + root.totalTime, 0);
+    for (const root of flamegraphData) {
+      printFlameTree(root, totalSamples);
+      console.log();
+    }
+  }
+}
+
+export function printCallTree(callTreeData: CallTreeNode[], topN: number, filterText: string, detailed: boolean, maxPaths: number): void {
+  console.log(`\nTop ${topN} functions by self time${filterText}:\n`);
+
+  if (callTreeData.length === 0) {
+    console.log("No data found in profile.\n");
+  }
+
+  for (let i = 0; i < callTreeData.length; i++) {
+    const node = callTreeData[i];
+    console.log(`${i + 1}. ${node.name} - ${node.selfTime} samples (${node.totalTime} total)`);
+
+
+    if (detailed && node.callPaths) {
+      console.log();
+
+      // Sort call paths by samples (descending)
+      const sortedPaths = [...node.callPaths].sort((a, b) => b.samples - a.samples);
+
+      const pathsToShow = sortedPaths.slice(0, maxPaths);
+
+      for (let j = 0; j < pathsToShow.length; j++) {
+        const path = pathsToShow[j];
+        const percentage = ((path.samples / node.selfTime) * 100).toFixed(1);
+        console.log(`   Call path #${j + 1} - ${path.samples} samples (${percentage}% of this function):`);
+
+        // Reverse stack so root is at bottom (traditional view)
+        const reversedStack = [...path.stack].reverse();
+        for (const frame of reversedStack) {
+          console.log(`     ${frame}`);
+        }
+        console.log();
+      }
+
+      // Show summary of remaining paths
+      const remainingPaths = sortedPaths.length - pathsToShow.length;
+      if (remainingPaths > 0) {
+        const samplesRemaining = sortedPaths.slice(pathsToShow.length).reduce((sum, p) => sum + p.samples, 0);
+        console.log(`   [${remainingPaths} more call path${remainingPaths > 1 ? 's' : ''}, accounting for ${samplesRemaining} samples]\n`);
+      }
+    }
+  }
+}
+
+export function formatSigned(value: number, digits: number = 0): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+export function formatPercentChange(percent: number | null): string {
+  return percent === null ? "n/a" : `${formatSigned(percent, 1)}%`;
+}
+
+function printFunctionDiffs(title: string, diffs: FunctionDiff[], totalSamples: number, side: "base" | "candidate"): void {
+  if (diffs.length === 0) {
+    return;
+  }
+
+  console.log(`${title}:\n`);
+  for (const diff of diffs) {
+    const selfTime = side === "base" ? diff.baseSelfTime : diff.candidateSelfTime;
+    const totalTime = side === "base" ? diff.baseTotalTime : diff.candidateTotalTime;
+    const percentage = totalSamples > 0 ? ((totalTime / totalSamples) * 100).toFixed(1) : "0.0";
+    console.log(`  - ${diff.name} - ${totalTime} samples (${percentage}%), ${selfTime} self`);
+  }
+  console.log();
+}
+
+export function printCallTreeDiff(report: FunctionDiffReport, limit: number, filterText: string): void {
+  const totalChange = report.baseTotalSamples > 0
+    ? ` (${formatSigned(((report.candidateTotalSamples - report.baseTotalSamples) / report.baseTotalSamples) * 100, 1)}%)`
+    : "";
+  console.log(`\nTotal samples: ${report.baseTotalSamples} → ${report.candidateTotalSamples}${totalChange}`);
+  console.log(`\nTop ${limit} function changes by share of self time${filterText}:\n`);
+
+  if (report.changed.length === 0) {
+    console.log("No functions found in both profiles.\n");
+  }
+
+  for (let i = 0; i < report.changed.length; i++) {
+    const fn = report.changed[i];
+    console.log(`${i + 1}. ${fn.name}`);
+    console.log(`   Self:  ${fn.baseSelfTime} → ${fn.candidateSelfTime} samples (${formatSigned(fn.selfDelta)}, ${formatPercentChange(fn.selfDeltaPercent)}) | ${(fn.baseSelfShare * 100).toFixed(1)}% → ${(fn.candidateSelfShare * 100).toFixed(1)}% of samples (${formatSigned(fn.selfShareDelta * 100, 1)} pts)`);
+    console.log(`   Total: ${fn.baseTotalTime} → ${fn.candidateTotalTime} samples (${formatSigned(fn.totalDelta)}, ${formatPercentChange(fn.totalDeltaPercent)})`);
+    console.log();
+  }
+
+  printFunctionDiffs("New functions (only in candidate)", report.added, report.candidateTotalSamples, "candidate");
+  printFunctionDiffs("Vanished functions (only in base)", report.removed, report.baseTotalSamples, "base");
+}
+
+export function printMarkerDiffs(markerDiffs: MarkerDiff[], filterText: string): void {
+  console.log(`\nTop ${markerDiffs.length} marker changes by total duration${filterText}:\n`);
+  for (let i = 0; i < markerDiffs.length; i++) {
+    const marker = markerDiffs[i];
+    const status = marker.status === "changed" ? "" : marker.status === "added" ? " [new]" : " [vanished]";
+    console.log(`${i + 1}. ${marker.name}${status} - ${marker.baseTotalDuration.toFixed(2)} ms → ${marker.candidateTotalDuration.toFixed(2)} ms (${formatSigned(marker.totalDurationDelta, 2)} ms, ${formatPercentChange(marker.totalDurationDeltaPercent)})`);
+    console.log(`   Count: ${marker.baseCount} → ${marker.candidateCount} | Avg: ${marker.baseAvgDuration.toFixed(2)} ms → ${marker.candidateAvgDuration.toFixed(2)} ms (${formatSigned(marker.avgDurationDelta, 2)} ms)`);
+  }
+  console.log();
+}
+
+export function printPageLoadSummary(pageLoadSummary: PageLoadSummary): void {
+  console.log("\n═══════════════════════════════════════════════════════════════════════════════");
+  console.log("  Page Load Summary");
+  console.log("═══════════════════════════════════════════════════════════════════════════════\n");
+
+  if (pageLoadSummary.url) {
+    console.log(`URL: ${pageLoadSummary.url}\n`);
+  } else {
+    console.log("URL: Not found\n");
+  }
+
+  const metrics = [
+    { name: "Load", value: pageLoadSummary.load, label: "Load" },
+    { name: "FCP", value: pageLoadSummary.firstContentfulPaint, label: "FCP" },
+    { name: "LCP", value: pageLoadSummary.largestContentfulPaint, label: "LCP" },
+  ].filter(m => m.value !== null);
+
+  if (metrics.length > 0) {
+    const maxTime = Math.max(...metrics.map(m => m.value!));
+    const timelineWidth = 80;
+
+    const maxTimeStr = `${maxTime.toFixed(0)}ms`;
+    const padding = timelineWidth - 3 - maxTimeStr.length;
+    console.log(`0ms${" ".repeat(padding)}${maxTimeStr}`);
+
+    const positions = metrics
+      .sort((a, b) => a.value! - b.value!)
+      .map(m => ({
+        label: m.label,
+        pos: Math.floor((m.value! / maxTime) * (timelineWidth - 1))
+      }));
+
+    let mainTimeline = "-".repeat(timelineWidth);
+    for (const pos of positions) {
+      mainTimeline = mainTimeline.substring(0, pos.pos) + "|" + mainTimeline.substring(pos.pos + 1);
+    }
+    console.log(mainTimeline);
+
+    for (let i = 0; i < positions.length; i++) {
+      const currentPos = positions[i];
+      let line = " ".repeat(timelineWidth);
+
+      for (let j = i; j < positions.length; j++) {
+        line = line.substring(0, positions[j].pos) + "|" + line.substring(positions[j].pos + 1);
+      }
+
+      let labelStart = currentPos.pos;
+      if (i === positions.length - 1) {
+        labelStart = currentPos.pos + 2;
+        if (labelStart + currentPos.label.length > timelineWidth) {
+          labelStart = Math.max(0, currentPos.pos - currentPos.label.length - 1);
+        }
+      }
+
+      if (labelStart >= 0 && labelStart + currentPos.label.length <= timelineWidth) {
+        line = line.substring(0, labelStart) + currentPos.label + line.substring(labelStart + currentPos.label.length);
+      }
+
+      console.log(line);
+    }
+
+    console.log("\n───── Navigation Timing ─────\n");
+
+    for (const metric of metrics) {
+      console.log(`  ${metric.name.padEnd(4)}: ${metric.value!.toFixed(2)} ms`);
+    }
+  } else {
+    console.log("\nNo page load metrics found.");
+  }
+
+  if (pageLoadSummary.resources) {
+    const res = pageLoadSummary.resources;
+    console.log("\n───── Resources ─────\n");
+    console.log(`  Total resources: ${res.totalResources}`);
+    console.log(`  Average duration: ${res.avgDuration.toFixed(2)} ms`);
+    console.log(`  Max duration: ${res.maxDuration.toFixed(2)} ms`);
+    console.log("\n  By type:");
+
+    const sortedTypes = Object.entries(res.byType).sort((a, b) => b[1] - a[1]);
+    for (const [type, count] of sortedTypes) {
+      console.log(`    ${type}: ${count}`);
+    }
+
+    console.log("\n  Top 10 longest loads:");
+    for (let i = 0; i < res.topResources.length; i++) {
+      const resource = res.topResources[i];
+      const filename = resource.url.split('/').pop() || resource.url;
+      const displayName = filename.length > 60 ? filename.substring(0, 57) + "..." : filename;
+      console.log(`    ${i + 1}. ${displayName} - ${resource.duration.toFixed(2)} ms (${resource.type})`);
+    }
+  }
+
+  if (pageLoadSummary.sampleCategories) {
+    const samples = pageLoadSummary.sampleCategories;
+    console.log("\n───── Categories ─────\n");
+    console.log(`  Total samples: ${samples.totalSamples}\n`);
+    console.log("  By category:");
+
+    const sortedCategories = Object.entries(samples.byCategory).sort((a, b) => b[1] - a[1]);
+    for (const [category, count] of sortedCategories) {
+      const percentage = ((count / samples.totalSamples) * 100).toFixed(1);
+      console.log(`    ${category}: ${count} (${percentage}%)`);
+    }
+  }
+
+  if (pageLoadSummary.jankPeriods && pageLoadSummary.jankPeriods.length > 0) {
+    console.log("\n───── Jank ─────\n");
+    console.log(`  Total jank periods: ${pageLoadSummary.jankPeriods.length}\n`);
+
+    for (let i = 0; i < pageLoadSummary.jankPeriods.length; i++) {
+      const jank = pageLoadSummary.jankPeriods[i];
+      console.log(`  Jank ${i + 1}: ${jank.startTime.toFixed(2)} ms - ${jank.duration.toFixed(2)} ms duration`);
+
+      if (jank.topFunctions.length > 0) {
+        console.log("    Top functions:");
+        for (const func of jank.topFunctions) {
+          console.log(`      ${func.name} - ${func.samples} samples`);
+        }
+      }
+
+      const sortedCategories = Object.entries(jank.categories).sort((a: any, b: any) => b[1] - a[1]);
+      if (sortedCategories.length > 0) {
+        console.log("    Categories:");
+        for (const [category, count] of sortedCategories) {
+          console.log(`      ${category}: ${count}`);
+        }
+      }
+      console.log();
+    }
+  }
+}
+
+export function printNetworkResources(networkSummary: NetworkResourceSummary): void {
+  console.log("\n═══════════════════════════════════════════════════════════════════════════════");
+  console.log("  Network Resources");
+  console.log("═══════════════════════════════════════════════════════════════════════════════\n");
+
+  console.log(`Total resources: ${networkSummary.totalResources}\n`);
+
+  console.log("───── Cache Statistics ─────\n");
+  const sortedCacheStats = Object.entries(networkSummary.cacheStats).sort((a, b) => b[1] - a[1]);
+  for (const [cacheType, count] of sortedCacheStats) {
+    const percentage = ((count / networkSummary.totalResources) * 100).toFixed(1);
+    console.log(`  ${cacheType}: ${count} (${percentage}%)`);
+  }
+
+  console.log("\n───── Timing Totals ─────\n");
+  const sortedPhaseTotals = Object.entries(networkSummary.phaseTotals).sort((a, b) => b[1] - a[1]);
+  for (const [phase, total] of sortedPhaseTotals) {
+    console.log(`  ${phase}: ${total.toFixed(2)} ms`);
+  }
+
+  console.log("\n───── Resources (sorted by start time relative to Navigation::Start) ─────\n");
+
+  for (let i = 0; i < networkSummary.resources.length; i++) {
+    const res = networkSummary.resources[i];
+    const displayUrl = res.url.length > 100 ? res.url.substring(0, 97) + "..." : res.url;
+
+    console.log(`${i + 1}. ${displayUrl}`);
+    console.log(`   Start: ${res.startTime.toFixed(2)} ms | Duration: ${res.duration.toFixed(2)} ms`);
+
+    if (res.httpVersion) {
+      console.log(`   HTTP: ${res.httpVersion}`);
+    }
+
+    if (res.cache) {
+      console.log(`   Cache: ${res.cache}`);
+    }
+
+    if (res.contentType) {
+      console.log(`   Content-Type: ${res.contentType}`);
+    }
+
+    if (res.size !== undefined) {
+      const sizeKB = (res.size / 1024).toFixed(2);
+      console.log(`   Size: ${sizeKB} KB`);
+    }
+
+    if (res.phases && res.phases.length > 0) {
+      console.log("   Phases:");
+      for (const phase of res.phases) {
+        console.log(`     ${phase.label}: ${phase.duration.toFixed(2)} ms`);
+      }
+    }
+
+    console.log();
+  }
+}
+
+export function printBatchSummary(summary: BatchSummary, title: string): void {
+  console.log(`\n${title} over ${summary.profiles.length} profiles:\n`);
+
+  if (summary.metrics.length === 0) {
+    console.log("No data found in the profiles.\n");
+    return;
+  }
+
+  const format = (value: number, unit: "ms" | "%") => (unit === "ms" ? `${value.toFixed(2)} ms` : `${value.toFixed(2)}%`);
+  const nameWidth = Math.min(60, Math.max(6, ...summary.metrics.map((metric) => metric.name.length)));
+  const columns = ["Median", "p90", "Min", "Max", "Stddev"];
+  console.log(`${"Metric".padEnd(nameWidth)}  ${columns.map((column) => column.padStart(11)).join("  ")}  ${"Runs".padStart(4)}`);
+  console.log("─".repeat(nameWidth + 2 + columns.length * 13 + 4));
+  for (const metric of summary.metrics) {
+    const { stats, unit } = metric;
+    const name = metric.name.length > nameWidth ? metric.name.substring(0, nameWidth - 3) + "..." : metric.name;
+    const values = [stats.median, stats.p90, stats.min, stats.max, stats.stddev].map((value) => format(value, unit).padStart(11));
+    console.log(`${name.padEnd(nameWidth)}  ${values.join("  ")}  ${String(stats.runs).padStart(4)}`);
+  }
+
+  if (summary.outliers.length > 0) {
+    console.log("\nOutlier runs:\n");
+    const unitByMetric = new Map(summary.metrics.map((metric) => [metric.name, metric.unit]));
+    for (const outlier of summary.outliers) {
+      const unit = unitByMetric.get(outlier.metric)!;
+      console.log(`  ${outlier.profile}: ${outlier.metric} ${format(outlier.value, unit)} (median ${format(outlier.median, unit)})`);
+    }
+  }
+  console.log();
+}
+
+const COMPARISON_GROUP_TITLES: { [group in MetricComparison["group"]]: string } = {
+  "page-load": "Page load timings",
+  marker: "Markers by total duration",
+  function: "Functions by share of self time",
+};
+
+export function printProfileSetComparison(comparison: ProfileSetComparison): void {
+  const confidence = `${+(comparison.confidence * 100).toFixed(2)}%`;
+  console.log(`\nComparing ${comparison.baseProfiles.length} base runs with ${comparison.candidateProfiles.length} new runs`);
+  console.log(`(Mann-Whitney U, ${confidence} confidence, changes of at least ${comparison.thresholdPercent}% of the median)`);
+
+  const format = (value: number, unit: "ms" | "%") => (unit === "ms" ? `${value.toFixed(2)} ms` : `${value.toFixed(2)}%`);
+  const formatShift = (value: number, unit: "ms" | "%") => (unit === "ms" ? `${formatSigned(value, 2)} ms` : `${formatSigned(value, 2)}%`);
+  const nameWidth = Math.min(60, Math.max(6, ...comparison.metrics.map((metric) => metric.name.length)));
+
+  for (const group of Object.keys(COMPARISON_GROUP_TITLES) as Array<MetricComparison["group"]>) {
+    const metrics = comparison.metrics.filter((metric) => metric.group === group);
+    if (metrics.length === 0) {
+      continue;
+    }
+    console.log(`\n${COMPARISON_GROUP_TITLES[group]}:\n`);
+    console.log(`${"Metric".padEnd(nameWidth)}  ${"Base".padStart(11)}  ${"New".padStart(11)}  ${"Change".padStart(8)}  ${`Shift [${confidence} CI]`.padEnd(36)}  ${"p".padStart(6)}  Verdict`);
+    console.log("─".repeat(nameWidth + 2 + 13 + 13 + 10 + 38 + 8 + 11));
+    for (const metric of metrics) {
+      const name = metric.name.length > nameWidth ? metric.name.substring(0, nameWidth - 3) + "..." : metric.name;
+      const shift = `${formatShift(metric.shift, metric.unit)} [${formatShift(metric.shiftLow, metric.unit)}, ${formatShift(metric.shiftHigh, metric.unit)}]`;
+      const verdict = metric.verdict === "unchanged" ? "" : metric.verdict.toUpperCase();
+      console.log((
+        `${name.padEnd(nameWidth)}  ${format(metric.base.median, metric.unit).padStart(11)}  ${format(metric.candidate.median, metric.unit).padStart(11)}  ` +
+        `${formatPercentChange(metric.changePercent).padStart(8)}  ${shift.padEnd(36)}  ${metric.pValue.toFixed(3).padStart(6)}  ${verdict}`
+      ).trimEnd());
+    }
+  }
+
+  if (comparison.metrics.length === 0) {
+    console.log("\nNo data found in the profiles.\n");
+    return;
+  }
+
+  const regressions = comparison.metrics.filter((metric) => metric.verdict === "regression").length;
+  const improvements = comparison.metrics.filter((metric) => metric.verdict === "improvement").length;
+  console.log(`\n${regressions} regression${regressions === 1 ? "" : "s"}, ${improvements} improvement${improvements === 1 ? "" : "s"}, ${comparison.metrics.length - regressions - improvements} unchanged\n`);
+}
+
+export function printBudgetResults(results: BudgetResult[]): void {
+  const ruleWidth = Math.max(4, ...results.map((result) => result.rule.length));
+  console.log(`\n${"Status".padEnd(6)}  ${"Rule".padEnd(ruleWidth)}  Actual`);
+  console.log("─".repeat(6 + 2 + ruleWidth + 2 + 16));
+  for (const result of results) {
+    console.log(`${(result.passed ? "PASS" : "FAIL").padEnd(6)}  ${result.rule.padEnd(ruleWidth)}  ${formatBudgetValue(result.actual, result.unit)}`);
+  }
+  const failures = results.filter((result) => !result.passed).length;
+  console.log(`\n${results.length - failures} of ${results.length} rules passed${failures > 0 ? `, ${failures} failed` : ""}\n`);
+}
+
+// Where the annotation output goes: console.log for the command line.
+export type OutputLog = (...args: unknown[]) => void;
+
+// Runs `action` with a log that collects its output, and returns the output,
+// for servers that return annotation results, which are only printed. Queries
+// that run at the same time each get their own log.
+export async function captureOutput(action: (log: OutputLog) => Promise<void>): Promise<string> {
+  const lines: string[] = [];
+  await action((...args: unknown[]) => {
+    lines.push(format(...args));
+  });
+  return lines.join("\n");
+}
@@ -0,0 +1,129 @@
+import { ThreadInfo } from "./types.js";
+import { Profile } from "./profile-format.js";
+
+export interface ThreadSelection {
+  thread: string | null;
+  process: string | null;
+}
+
+// The per-thread fields needed to describe a thread. This is computed inside
+// the profiler page for the browser path, so it must stay small and serializable.
+export interface RawThreadSummary {
+  name: string;
+  processType: string;
+  processName: string | null;
+  pid: string;
+  tid: string;
+  isMainThread: boolean;
+  sampleCount: number;
+  cpuDelta: number | null;
+}
+
+export function summarizeProfileThreads(profile: Profile): RawThreadSummary[] {
+  return profile.threads.map((thread) => {
+    const cpuDeltas = thread.samples.threadCPUDelta;
+    let cpuDelta: number | null = null;
+    if (cpuDeltas) {
+      // The first value is not meaningful, there is no previous sample.
+      cpuDelta = 0;
+      for (let i = 1; i < cpuDeltas.length; i++) {
+        cpuDelta += cpuDeltas[i] || 0;
+      }
+    }
+
+    return {
+      name: thread.name,
+      processType: thread.processType,
+      processName: thread.processName || null,
+      pid: String(thread.pid),
+      tid: String(thread.tid),
+      isMainThread: thread.isMainThread,
+      sampleCount: thread.samples.length,
+      cpuDelta,
+    };
+  });
+}
+
+export function toThreadInfoList(summaries: RawThreadSummary[], cpuDeltaUnit: string | null): ThreadInfo[] {
+  return summaries.map((summary, index) => {
+    let cpuTime: number | null = null;
+    if (summary.cpuDelta !== null) {
+      if (cpuDeltaUnit === "ns") {
+        cpuTime = summary.cpuDelta / 1000000;
+      } else if (cpuDeltaUnit === "µs") {
+        cpuTime = summary.cpuDelta / 1000;
+      }
+    }
+
+    return {
+      index,
+      name: summary.name,
+      processType: summary.processType,
+      processName: summary.processName,
+      pid: summary.pid,
+      tid: summary.tid,
+      isMainThread: summary.isMainThread,
+      sampleCount: summary.sampleCount,
+      cpuTime,
+    };
+  });
+}
+
+export function getThreadInfoList(profile: Profile): ThreadInfo[] {
+  const unit = profile.meta.sampleUnits ? profile.meta.sampleUnits.threadCPUDelta : null;
+  return toThreadInfoList(summarizeProfileThreads(profile), unit);
+}
+
+function matchesProcess(thread: ThreadInfo, process: string): boolean {
+  const needle = process.toLowerCase();
+  return (
+    thread.pid === process ||
+    (thread.processName !== null && thread.processName.toLowerCase().includes(needle)) ||
+    thread.processType.toLowerCase() === needle
+  );
+}
+
+function matchesThread(thread: ThreadInfo, term: string, threadCount: number): boolean {
+  if (/^\d+$/.test(term)) {
+    const value = parseInt(term, 10);
+    return value < threadCount ? thread.index === value : thread.tid === term;
+  }
+  return thread.name.toLowerCase() === term.toLowerCase();
+}
+
+// A thread or range selection that matches nothing in the profile. The HTTP
+// server reports it as a bad request rather than as a failure.
+export class SelectionError extends Error {}
+
+/**
+ * Resolves --thread / --process to thread indexes. --thread takes a comma
+ * separated list of thread indexes, TIDs or thread names; numbers smaller than
+ * the thread count are indexes, larger ones are TIDs. --process takes a PID,
+ * a process name or a process type, and on its own selects the process's main
+ * thread. Several matching threads are merged, like a multi-selection in the UI.
+ */
+export function resolveThreadSelection(threads: ThreadInfo[], selection: ThreadSelection): number[] {
+  let candidates = threads;
+
+  if (selection.process !== null) {
+    candidates = candidates.filter((thread) => matchesProcess(thread, selection.process!));
+    if (candidates.length === 0) {
+      throw new SelectionError(`No process matches "${selection.process}"`);
+    }
+  }
+
+  if (selection.thread !== null) {
+    const terms = selection.thread.split(",").map((term) => term.trim()).filter((term) => term.length > 0);
+    candidates = candidates.filter((thread) => terms.some((term) => matchesThread(thread, term, threads.length)));
+    if (candidates.length === 0) {
+      throw new SelectionError(`No thread matches "${selection.thread}"${selection.process !== null ? ` in process "${selection.process}"` : ""}`);
+    }
+  } else {
+    const mainThreads = candidates.filter((thread) => thread.isMainThread);
+    if (mainThreads.length > 0) {
+      candidates = mainThreads;
+    }
+  }
+
+  return candidates.map((thread) => thread.index);
+}
@@ -0,0 +1,101 @@
+// Call tree transforms, mirroring the profiler's transform stack. Functions,
+// libraries and categories are referred to by name, and resolved against the
+// selected thread when the transforms are applied.
+export type Transform =
+  | { type: "focus-function"; funcName: string }
+  | { type: "merge-function"; funcName: string }
+  | { type: "merge-call-node"; callPath: string[] }
+  | { type: "drop-function"; funcName: string }
+  | { type: "focus-subtree"; callPath: string[] }
+  | { type: "focus-category"; category: string }
+  | { type: "collapse-resource"; resourceName: string }
+  | { type: "collapse-recursion"; funcName: string }
+  | { type: "collapse-direct-recursion"; funcName: string }
+  | { type: "collapse-function-subtree"; funcName: string };
+
+// Parses "A>B>C", a call path from the root.
+export function parseCallPath(value: string): string[] {
+  const path = value.split(">").map((name) => name.trim()).filter((name) => name.length > 0);
+  if (path.length === 0) {
+    throw new Error(`Invalid call path "${value}", expected e.g. "A>B>C"`);
+  }
+  return path;
+}
+
+export const TRANSFORM_FLAGS = new Map<string, (value: string) => Transform>([
+  ["merge", (value) => ({ type: "merge-function", funcName: value })],
+  ["merge-call-node", (value) => ({ type: "merge-call-node", callPath: parseCallPath(value) })],
+  ["drop", (value) => ({ type: "drop-function", funcName: value })],
+  ["focus-subtree", (value) => ({ type: "focus-subtree", callPath: parseCallPath(value) })],
+  ["focus-category", (value) => ({ type: "focus-category", category: value })],
+  ["collapse-lib", (value) => ({ type: "collapse-resource", resourceName: value })],
+  ["collapse-recursion", (value) => ({ type: "collapse-recursion", funcName: value })],
+  ["collapse-direct-recursion", (value) => ({ type: "collapse-direct-recursion", funcName: value })],
+  ["collapse-subtree", (value) => ({ type: "collapse-function-subtree", funcName: value })],
+]);
+
+/**
+ * Reads the transform flags from the raw command line arguments. yargs groups
+ * repeated options by name, which loses the order between different flags, and
+ * transforms only reproduce a view when they are applied in the same order.
+ */
+export function parseTransformArgs(args: string[]): Transform[] {
+  const transforms: Transform[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      break;
+    }
+    if (!arg.startsWith("--")) {
+      continue;
+    }
+
+    const equals = arg.indexOf("=");
+    const flag = equals === -1 ? arg.slice(2) : arg.slice(2, equals);
+    const createTransform = TRANSFORM_FLAGS.get(flag);
+    if (!createTransform) {
+      continue;
+    }
+
+    let value: string | undefined;
+    if (equals !== -1) {
+      value = arg.slice(equals + 1);
+    } else {
+      value = args[i + 1];
+      i++;
+    }
+    if (value === undefined || value === "") {
+      throw new Error(`--${flag} requires a value`);
+    }
+
+    transforms.push(createTransform(value));
+  }
+
+  return transforms;
+}
+
+export function formatTransform(transform: Transform): string {
+  switch (transform.type) {
+    case "focus-function":
+      return `focus: "${transform.funcName}"`;
+    case "merge-function":
+      return `merge: "${transform.funcName}"`;
+    case "merge-call-node":
+      return `merge call node: "${transform.callPath.join(" > ")}"`;
+    case "drop-function":
+      return `drop: "${transform.funcName}"`;
+    case "focus-subtree":
+      return `focus subtree: "${transform.callPath.join(" > ")}"`;
+    case "focus-category":
+      return `focus category: "${transform.category}"`;
+    case "collapse-resource":
+      return `collapse lib: "${transform.resourceName}"`;
+    case "collapse-recursion":
+      return `collapse recursion: "${transform.funcName}"`;
+    case "collapse-direct-recursion":
+      return `collapse direct recursion: "${transform.funcName}"`;
+    case "collapse-function-subtree":
+      return `collapse subtree: "${transform.funcName}"`;
+  }
+}
@@ -1,3 +1,5 @@
+import { Transform } from "./transforms.js";
+
 export interface CallTreeNode {
   name: string;
   selfTime: number;
@@ -20,6 +22,55 @@ export interface MarkerSummary {
   maxDuration: number;
 }
 
+// One marker, with times in ms relative to the profile's zero like --range.
+export interface MarkerInstance {
+  name: string;
+  type: string | null;
+  start: number;
+  end: number | null;
+  duration: number | null;
+  thread: string;
+  tid: string;
+  category: string | null;
+  // The payload's scalar fields other than type; nested objects are left out.
+  data: { [field: string]: string | number | boolean | null };
+}
+
+// A payload field of a marker, labelled and formatted by the marker's schema.
+export interface MarkerField {
+  key: string;
+  label: string;
+  // The value with string table indexes resolved.
+  value: string | number | boolean | string[];
+  // The value as the profiler shows it, e.g. "2.50 ms" or "1.20 KB".
+  formatted: string;
+}
+
+// One marker of a --markers listing, with times in ms relative to the
+// listing's time origin.
+export interface MarkerListEntry {
+  name: string;
+  type: string | null;
+  start: number;
+  end: number | null;
+  duration: number | null;
+  thread: string;
+  tid: string;
+  category: string | null;
+  fields: MarkerField[];
+}
+
+export interface MarkerListing {
+  name: string;
+  // The navigation start of the selected threads, or the profile's zero when
+  // they have none.
+  timeOrigin: "navigation-start" | "profile-start";
+  sortBy: "start" | "duration";
+  // The number of matching markers, of which the first --limit are listed.
+  total: number;
+  markers: MarkerListEntry[];
+}
+
 export interface FlameNode {
   name: string;
   selfTime: number;
@@ -128,3 +179,177 @@ export interface SourceCodeData {
   lines: SourceLine[];
   totalSamples: number;
 }
+
+export interface ThreadInfo {
+  index: number;
+  name: string;
+  processType: string;
+  processName: string | null;
+  pid: string;
+  tid: string;
+  isMainThread: boolean;
+  sampleCount: number;
+  cpuTime: number | null;
+}
+
+export interface FunctionLocation {
+  fileName: string | null;
+  lineNumber: number | null;
+}
+
+export interface ThreadFlamegraph {
+  thread: ThreadInfo;
+  roots: FlameNode[];
+  // Where the functions in the tree are defined, by function name.
+  functions: { [name: string]: FunctionLocation };
+}
+
+export interface FunctionDiff {
+  name: string;
+  baseSelfTime: number;
+  candidateSelfTime: number;
+  selfDelta: number;
+  selfDeltaPercent: number | null;
+  baseTotalTime: number;
+  candidateTotalTime: number;
+  totalDelta: number;
+  totalDeltaPercent: number | null;
+  // Self time as a fraction of all samples in each profile, so that profiles
+  // of different lengths can be compared.
+  baseSelfShare: number;
+  candidateSelfShare: number;
+  selfShareDelta: number;
+}
+
+export interface FunctionDiffReport {
+  baseTotalSamples: number;
+  candidateTotalSamples: number;
+  changed: FunctionDiff[];
+  added: FunctionDiff[];
+  removed: FunctionDiff[];
+}
+
+export interface MarkerDiff {
+  name: string;
+  status: "changed" | "added" | "removed";
+  baseCount: number;
+  candidateCount: number;
+  baseTotalDuration: number;
+  candidateTotalDuration: number;
+  totalDurationDelta: number;
+  totalDurationDeltaPercent: number | null;
+  baseAvgDuration: number;
+  candidateAvgDuration: number;
+  avgDurationDelta: number;
+}
+
+export interface ProfileDiff {
+  candidateProfile: string;
+  functions?: FunctionDiffReport;
+  markers?: MarkerDiff[];
+}
+
+export interface DistributionStats {
+  runs: number;
+  median: number;
+  p90: number;
+  min: number;
+  max: number;
+  mean: number;
+  stddev: number;
+}
+
+export interface BatchMetric {
+  name: string;
+  unit: "ms" | "%";
+  stats: DistributionStats;
+  // One value per profile, in the order of BatchSummary.profiles; null when
+  // the profile does not have the metric.
+  values: Array<number | null>;
+}
+
+export interface BatchOutlier {
+  profile: string;
+  metric: string;
+  value: number;
+  median: number;
+}
+
+export interface BatchSummary {
+  profiles: string[];
+  metrics: BatchMetric[];
+  // Values outside of 1.5 interquartile ranges from the quartiles of their metric.
+  outliers: BatchOutlier[];
+}
+
+export interface MetricComparison {
+  name: string;
+  group: "page-load" | "marker" | "function";
+  unit: "ms" | "%";
+  base: DistributionStats;
+  candidate: DistributionStats;
+  // Change of the median; null when the base median is 0.
+  changePercent: number | null;
+  // Hodges-Lehmann estimate of the shift from base to candidate, and its
+  // confidence interval.
+  shift: number;
+  shiftLow: number;
+  shiftHigh: number;
+  // Two-sided Mann-Whitney U test.
+  pValue: number;
+  verdict: "regression" | "improvement" | "unchanged";
+}
+
+export interface ProfileSetComparison {
+  baseProfiles: string[];
+  candidateProfiles: string[];
+  confidence: number;
+  thresholdPercent: number;
+  metrics: MetricComparison[];
+}
+
+export interface JsonOutputOptions {
+  focusFunction: string | null;
+  focusMarker: string | null;
+  /** The number of functions asked for with --calltree. */
+  calltree: number | null;
+  /** The number of markers asked for with --top-markers, null for the default summary. */
+  topMarkers: number | null;
+  /** The --limit of the --markers listing. */
+  markersLimit: number | null;
+  maxDepth: number | null;
+  detailed: boolean;
+  offline: boolean;
+  thread: string | null;
+  process: string | null;
+  range: string | null;
+  transforms: Transform[];
+  fromUrl: string | null;
+  /** The payload field that markers are summarized by, with --group-by. */
+  groupBy: string | null;
+  /** The --where conditions, as field=value. */
+  where: string[];
+}
+
+/**
+ * The document printed by `--format json`. Exactly one document is written to
+ * stdout per invocation; only the sections for the requested modes are present.
+ */
+export interface JsonOutputDocument {
+  /** Incremented whenever the document shape changes incompatibly. */
+  version: number;
+  profile: string;
+  options: JsonOutputOptions;
+  calltree?: CallTreeNode[];
+  flamegraph?: FlameNode[];
+  topMarkers?: MarkerSummary[];
+  markers?: MarkerListing;
+  pageLoad?: PageLoadSummary;
+  network?: NetworkResourceSummary;
+  threads?: ThreadInfo[];
+  diff?: ProfileDiff;
+  batch?: BatchSummary;
+  compare?: ProfileSetComparison;
+  /** A profiler.firefox.com URL for the analyzed view, with --print-url. */
+  url?: string;
+}
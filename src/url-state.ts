@@ -0,0 +1,455 @@
+import { TimeRange } from "./range.js";
+import { Transform, formatTransform } from "./transforms.js";
+
+// Reading and writing the parts of profiler.firefox.com URLs that describe the
+// call tree view: the selected threads, committed ranges, transform stack and
+// invert flag. Profiler URLs refer to functions, resources and categories by
+// index, so they have to be resolved against a profile to become CLI transforms.
+
+// The profiler URL version that the syntax below corresponds to. Older URLs
+// are upgraded by the profiler when they are opened.
+export const PROFILER_URL_VERSION = 10;
+
+const DEFAULT_PROFILER_URL = "https://profiler.firefox.com/from-file/calltree/";
+
+export type UrlTransform =
+  | { type: "focus-subtree"; callNodePath: number[]; implementation: string; inverted: boolean }
+  | { type: "focus-function"; funcIndex: number }
+  | { type: "focus-category"; category: number }
+  | { type: "merge-call-node"; callNodePath: number[]; implementation: string }
+  | { type: "merge-function"; funcIndex: number }
+  | { type: "drop-function"; funcIndex: number }
+  | { type: "collapse-resource"; resourceIndex: number; collapsedFuncIndex: number; implementation: string }
+  | { type: "collapse-direct-recursion"; funcIndex: number; implementation: string }
+  | { type: "collapse-recursion"; funcIndex: number }
+  | { type: "collapse-function-subtree"; funcIndex: number };
+
+export interface UrlState {
+  // Selected thread indexes, or null for the profile's default selection.
+  threads: number[] | null;
+  // Committed ranges relative to the profile's zero, from the outermost to the
+  // innermost one.
+  committedRanges: TimeRange[];
+  transforms: UrlTransform[];
+  invertCallstack: boolean;
+  // Transforms that could not be parsed, kept so that they can be reported.
+  unsupportedTransforms: string[];
+}
+
+// The names that URL indexes refer to, for the selected thread.
+export interface UrlNameTables {
+  funcNames: string[];
+  resourceNames: string[];
+  categoryNames: string[];
+}
+
+// Numbers are written in base 32, most significant digit first. The last digit
+// uses the first 32 characters and the others the last 32, so numbers need no
+// separator. A leading "w" would be a zero digit, which never occurs, so it
+// marks a range between the previous and the next number instead.
+const ENCODING_CHARS = "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ._";
+const RANGE_CHAR = "w";
+
+export function decodeUintArray(value: string): number[] {
+  const result: number[] = [];
+  let current = 0;
+  let inNumber = false;
+  let pendingRange = false;
+
+  for (const char of value) {
+    if (char === RANGE_CHAR && !inNumber) {
+      if (result.length === 0) {
+        throw new Error(`Invalid number list "${value}"`);
+      }
+      pendingRange = true;
+      continue;
+    }
+
+    const digit = ENCODING_CHARS.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid number list "${value}"`);
+    }
+
+    if (digit >= 32) {
+      current = current * 32 + (digit - 32);
+      inNumber = true;
+      continue;
+    }
+
+    current = current * 32 + digit;
+    if (pendingRange) {
+      for (let n = result[result.length - 1] + 1; n <= current; n++) {
+        result.push(n);
+      }
+      pendingRange = false;
+    } else {
+      result.push(current);
+    }
+    current = 0;
+    inNumber = false;
+  }
+
+  if (inNumber || pendingRange) {
+    throw new Error(`Invalid number list "${value}"`);
+  }
+  return result;
+}
+
+function encodeUint(value: number): string {
+  let encoded = ENCODING_CHARS[value % 32];
+  value = Math.floor(value / 32);
+  while (value > 0) {
+    encoded = ENCODING_CHARS[32 + (value % 32)] + encoded;
+    value = Math.floor(value / 32);
+  }
+  return encoded;
+}
+
+export function encodeUintArray(values: number[]): string {
+  let encoded = "";
+  for (let i = 0; i < values.length; i++) {
+    let end = i;
+    while (end + 1 < values.length && values[end + 1] === values[end] + 1) {
+      end++;
+    }
+    if (end - i >= 2) {
+      encoded += encodeUint(values[i]) + RANGE_CHAR + encodeUint(values[end]);
+      i = end;
+    } else {
+      encoded += encodeUint(values[i]);
+    }
+  }
+  return encoded;
+}
+
+function parseIndex(value: string | undefined): number {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new Error(`Invalid index "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseUrlTransform(value: string): UrlTransform {
+  const [key, ...parts] = value.split("-");
+  // Some transforms used to carry an implementation filter before their index;
+  // the index is always the last part.
+  const last = parts[parts.length - 1];
+
+  switch (key) {
+    case "f": {
+      const inverted = last === "i";
+      const [implementation, path] = parts;
+      return { type: "focus-subtree", callNodePath: decodeUintArray(path || ""), implementation, inverted };
+    }
+    case "ff":
+      return { type: "focus-function", funcIndex: parseIndex(last) };
+    case "fg":
+      return { type: "focus-category", category: parseIndex(last) };
+    case "mcn":
+      return { type: "merge-call-node", callNodePath: decodeUintArray(parts[1] || ""), implementation: parts[0] };
+    case "mf":
+      return { type: "merge-function", funcIndex: parseIndex(last) };
+    case "df":
+      return { type: "drop-function", funcIndex: parseIndex(last) };
+    case "cr": {
+      const hasImplementation = parts.length > 2;
+      return {
+        type: "collapse-resource",
+        implementation: hasImplementation ? parts[0] : "combined",
+        resourceIndex: parseIndex(parts[parts.length - 2]),
+        collapsedFuncIndex: parseIndex(last),
+      };
+    }
+    case "rec":
+      return { type: "collapse-recursion", funcIndex: parseIndex(last) };
+    case "drec":
+      return { type: "collapse-direct-recursion", funcIndex: parseIndex(last), implementation: parts.length > 1 ? parts[0] : "combined" };
+    case "cf":
+      return { type: "collapse-function-subtree", funcIndex: parseIndex(last) };
+    default:
+      throw new Error(`Unsupported transform "${value}"`);
+  }
+}
+
+export function stringifyUrlTransform(transform: UrlTransform): string {
+  switch (transform.type) {
+    case "focus-subtree":
+      return `f-${transform.implementation}-${encodeUintArray(transform.callNodePath)}${transform.inverted ? "-i" : ""}`;
+    case "focus-function":
+      return `ff-${transform.funcIndex}`;
+    case "focus-category":
+      return `fg-${transform.category}`;
+    case "merge-call-node":
+      return `mcn-${transform.implementation}-${encodeUintArray(transform.callNodePath)}`;
+    case "merge-function":
+      return `mf-${transform.funcIndex}`;
+    case "drop-function":
+      return `df-${transform.funcIndex}`;
+    case "collapse-resource":
+      return `cr-${transform.implementation}-${transform.resourceIndex}-${transform.collapsedFuncIndex}`;
+    case "collapse-direct-recursion":
+      return `drec-${transform.implementation}-${transform.funcIndex}`;
+    case "collapse-recursion":
+      return `rec-${transform.funcIndex}`;
+    case "collapse-function-subtree":
+      return `cf-${transform.funcIndex}`;
+  }
+}
+
+const RANGE_UNITS: { [unit: string]: number } = { m: 1, u: 1e-3, n: 1e-6 };
+
+// Committed ranges are written as START<unit>DURATION, e.g. "1843m208", where
+// both numbers are integers in the unit (m: ms, u: µs, n: ns). Older URLs use
+// "START_END" in seconds.
+function parseCommittedRange(value: string): TimeRange {
+  const match = value.match(/^(\d+)([mun])(\d+)$/);
+  if (match) {
+    const unit = RANGE_UNITS[match[2]];
+    const start = parseInt(match[1], 10) * unit;
+    return { start, end: start + parseInt(match[3], 10) * unit };
+  }
+
+  const legacy = value.match(/^(\d+(?:\.\d+)?)_(\d+(?:\.\d+)?)$/);
+  if (legacy) {
+    return { start: parseFloat(legacy[1]) * 1000, end: parseFloat(legacy[2]) * 1000 };
+  }
+
+  throw new Error(`Invalid committed range "${value}"`);
+}
+
+function stringifyCommittedRange(range: TimeRange): string {
+  for (const unit of ["m", "u", "n"]) {
+    const start = range.start / RANGE_UNITS[unit];
+    const duration = (range.end - range.start) / RANGE_UNITS[unit];
+    if (unit === "n" || (Number.isInteger(start) && Number.isInteger(duration))) {
+      return `${Math.floor(start)}${unit}${Math.max(1, Math.round(duration))}`;
+    }
+  }
+  throw new Error("unreachable");
+}
+
+/**
+ * Parses the view state out of a profiler URL. Only the query string is read,
+ * so the URL can point to any profile source (public, from-url, local).
+ */
+export function parseProfilerUrl(url: string): UrlState {
+  const params = new URL(url).searchParams;
+  const state: UrlState = {
+    threads: null,
+    committedRanges: [],
+    transforms: [],
+    invertCallstack: params.has("invertCallstack"),
+    unsupportedTransforms: [],
+  };
+
+  const thread = params.get("thread");
+  if (thread) {
+    state.threads = thread.includes(",")
+      ? thread.split(",").map((index) => parseIndex(index.trim()))
+      : decodeUintArray(thread);
+  }
+
+  const range = params.get("range");
+  if (range) {
+    state.committedRanges = range.split("~").map(parseCommittedRange);
+  }
+
+  const transforms = params.get("transforms");
+  if (transforms) {
+    for (const value of transforms.split("~")) {
+      try {
+        state.transforms.push(parseUrlTransform(value));
+      } catch {
+        state.unsupportedTransforms.push(value);
+      }
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Builds a profiler URL for the given state. The query string of `baseUrl` is
+ * kept, except for the view state parameters that are replaced.
+ */
+export function buildProfilerUrl(state: UrlState, baseUrl: string | null = null): string {
+  const url = new URL(baseUrl ?? DEFAULT_PROFILER_URL);
+  const params = url.searchParams;
+
+  for (const name of ["thread", "range", "transforms", "invertCallstack"]) {
+    params.delete(name);
+  }
+  if (!params.has("v")) {
+    params.set("v", String(PROFILER_URL_VERSION));
+  }
+
+  if (state.threads !== null && state.threads.length > 0) {
+    params.set("thread", encodeUintArray(state.threads));
+  }
+  if (state.committedRanges.length > 0) {
+    params.set("range", state.committedRanges.map(stringifyCommittedRange).join("~"));
+  }
+  if (state.transforms.length > 0) {
+    params.set("transforms", state.transforms.map(stringifyUrlTransform).join("~"));
+  }
+  if (state.invertCallstack) {
+    params.set("invertCallstack", "");
+  }
+
+  // "~" separates list items and is left unescaped, like in the profiler.
+  return url.toString().replace(/%7E/g, "~");
+}
+
+// Copies the view state of `fromUrl` onto `url`, so that the profiler restores
+// it when `url` is opened.
+export function mergeUrlState(url: string, fromUrl: string): string {
+  const target = new URL(url);
+  const source = new URL(fromUrl).searchParams;
+  for (const name of ["thread", "range", "transforms", "invertCallstack", "v"]) {
+    const value = source.get(name);
+    if (value !== null) {
+      target.searchParams.set(name, value);
+    } else {
+      target.searchParams.delete(name);
+    }
+  }
+  return target.toString();
+}
+
+function getName(names: string[], index: number, kind: string): string {
+  if (index < 0 || index >= names.length) {
+    throw new Error(`The URL refers to ${kind} #${index}, which does not exist in the selected thread`);
+  }
+  return names[index];
+}
+
+export function resolveUrlTransform(transform: UrlTransform, names: UrlNameTables): Transform {
+  const funcName = (index: number) => getName(names.funcNames, index, "function");
+
+  switch (transform.type) {
+    case "focus-subtree":
+      return { type: "focus-subtree", callPath: transform.callNodePath.map(funcName) };
+    case "merge-call-node":
+      return { type: "merge-call-node", callPath: transform.callNodePath.map(funcName) };
+    case "focus-category":
+      return { type: "focus-category", category: getName(names.categoryNames, transform.category, "category") };
+    case "collapse-resource":
+      return { type: "collapse-resource", resourceName: getName(names.resourceNames, transform.resourceIndex, "resource") };
+    default:
+      return { type: transform.type, funcName: funcName(transform.funcIndex) };
+  }
+}
+
+/**
+ * Converts CLI transforms back to the index based URL form. Transforms that
+ * refer to names missing from the tables are left out, with a warning.
+ */
+export function toUrlTransforms(transforms: Transform[], names: UrlNameTables): UrlTransform[] {
+  const urlTransforms: UrlTransform[] = [];
+  // Every collapsed library adds a function at the end of the function table.
+  let nextFuncIndex = names.funcNames.length;
+
+  const findIndex = (list: string[], name: string, kind: string): number | null => {
+    const index = list.indexOf(name);
+    if (index === -1) {
+      console.log(`Warning: ${kind} "${name}" not found, it is left out of the URL`);
+      return null;
+    }
+    return index;
+  };
+  const findCallPath = (callPath: string[]): number[] | null => {
+    const path = callPath.map((name) => findIndex(names.funcNames, name, "Function"));
+    return path.includes(null) ? null : (path as number[]);
+  };
+
+  for (const transform of transforms) {
+    switch (transform.type) {
+      case "focus-subtree":
+      case "merge-call-node": {
+        const callNodePath = findCallPath(transform.callPath);
+        if (callNodePath !== null) {
+          urlTransforms.push(transform.type === "focus-subtree"
+            ? { type: "focus-subtree", callNodePath, implementation: "combined", inverted: false }
+            : { type: "merge-call-node", callNodePath, implementation: "combined" });
+        }
+        break;
+      }
+      case "focus-category": {
+        const lowerCaseNames = names.categoryNames.map((name) => name.toLowerCase());
+        const category = findIndex(lowerCaseNames, transform.category.toLowerCase(), "Category");
+        if (category !== null) {
+          urlTransforms.push({ type: "focus-category", category });
+        }
+        break;
+      }
+      case "collapse-resource": {
+        const resourceIndex = findIndex(names.resourceNames, transform.resourceName, "Library");
+        if (resourceIndex !== null) {
+          urlTransforms.push({ type: "collapse-resource", resourceIndex, collapsedFuncIndex: nextFuncIndex++, implementation: "combined" });
+        }
+        break;
+      }
+      case "collapse-direct-recursion": {
+        const funcIndex = findIndex(names.funcNames, transform.funcName, "Function");
+        if (funcIndex !== null) {
+          urlTransforms.push({ type: "collapse-direct-recursion", funcIndex, implementation: "combined" });
+        }
+        break;
+      }
+      default: {
+        const funcIndex = findIndex(names.funcNames, transform.funcName, "Function");
+        if (funcIndex !== null) {
+          urlTransforms.push({ type: transform.type, funcIndex });
+        }
+        break;
+      }
+    }
+  }
+
+  return urlTransforms;
+}
+
+function formatUrlTransform(transform: UrlTransform): string {
+  switch (transform.type) {
+    case "focus-subtree":
+    case "merge-call-node":
+      return `${transform.type}: function path ${transform.callNodePath.map((func) => `#${func}`).join(" > ")}`;
+    case "focus-category":
+      return `${transform.type}: category #${transform.category}`;
+    case "collapse-resource":
+      return `${transform.type}: resource #${transform.resourceIndex}`;
+    default:
+      return `${transform.type}: function #${transform.funcIndex}`;
+  }
+}
+
+/**
+ * Describes the URL state for humans. With name tables, functions and
+ * categories are shown by name, otherwise by their index in the profile.
+ */
+export function describeUrlState(state: UrlState, names: UrlNameTables | null = null): string[] {
+  const lines: string[] = [];
+
+  if (state.threads !== null) {
+    lines.push(`Threads: ${state.threads.join(", ")}`);
+  }
+  if (state.committedRanges.length > 0) {
+    const ranges = state.committedRanges.map((range) => `${range.start.toFixed(3).replace(/\.?0+$/, "")}ms-${range.end.toFixed(3).replace(/\.?0+$/, "")}ms`);
+    lines.push(`Committed range: ${ranges.join(" > ")}`);
+  }
+  if (state.invertCallstack) {
+    lines.push("Inverted call stack");
+  }
+  if (state.transforms.length > 0) {
+    lines.push("Transforms:");
+    state.transforms.forEach((transform, i) => {
+      const description = names !== null ? formatTransform(resolveUrlTransform(transform, names)) : formatUrlTransform(transform);
+      lines.push(`  ${i + 1}. ${description}`);
+    });
+  }
+  for (const transform of state.unsupportedTransforms) {
+    lines.push(`Unsupported transform, ignored: ${transform}`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+
+// Runs `profiler-cli <fixture> --offline --calltree` with a profiler URL, and
+// compares its call tree with the one of the same view given as options. The
+// offline engine turns the URL state into options; in the browser, the profiler
+// restores it itself (see profiler.test.ts for keeping it between queries).
+
+const fixture = fileURLToPath(new URL("fixtures/profile.json", import.meta.url));
+const entryPoint = fileURLToPath(new URL("../src/index.ts", import.meta.url));
+
+async function runCallTree(...args: string[]): Promise<string> {
+  const { stdout } = await promisify(execFile)(
+    process.execPath,
+    ["--import", "tsx", entryPoint, fixture, "--offline", "--calltree", "5", ...args]
+  );
+  // The functions, without the heading that names the options.
+  return stdout.slice(stdout.indexOf("\n1. "));
+}
+
+test("--offline --from-url applies the threads and transforms of the URL", async () => {
+  // Thread 2 is Renderer, and function 1 of its function table is foo.
+  const fromUrl = await runCallTree("--from-url", "https://profiler.firefox.com/public/abc/calltree/?thread=2&transforms=ff-1&v=10");
+  const fromOptions = await runCallTree("--thread", "Renderer", "--focus-function", "foo");
+  const unfocused = await runCallTree("--thread", "Renderer");
+
+  assert.equal(fromUrl, fromOptions);
+  assert.notEqual(fromUrl, unfocused);
+});
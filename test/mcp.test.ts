@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv-provider.js";
+import { computeCallTreeData, loadProfileFile } from "../src/offline.js";
+import { getThreadInfoList } from "../src/threads.js";
+
+// Runs `profiler-cli mcp <fixture> --offline` and queries it as an MCP client
+// would, over stdio.
+
+const fixture = fileURLToPath(new URL("fixtures/profile.json", import.meta.url));
+const entryPoint = fileURLToPath(new URL("../src/index.ts", import.meta.url));
+
+const client = new Client({ name: "profiler-cli-test", version: "1.0.0" });
+const outputSchemas = new Map<string, object>();
+
+before(async () => {
+  await client.connect(new StdioClientTransport({
+    command: process.execPath,
+    args: ["--import", "tsx", entryPoint, "mcp", fixture, "--offline"],
+    stderr: "ignore",
+  }));
+  const { tools } = await client.listTools();
+  for (const tool of tools) {
+    if (tool.outputSchema) {
+      outputSchemas.set(tool.name, tool.outputSchema);
+    }
+  }
+});
+
+after(async () => {
+  await client.close();
+});
+
+function assertMatchesOutputSchema(toolName: string, structuredContent: unknown): void {
+  const schema = outputSchemas.get(toolName);
+  assert.ok(schema, `${toolName} has no output schema`);
+  const result = new AjvJsonSchemaValidator().getValidator(schema as any)(structuredContent);
+  assert.ok(result.valid, `${toolName} output does not match its schema: ${result.errorMessage}`);
+}
+
+test("list_threads returns the threads of the default profile", async () => {
+  const result = await client.callTool({ name: "list_threads", arguments: {} });
+  assert.notEqual(result.isError, true);
+  assertMatchesOutputSchema("list_threads", result.structuredContent);
+
+  const profile = await loadProfileFile(fixture);
+  assert.deepEqual(result.structuredContent, { threads: getThreadInfoList(profile) });
+});
+
+test("get_call_tree returns the top functions by self time", async () => {
+  const result = await client.callTool({ name: "get_call_tree", arguments: { limit: 3, thread: "Renderer" } });
+  assert.notEqual(result.isError, true);
+  assertMatchesOutputSchema("get_call_tree", result.structuredContent);
+
+  const profile = await loadProfileFile(fixture);
+  const expected = computeCallTreeData(profile, 3, false, null, null, { thread: "Renderer", process: null });
+  assert.equal(expected.length, 3);
+  assert.deepEqual(result.structuredContent, { functions: expected });
+});
+
+test("get_call_tree reports an unknown thread as a tool error", async () => {
+  const result = await client.callTool({ name: "get_call_tree", arguments: { thread: "NoSuchThread" } });
+  assert.equal(result.isError, true);
+});
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { gunzipSync } from "node:zlib";
+import { computeFlamegraphData, loadProfileFile } from "../src/offline.js";
+import { toFoldedStacks } from "../src/export.js";
+import { toPprof } from "../src/pprof.js";
+
+// Decodes the pprof output again, with just enough protobuf to read
+// profile.proto: every field becomes a list of varints or of byte strings.
+
+type Message = Map<number, Array<number | Buffer>>;
+
+function readVarint(bytes: Buffer, offset: number): [number, number] {
+  let value = 0;
+  let factor = 1;
+  while (true) {
+    const byte = bytes[offset++];
+    value += (byte & 0x7f) * factor;
+    if (byte < 0x80) {
+      return [value, offset];
+    }
+    factor *= 0x80;
+  }
+}
+
+function decode(bytes: Buffer): Message {
+  const message: Message = new Map();
+  let offset = 0;
+  while (offset < bytes.length) {
+    let tag: number;
+    [tag, offset] = readVarint(bytes, offset);
+    const field = Math.floor(tag / 8);
+    let value: number | Buffer;
+    switch (tag % 8) {
+      case 0:
+        [value, offset] = readVarint(bytes, offset);
+        break;
+      case 2: {
+        let length: number;
+        [length, offset] = readVarint(bytes, offset);
+        value = bytes.subarray(offset, offset + length);
+        offset += length;
+        break;
+      }
+      default:
+        throw new Error(`Unexpected wire type in tag ${tag}`);
+    }
+    message.set(field, [...(message.get(field) ?? []), value]);
+  }
+  return message;
+}
+
+function uint(message: Message, field: number): number {
+  return (message.get(field)?.[0] as number | undefined) ?? 0;
+}
+
+function messages(message: Message, field: number): Message[] {
+  return (message.get(field) ?? []).map((value) => decode(value as Buffer));
+}
+
+function packed(message: Message, field: number): number[] {
+  const values: number[] = [];
+  for (const bytes of (message.get(field) ?? []) as Buffer[]) {
+    for (let offset = 0; offset < bytes.length;) {
+      let value: number;
+      [value, offset] = readVarint(bytes, offset);
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+const fixture = fileURLToPath(new URL("fixtures/profile.json", import.meta.url));
+
+test("pprof output decodes to the samples, functions and mappings of the profile", async () => {
+  const profile = await loadProfileFile(fixture);
+  const threadSelection = { thread: "Renderer", process: null };
+  const decoded = decode(gunzipSync(toPprof(profile, threadSelection)));
+
+  const strings = ((decoded.get(6) ?? []) as Buffer[]).map((bytes) => bytes.toString("utf8"));
+  assert.equal(strings[0], "");
+
+  const sampleTypes = messages(decoded, 1).map((valueType) => [strings[uint(valueType, 1)], strings[uint(valueType, 2)]]);
+  assert.deepEqual(sampleTypes, [["samples", "count"], ["wall", "nanoseconds"]]);
+  assert.equal(strings[uint(decoded, 14)], "samples");
+  assert.equal(uint(decoded, 12), profile.meta.interval * 1e6);
+
+  const mappings = messages(decoded, 3).map((mapping) => ({
+    id: uint(mapping, 1),
+    filename: strings[uint(mapping, 5)],
+    buildId: strings[uint(mapping, 6)],
+  }));
+  assert.deepEqual(mappings, [{ id: 1, filename: "/usr/lib/libxul.so", buildId: "ABC" }]);
+
+  const functionNames = new Map(messages(decoded, 5).map((func) => [uint(func, 1), strings[uint(func, 2)]]));
+  const locations = new Map(messages(decoded, 4).map((location) => {
+    const [line] = messages(location, 4);
+    return [uint(location, 1), { mappingId: uint(location, 2), name: functionNames.get(uint(line, 1))! }];
+  }));
+  assert.deepEqual(
+    [...locations.values()].map((location) => `${location.name}@${location.mappingId}`).sort(),
+    ["bar@1", "baz@0", "foo@1", "js::gc::GCRuntime::collect@1", "main@1", "malloc@1"]
+  );
+
+  // Each sample is one stack, leaf first, with its sample count and wall time.
+  const folded: string[] = [];
+  for (const sample of messages(decoded, 2)) {
+    const names = packed(sample, 1).map((id) => locations.get(id)!.name).reverse();
+    const [count, wall] = packed(sample, 2);
+    assert.equal(wall, count * profile.meta.interval * 1e6);
+    folded.push(`${names.join(";")} ${count}`);
+
+    const labels = Object.fromEntries(messages(sample, 3).map((label) => [strings[uint(label, 1)], strings[uint(label, 2)]]));
+    assert.equal(labels.thread, "Renderer");
+    assert.equal(labels.tid, "102");
+  }
+
+  const expected = toFoldedStacks(computeFlamegraphData(profile, null, null, null, threadSelection));
+  assert.deepEqual(folded.sort(), expected.sort());
+});
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { Browser } from "playwright";
+import { openProfilePage, resetProfileView } from "../src/profiler.js";
+
+// Runs the page callbacks of profiler.ts in Node, against a small stand-in for
+// the profiler's store: selected threads, committed ranges, and one transform
+// stack per thread selection, as in the profiler's URL state.
+
+interface FakeState {
+  selectedThreads: number[];
+  committedRanges: Array<{ start: number; end: number }>;
+  transforms: Map<string, unknown[]>;
+}
+
+const state: FakeState = {
+  selectedThreads: [],
+  committedRanges: [],
+  transforms: new Map(),
+};
+
+const threadsKey = (threads: number[]): string => [...threads].sort((a, b) => a - b).join(",");
+
+const actions = {
+  changeSelectedThreads: (threads: Set<number>) => () => {
+    state.selectedThreads = [...threads];
+  },
+  popTransformsFromStack: (firstPoppedIndex: number) => () => {
+    const key = threadsKey(state.selectedThreads);
+    state.transforms.set(key, (state.transforms.get(key) ?? []).slice(0, firstPoppedIndex));
+  },
+  addTransformToStack: (key: string, transform: unknown) => () => {
+    state.transforms.set(key, [...(state.transforms.get(key) ?? []), transform]);
+  },
+  popCommittedRanges: (firstPoppedIndex: number) => () => {
+    state.committedRanges = state.committedRanges.slice(0, firstPoppedIndex);
+  },
+  commitRange: (start: number, end: number) => () => {
+    state.committedRanges = [...state.committedRanges, { start, end }];
+  },
+};
+
+const selectors = {
+  app: { getView: () => ({ phase: "DATA_LOADED" }) },
+  profile: { getSymbolicationStatus: () => "DONE" },
+  urlState: {
+    getSelectedThreadIndexes: () => new Set(state.selectedThreads),
+    getSelectedThreadsKey: () => threadsKey(state.selectedThreads),
+    getAllCommittedRanges: () => state.committedRanges,
+    getTransformStack: (_state: unknown, key: string) => state.transforms.get(key) ?? [],
+  },
+};
+
+Object.assign(globalThis, {
+  window: globalThis,
+  selectors,
+  actions,
+  getState: () => state,
+  dispatch: (action: () => void) => action(),
+  callTree: { getRoots: () => [] },
+});
+
+const fakePage = {
+  goto: async () => null,
+  close: async () => {},
+  evaluate: async (callback: (arg: unknown) => unknown, arg: unknown) => callback(arg),
+  // The store changes synchronously, so the condition must already hold.
+  waitForFunction: async (condition: (arg: unknown) => unknown, arg: unknown) => {
+    assert.ok(condition(arg), "the page never reached the awaited state");
+  },
+};
+const fakeBrowser = { newPage: async () => fakePage } as unknown as Browser;
+
+function getView() {
+  return {
+    threads: [...state.selectedThreads],
+    committedRanges: [...state.committedRanges],
+    transforms: [...(state.transforms.get(threadsKey(state.selectedThreads)) ?? [])],
+  };
+}
+
+test("resetProfileView goes back to the threads, range and transforms of the profiler URL", async () => {
+  // The view the profiler restored from a URL like ?thread=2&range=...&transforms=ff-1.
+  state.selectedThreads = [2];
+  state.committedRanges = [{ start: 10, end: 50 }];
+  state.transforms = new Map([["2", [{ type: "focus-function", funcIndex: 1 }]]]);
+  const urlView = getView();
+
+  const page = await openProfilePage(fakeBrowser, "https://profiler.firefox.com/public/abc/calltree/?thread=2");
+
+  // A query on the URL's thread, then one on another thread, each with its own
+  // range and transform on top.
+  for (const threads of [[2], [0]]) {
+    actions.changeSelectedThreads(new Set(threads))();
+    actions.commitRange(20, 30)();
+    actions.addTransformToStack(threadsKey(threads), { type: "merge-function", funcIndex: 3 })();
+
+    await resetProfileView(page as any);
+    assert.deepEqual(getView(), urlView);
+  }
+  assert.deepEqual(state.transforms.get("0"), []);
+});